@@ -0,0 +1,237 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { OPENAI_EMBEDDING_MODELS, isValidOpenAIDimensions } from '@/lib/embeddingProviders';
+
+/**
+ * Server-side proxy for the OpenAI embeddings API. The key is read from
+ * OPENAI_API_KEY and never sent to the browser; each client is limited per
+ * request (inputs, characters) and per minute (requests, characters).
+ */
+
+const OPENAI_EMBEDDINGS_URL = 'https://api.openai.com/v1/embeddings';
+
+const LIMITS = {
+  maxInputsPerRequest: readLimit('EMBEDDING_PROXY_MAX_INPUTS', 100),
+  maxCharsPerRequest: readLimit('EMBEDDING_PROXY_MAX_CHARS', 1_200_000),
+  requestsPerMinute: readLimit('EMBEDDING_PROXY_REQUESTS_PER_MINUTE', 60),
+  charsPerMinute: readLimit('EMBEDDING_PROXY_CHARS_PER_MINUTE', 5_000_000),
+  maxBodyBytes: readLimit('EMBEDDING_PROXY_MAX_BODY_BYTES', 8_000_000)
+};
+
+// Reverse proxies in front of the app that append to X-Forwarded-For; without any, forwarded headers come from the caller
+const TRUSTED_PROXY_HOPS = readCount('EMBEDDING_PROXY_TRUSTED_PROXIES');
+const SHARED_CLIENT_ID = 'direct';
+
+const WINDOW_MS = 60_000;
+
+interface ClientUsage {
+  windowStart: number;
+  requests: number;
+  chars: number;
+}
+
+/**
+ * Fixed-window usage counters per client. State lives in server memory, so
+ * limits apply per server instance.
+ */
+class ClientRateLimiter {
+  private usage = new Map<string, ClientUsage>();
+
+  /**
+   * Record a request; returns the wait in ms when the client is over its limits
+   */
+  consume(clientId: string, chars: number): number | null {
+    const now = Date.now();
+    this.prune(now);
+
+    let entry = this.usage.get(clientId);
+    if (!entry || now - entry.windowStart >= WINDOW_MS) {
+      entry = { windowStart: now, requests: 0, chars: 0 };
+      this.usage.set(clientId, entry);
+    }
+
+    if (entry.requests + 1 > LIMITS.requestsPerMinute || entry.chars + chars > LIMITS.charsPerMinute) {
+      return entry.windowStart + WINDOW_MS - now;
+    }
+
+    entry.requests++;
+    entry.chars += chars;
+    return null;
+  }
+
+  private prune(now: number): void {
+    this.usage.forEach((entry, clientId) => {
+      if (now - entry.windowStart >= WINDOW_MS) {
+        this.usage.delete(clientId);
+      }
+    });
+  }
+}
+
+const rateLimiter = new ClientRateLimiter();
+
+/**
+ * Report whether the proxy is configured, so the UI can offer it
+ */
+export async function GET() {
+  return NextResponse.json({
+    configured: Boolean(process.env.OPENAI_API_KEY),
+    models: Object.keys(OPENAI_EMBEDDING_MODELS),
+    limits: LIMITS
+  });
+}
+
+export async function POST(request: NextRequest) {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    return errorResponse(503, 'Embedding proxy is not configured: OPENAI_API_KEY is missing on the server');
+  }
+
+  const contentLength = Number(request.headers.get('content-length'));
+  if (contentLength > LIMITS.maxBodyBytes) {
+    return errorResponse(413, `Request body too large: ${contentLength} bytes (max ${LIMITS.maxBodyBytes})`);
+  }
+
+  let body: any;
+  try {
+    const text = await readBody(request, LIMITS.maxBodyBytes);
+    if (text === null) {
+      return errorResponse(413, `Request body too large (max ${LIMITS.maxBodyBytes} bytes)`);
+    }
+    body = JSON.parse(text);
+  } catch {
+    return errorResponse(400, 'Request body must be JSON');
+  }
+
+  const { model, input, dimensions } = body ?? {};
+
+  if (typeof model !== 'string' || !OPENAI_EMBEDDING_MODELS[model]) {
+    return errorResponse(400, `Unsupported model: ${model}`);
+  }
+
+  if (dimensions !== undefined && (typeof dimensions !== 'number' || !isValidOpenAIDimensions(model, dimensions))) {
+    return errorResponse(400, `${model} does not support ${dimensions} dimensions`);
+  }
+
+  if (!Array.isArray(input) || input.length === 0 || !input.every(text => typeof text === 'string')) {
+    return errorResponse(400, '`input` must be a non-empty array of strings');
+  }
+
+  if (input.length > LIMITS.maxInputsPerRequest) {
+    return errorResponse(413, `Too many inputs: ${input.length} (max ${LIMITS.maxInputsPerRequest} per request)`);
+  }
+
+  const chars = input.reduce((sum: number, text: string) => sum + text.length, 0);
+  if (chars > LIMITS.maxCharsPerRequest) {
+    return errorResponse(413, `Request too large: ${chars} characters (max ${LIMITS.maxCharsPerRequest})`);
+  }
+
+  const retryAfterMs = rateLimiter.consume(getClientId(request), chars);
+  if (retryAfterMs !== null) {
+    const response = errorResponse(429, 'Rate limit exceeded for this client');
+    response.headers.set('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+    return response;
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(OPENAI_EMBEDDINGS_URL, {
+      method: 'POST',
+      signal: request.signal,
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        input,
+        encoding_format: 'float',
+        ...(dimensions !== undefined ? { dimensions } : {})
+      }),
+    });
+  } catch (error: any) {
+    return errorResponse(502, `Failed to reach OpenAI: ${error.message}`);
+  }
+
+  const data = await upstream.json().catch(() => ({}));
+
+  // A rejected server key is a deployment problem, not something the client can fix
+  const response = upstream.status === 401 || upstream.status === 403
+    ? errorResponse(502, 'The server OPENAI_API_KEY was rejected by OpenAI')
+    : NextResponse.json(data, { status: upstream.status });
+
+  // Pass upstream rate-limit information through to the client
+  upstream.headers.forEach((value, name) => {
+    if (name.startsWith('x-ratelimit-') || name === 'retry-after') {
+      response.headers.set(name, value);
+    }
+  });
+
+  return response;
+}
+
+function errorResponse(status: number, message: string): NextResponse {
+  return NextResponse.json({ error: { message } }, { status });
+}
+
+/**
+ * Read the body as text, stopping once it exceeds maxBytes (returns null then)
+ */
+async function readBody(request: NextRequest, maxBytes: number): Promise<string | null> {
+  if (!request.body) return '';
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Client address for the per-client limits. Forwarded headers are only
+ * trusted when set by infrastructure: behind EMBEDDING_PROXY_TRUSTED_PROXIES
+ * reverse proxies (the entry they appended, counted from the right), or on
+ * Vercel, whose edge sets X-Real-IP itself. Route handlers have no socket
+ * address, so otherwise all callers share one bucket that a forged header
+ * cannot escape.
+ */
+function getClientId(request: NextRequest): string {
+  if (TRUSTED_PROXY_HOPS > 0) {
+    const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+      .split(',')
+      .map(part => part.trim())
+      .filter(Boolean);
+    const client = forwarded[forwarded.length - TRUSTED_PROXY_HOPS];
+    if (client) return client;
+  }
+  if (process.env.VERCEL) {
+    const realIp = request.headers.get('x-real-ip');
+    if (realIp) return realIp;
+  }
+  return SHARED_CLIENT_ID;
+}
+
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function readCount(name: string): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : 0;
+}
@@ -1,11 +1,22 @@
 'use client';
-import React, { useState, useCallback, useMemo } from 'react';
-import { DataPoint, GraphData, SearchResult, SearchState, ConnectionStrategy, ProcessingProgress } from '@/types';
+import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
+import { DataPoint, GraphData, SearchResult, SearchState, ConnectionStrategy, ProcessingProgress, EmbeddingJob, LongTextStrategy, ThroughputStats, EmbeddingProviderConfig, EmbeddingSessionCheckpoint, CompatibleEndpointSettings, EmbeddingDiagnosticsReport, ExportFormat, SourceFileSummary } from '@/types';
 import { DataProcessor } from '@/lib/dataProcessor';
 import { EmbeddingService } from '@/lib/embeddingService';
+import { EmbeddingWorkerClient } from '@/lib/embeddingWorkerClient';
+import { EmbeddingProviderRegistry, EMBEDDING_PROXY_URL, OPENAI_EMBEDDING_MODELS, parseExtraHeaders } from '@/lib/embeddingProviders';
+import { SessionCheckpointStore } from '@/lib/sessionCheckpoints';
+import { CostLedger } from '@/lib/costLedger';
+import { TextTemplates } from '@/lib/textTemplates';
+import { EmbeddingDiagnostics } from '@/lib/embeddingDiagnostics';
 import GraphVisualization from '@/components/visualization/GraphVisualization';
 import SearchComponent from '@/components/SearchComponent';
 import FileUpload from '@/components/FileUpload';
+import Utilities from '@/components/Utilities';
+import EndpointSettings from '@/components/EndpointSettings';
+import TemplateEditor from '@/components/TemplateEditor';
+import DiagnosticsPanel from '@/components/DiagnosticsPanel';
+import EmbeddingMatrixImport from '@/components/EmbeddingMatrixImport';
 
 export default function Home() {
   // Core data state
@@ -22,11 +33,37 @@ export default function Home() {
   });
 
   // API and processing state
+  const [providerId, setProviderId] = useState('openai');
+  const [useLocalSvd, setUseLocalSvd] = useState(false);
+  const [openaiModel, setOpenaiModel] = useState('text-embedding-3-small');
+  const [openaiDimensions, setOpenaiDimensions] = useState(OPENAI_EMBEDDING_MODELS['text-embedding-3-small'].dimensions);
+  const [endpointSettings, setEndpointSettings] = useState<CompatibleEndpointSettings>({
+    baseUrl: '',
+    authScheme: 'bearer',
+    model: '',
+    deployment: '',
+    apiVersion: '',
+    extraHeaders: ''
+  });
+  const [longTextStrategy, setLongTextStrategy] = useState<LongTextStrategy>('truncate');
+  const [textTemplate, setTextTemplate] = useState('{{text}}');
   const [apiKey, setApiKey] = useState('');
+  const [proxyConfigured, setProxyConfigured] = useState(false);
   const [loading, setLoading] = useState(false);
   const [progress, setProgress] = useState(0);
   const [status, setStatus] = useState('');
   const [error, setError] = useState('');
+  const [isPaused, setIsPaused] = useState(false);
+  const [throughput, setThroughput] = useState<ThroughputStats | null>(null);
+  const [datasetName, setDatasetName] = useState('');
+  const [sourceFiles, setSourceFiles] = useState<SourceFileSummary[]>([]);
+  // Append mode adds uploads to the current dataset instead of replacing it
+  const [appendMode, setAppendMode] = useState(false);
+  const [lastAppend, setLastAppend] = useState<{ sourceName: string; added: number; duplicates: number } | null>(null);
+  const [pendingCheckpoint, setPendingCheckpoint] = useState<EmbeddingSessionCheckpoint | null>(null);
+  const [failedJobs, setFailedJobs] = useState<EmbeddingJob[]>([]);
+  const [diagnostics, setDiagnostics] = useState<EmbeddingDiagnosticsReport | null>(null);
+  const embeddingServiceRef = useRef<EmbeddingService | EmbeddingWorkerClient | null>(null);
   
   // Processing state for large datasets
   const [processingProgress, setProcessingProgress] = useState<ProcessingProgress | null>(null);
@@ -35,13 +72,48 @@ export default function Home() {
   const [connectionStrategy, setConnectionStrategy] = useState<ConnectionStrategy>('adaptive');
   const [similarityThreshold, setSimilarityThreshold] = useState(0.7);
 
+  // Prefer the server-side proxy when the deployment provides an API key
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(EMBEDDING_PROXY_URL)
+      .then(response => response.ok ? response.json() : { configured: false })
+      .then(({ configured }) => {
+        if (cancelled) return;
+        setProxyConfigured(Boolean(configured));
+        if (configured) {
+          setProviderId(current => current === 'openai' ? 'openai-proxy' : current);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setProxyConfigured(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Offer to resume an embedding session interrupted by a reload or crash
+  const loadPendingCheckpoint = useCallback(() => {
+    if (!SessionCheckpointStore.isAvailable()) return;
+
+    SessionCheckpointStore.getLatest()
+      .then(checkpoint => setPendingCheckpoint(checkpoint))
+      .catch(err => console.warn('Failed to read session checkpoints:', err));
+  }, []);
+
+  useEffect(() => {
+    loadPendingCheckpoint();
+  }, [loadPendingCheckpoint]);
+
   // Helper function to get ID from link source/target (handles both string and object cases)
   const getLinkId = useCallback((sourceOrTarget: any): string => {
     return typeof sourceOrTarget === 'string' ? sourceOrTarget : sourceOrTarget.id;
   }, []);
 
   // Enhanced file loading with progress tracking
-  const handleFileLoad = useCallback(async (data: DataPoint[]) => {
+  const handleFileLoad = useCallback(async (data: DataPoint[], sourceName?: string, files?: SourceFileSummary[]) => {
     try {
       setError('');
       setProcessingProgress({
@@ -79,11 +151,26 @@ export default function Home() {
       });
 
       setDataPoints(processedData);
+      setDatasetName(sourceName || '');
+      setSourceFiles(files ?? []);
+      setLastAppend(null);
+      setTextTemplate(TextTemplates.getForDataset(sourceName || '') ?? TextTemplates.suggest(processedData));
+      setFailedJobs([]);
       
-      // Generate graph if embeddings exist
+      // Check imported embeddings, and only build a graph on usable ones
       if (processedData.some(d => d.embedding)) {
-        const graph = DataProcessor.generateGraph(processedData, connectionStrategy, similarityThreshold);
-        setGraphData(graph);
+        const report = EmbeddingDiagnostics.analyze(processedData);
+        setDiagnostics(report);
+
+        if (EmbeddingDiagnostics.hasBlockingIssues(report)) {
+          setGraphData({ nodes: [], links: [] });
+          setError('The imported embeddings have problems - see Embedding Health before building a graph');
+        } else {
+          const graph = DataProcessor.generateGraph(processedData, connectionStrategy, similarityThreshold);
+          setGraphData(graph);
+        }
+      } else {
+        setDiagnostics(null);
       }
 
       // Log statistics
@@ -97,34 +184,157 @@ export default function Home() {
     }
   }, [connectionStrategy, similarityThreshold]);
 
-  // Enhanced embedding generation with better progress tracking
-  const generateEmbeddings = async () => {
-    if (!apiKey) {
-      setError('Please enter OpenAI API key');
+  // Append mode: only rows with new ids are added, after the same empty-text filter as a normal load.
+  // Rows that come with embeddings join the running graph right away (or start one when there is none);
+  // the others wait for "Embed new items" below.
+  const handleAppendData = useCallback((data: DataPoint[], sourceName?: string, files?: SourceFileSummary[]) => {
+    setError('');
+    const validData = data.filter(point => point.text && point.text.length > 0);
+    const { data: merged, added, duplicates } = DataProcessor.appendDataPoints(dataPoints, validData);
+    setLastAppend({ sourceName: sourceName || 'upload', added: added.length, duplicates });
+    if (added.length === 0) return;
+
+    setDataPoints(merged);
+    setSourceFiles(current => [
+      ...current,
+      ...(files ?? [{ name: sourceName || 'upload', items: added.length, skippedLines: 0, renamedIds: 0 }])
+    ]);
+
+    if (!added.some(point => point.embedding)) return;
+
+    const report = EmbeddingDiagnostics.analyze(merged);
+    setDiagnostics(report);
+    if (EmbeddingDiagnostics.hasBlockingIssues(report)) {
+      setError(`Appended ${added.length} items, but the embeddings have problems - see Embedding Health before building a graph`);
+      return;
+    }
+
+    try {
+      setGraphData(graphData.nodes.length > 0
+        ? DataProcessor.extendGraph(graphData, added, connectionStrategy, similarityThreshold)
+        : DataProcessor.generateGraph(merged, connectionStrategy, similarityThreshold));
+    } catch (err: any) {
+      setError(`Appended ${added.length} items, but they could not be added to the graph: ${err.message}`);
+    }
+  }, [dataPoints, graphData, connectionStrategy, similarityThreshold]);
+
+  // Upload errors end the file's progress display; an empty message only clears the error
+  const handleUploadError = useCallback((message: string) => {
+    setError(message);
+    if (message) {
+      setProcessingProgress(null);
+    }
+  }, []);
+
+  // Enhanced embedding generation with better progress tracking.
+  // When `targets` is given (e.g. previously failed rows) only those are embedded and merged back by id.
+  // When `resume` is given, the checkpointed session continues with its own data and settings.
+  const generateEmbeddings = async (targets?: DataPoint[], resume?: EmbeddingSessionCheckpoint) => {
+    const sessionProviderId = resume ? resume.providerId : providerId;
+    const sessionNeedsKey = EmbeddingProviderRegistry.requiresApiKey(
+      sessionProviderId,
+      resume ? resume.providerConfig : { authScheme: endpointSettings.authScheme }
+    );
+
+    if (sessionNeedsKey && !apiKey) {
+      setError(resume ? 'Please enter your API key to resume the session' : 'Please enter an API key');
       return;
     }
 
-    if (!dataPoints.length) {
+    if (sessionNeedsKey && !EmbeddingService.validateApiKey(apiKey)) {
+      setError('The API key contains spaces or characters that cannot be sent in a request header');
+      return;
+    }
+
+    const baseData = resume ? resume.dataset : dataPoints;
+    if (!baseData.length) {
       setError('Please upload data first');
       return;
     }
 
+    const sessionTemplate = resume ? resume.textTemplate : textTemplate;
+    if (!resume && !textTemplate.trim()) {
+      setError('The embedding text template is empty');
+      return;
+    }
+
+    // Providers fitted on the corpus (local TF-IDF) only give comparable vectors when the whole dataset is embedded at once
+    const refitAll = Boolean(targets) && providerFitsCorpus;
+    const targetIds = resume?.targetIds ? new Set(resume.targetIds) : null;
+    const pointsToEmbed = targetIds
+      ? baseData.filter(point => targetIds.has(point.id))
+      : (!refitAll && targets) || baseData;
+    const isPartial = Boolean(targetIds || (targets && !refitAll));
+    if (isPartial && !resume && templateChanged) {
+      setError('The text template changed since the current embeddings were made - regenerate all embeddings so they stay comparable');
+      return;
+    }
+
     try {
       setLoading(true);
       setError('');
       
-      const service = new EmbeddingService(apiKey);
+      // Checkpoints keep no credentials, so a resumed session takes the key and extra headers from the form
+      const providerConfig: EmbeddingProviderConfig = resume
+        ? {
+            ...resume.providerConfig,
+            apiKey: apiKey.trim(),
+            ...(resume.providerId === 'openai-compatible' && { headers: parseExtraHeaders(endpointSettings.extraHeaders) })
+          }
+        : providerId === 'openai-compatible'
+          ? {
+              apiKey: apiKey.trim(),
+              baseUrl: endpointSettings.baseUrl.trim(),
+              authScheme: endpointSettings.authScheme,
+              model: endpointSettings.model.trim() || undefined,
+              deployment: endpointSettings.deployment.trim() || undefined,
+              apiVersion: endpointSettings.apiVersion.trim() || undefined,
+              dimensions: endpointSettings.dimensions,
+              headers: parseExtraHeaders(endpointSettings.extraHeaders),
+              costPer1KTokens: endpointSettings.costPer1KTokens
+            }
+          : {
+              apiKey: apiKey.trim(),
+              model: providerId === 'local' ? undefined : openaiModel,
+              dimensions: providerId === 'local' ? undefined : openaiDimensions,
+              reducedDimensions: providerId === 'local' && useLocalSvd ? 128 : 0
+            };
+      // Rows embedded in a partial run join the current vectors, so they must come from the same model and size
+      if (isPartial) {
+        const provider = EmbeddingProviderRegistry.create(sessionProviderId, providerConfig);
+        DataProcessor.assertCanExtendEmbeddings(baseData, {
+          provider: provider.id,
+          model: provider.model,
+          dimensions: provider.dimensions
+        });
+      }
+      const serviceOptions = {
+        longTextStrategy: resume ? resume.longTextStrategy : longTextStrategy,
+        budget: CostLedger.getBudget(),
+        textTemplate: sessionTemplate
+      };
+      // Embed in a worker so the graph stays interactive; fall back to the main thread without worker support
+      const service = EmbeddingWorkerClient.isSupported()
+        ? new EmbeddingWorkerClient(sessionProviderId, providerConfig, serviceOptions)
+        : new EmbeddingService(
+            EmbeddingProviderRegistry.create(sessionProviderId, providerConfig),
+            { ...serviceOptions, providerConfig }
+          );
+      embeddingServiceRef.current = service;
+      setPendingCheckpoint(null);
       
-      // Estimate cost for large datasets
-      const costEstimate = await service.estimateCost(
-        dataPoints.length,
-        dataPoints.slice(0, 10).map(d => d.text)
-      );
+      // Estimate cost for large datasets (a resumed session was already confirmed)
+      const costEstimate = resume
+        ? { cost: resume.estimatedCost }
+        : await service.estimateCost(
+            pointsToEmbed.length,
+            pointsToEmbed.map(d => DataProcessor.combineTextForEmbedding(d, sessionTemplate))
+          );
 
       // Warn user about cost for large datasets
-      if (dataPoints.length > 1000) {
+      if (!resume && pointsToEmbed.length > 1000 && costEstimate.cost > 0) {
         const confirmed = window.confirm(
-          `You're about to generate embeddings for ${dataPoints.length} items.\n` +
+          `You're about to generate embeddings for ${pointsToEmbed.length} items.\n` +
           `Estimated cost: $${costEstimate.cost.toFixed(4)}\n` +
           `This may take several minutes. Continue?`
         );
@@ -135,28 +345,147 @@ export default function Home() {
         }
       }
 
-      const updatedData = await service.processDataPointsWithEmbeddings(
-        dataPoints,
+      const embeddedPoints = await service.processDataPointsWithEmbeddings(
+        pointsToEmbed,
         (prog: ProcessingProgress) => {
           setProgress(prog.progress);
           setStatus(prog.message);
-        }
+          if (prog.throughput) setThroughput(prog.throughput);
+        },
+        { resume, dataset: isPartial ? baseData : undefined, datasetName: resume ? resume.datasetName : datasetName }
       );
 
+      let updatedData = embeddedPoints;
+      if (isPartial) {
+        const embeddedById = new Map(embeddedPoints.map(point => [point.id, point]));
+        updatedData = baseData.map(point => embeddedById.get(point.id) || point);
+      }
+
       setDataPoints(updatedData);
+      setFailedJobs(service.getLastJobs().filter(job => job.status === 'error'));
+      setDiagnostics(EmbeddingDiagnostics.analyze(updatedData));
       
-      // Generate graph
-      const graph = DataProcessor.generateGraph(updatedData, connectionStrategy, similarityThreshold);
+      // Generate graph; newly embedded rows (appended or retried) are added to the current graph
+      const graph = isPartial && !resume && graphData.nodes.length > 0
+        ? DataProcessor.extendGraph(graphData, embeddedPoints, connectionStrategy, similarityThreshold)
+        : DataProcessor.generateGraph(updatedData, connectionStrategy, similarityThreshold);
       setGraphData(graph);
       
-      setStatus('Graph generated successfully!');
+      const embeddedCount = updatedData.filter(d => d.embedding).length;
+      if (service.getSessionSpend()?.capReached) {
+        setStatus(`Stopped at the budget cap - graph built from ${embeddedCount} of ${updatedData.length} items. Raise the budget in Utilities to resume.`);
+        loadPendingCheckpoint();
+      } else {
+        setStatus(embeddedCount < updatedData.length
+          ? `Graph generated from ${embeddedCount} of ${updatedData.length} items`
+          : 'Graph generated successfully!');
+      }
     } catch (err: any) {
       setError(err.message);
+      loadPendingCheckpoint();
     } finally {
+      if (embeddingServiceRef.current instanceof EmbeddingWorkerClient) {
+        embeddingServiceRef.current.dispose();
+      }
+      embeddingServiceRef.current = null;
+      setIsPaused(false);
+      setThroughput(null);
       setLoading(false);
     }
   };
 
+  // Restore the settings and data of a checkpointed session, then continue it
+  const resumeCheckpoint = async (checkpoint: EmbeddingSessionCheckpoint) => {
+    setProviderId(checkpoint.providerId);
+    setLongTextStrategy(checkpoint.longTextStrategy);
+    if (checkpoint.providerId === 'local') {
+      setUseLocalSvd(Boolean(checkpoint.providerConfig.reducedDimensions));
+    } else if (checkpoint.providerId === 'openai-compatible') {
+      const config = checkpoint.providerConfig;
+      setEndpointSettings(current => ({
+        baseUrl: config.baseUrl || '',
+        authScheme: config.authScheme || 'bearer',
+        model: config.model || '',
+        deployment: config.deployment || '',
+        apiVersion: config.apiVersion || '',
+        dimensions: config.dimensions,
+        extraHeaders: current.extraHeaders, // not checkpointed
+        costPer1KTokens: config.costPer1KTokens
+      }));
+    } else if (checkpoint.providerConfig.model) {
+      setOpenaiModel(checkpoint.providerConfig.model);
+      setOpenaiDimensions(checkpoint.providerConfig.dimensions || OPENAI_EMBEDDING_MODELS[checkpoint.providerConfig.model]?.dimensions);
+    }
+    setDataPoints(checkpoint.dataset);
+    setDatasetName(checkpoint.datasetName || '');
+    setSourceFiles([]);
+    setLastAppend(null);
+    setTextTemplate(checkpoint.textTemplate || TextTemplates.suggest(checkpoint.dataset));
+    setFailedJobs([]);
+
+    await generateEmbeddings(undefined, checkpoint);
+  };
+
+  const discardCheckpoint = async (checkpoint: EmbeddingSessionCheckpoint) => {
+    setPendingCheckpoint(null);
+    try {
+      await SessionCheckpointStore.delete(checkpoint.id);
+    } catch (err) {
+      console.warn('Failed to discard session checkpoint:', err);
+    }
+  };
+
+  // Embedding session controls
+  const togglePauseEmbeddings = useCallback(() => {
+    const service = embeddingServiceRef.current;
+    if (!service) return;
+
+    if (service.isPaused()) {
+      service.resumeSession();
+      setIsPaused(false);
+    } else {
+      service.pauseSession();
+      setIsPaused(true);
+      setStatus('Paused - in-flight requests will finish, no new batches will start');
+    }
+  }, []);
+
+  const runDiagnostics = useCallback(() => {
+    setDiagnostics(EmbeddingDiagnostics.analyze(dataPoints));
+  }, [dataPoints]);
+
+  // Remove NaN, zero and wrong-size vectors so the rest of the dataset can be graphed
+  const dropUnusableEmbeddings = useCallback(() => {
+    if (!diagnostics) return;
+
+    const unusable = new Set([...diagnostics.invalidIds, ...diagnostics.zeroIds, ...diagnostics.dimensionMismatchIds]);
+    const cleaned = dataPoints.map(point =>
+      unusable.has(point.id) ? { ...point, embedding: undefined, embeddingInfo: undefined } : point
+    );
+
+    try {
+      setDataPoints(cleaned);
+      setDiagnostics(EmbeddingDiagnostics.analyze(cleaned));
+      setGraphData(DataProcessor.generateGraph(cleaned, connectionStrategy, similarityThreshold));
+      setError('');
+      setStatus(`Dropped ${unusable.size} unusable embeddings - they can be regenerated`);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, [diagnostics, dataPoints, connectionStrategy, similarityThreshold]);
+
+  // Templates are remembered per dataset
+  const updateTextTemplate = useCallback((template: string) => {
+    setTextTemplate(template);
+    TextTemplates.saveForDataset(datasetName, template);
+  }, [datasetName]);
+
+  const cancelEmbeddings = useCallback(() => {
+    embeddingServiceRef.current?.cancelSession();
+    setIsPaused(false);
+    setStatus('Cancelling - keeping embeddings generated so far...');
+  }, []);
+
   // Search functionality
   const handleSearchResults = useCallback((results: SearchResult[]) => {
     setSearchState(prev => ({
@@ -213,7 +542,7 @@ export default function Home() {
   }, []);
 
   // Enhanced data export
-  const downloadData = useCallback((format: 'json' | 'csv' = 'json', includeEmbeddings = true) => {
+  const downloadData = useCallback((format: ExportFormat = 'json', includeEmbeddings = true) => {
     try {
       const filteredData = includeEmbeddings 
         ? dataPoints.filter(d => d.embedding)
@@ -226,7 +555,7 @@ export default function Home() {
 
       const content = DataProcessor.exportData(filteredData, format, includeEmbeddings);
       const blob = new Blob([content], {
-        type: format === 'json' ? 'application/json' : 'text/csv'
+        type: DataProcessor.getExportMimeType(format)
       });
       
       const url = URL.createObjectURL(blob);
@@ -267,8 +596,23 @@ export default function Home() {
   }, [selectedNode, graphData.links, graphData.nodes, getLinkId]);
 
   // Computed values
+  const requiresApiKey = useMemo(
+    () => EmbeddingProviderRegistry.requiresApiKey(providerId, { authScheme: endpointSettings.authScheme }),
+    [providerId, endpointSettings.authScheme]
+  );
+  const providerFitsCorpus = useMemo(() => EmbeddingProviderRegistry.fitsCorpus(providerId), [providerId]);
   const hasEmbeddings = useMemo(() => dataPoints.some(d => d.embedding), [dataPoints]);
+  // Embeddings made with another template than the current one; newly embedded rows would not match them
+  const templateChanged = useMemo(() => {
+    const currentHash = TextTemplates.hash(textTemplate);
+    return dataPoints.some(d => d.embedding && d.embeddingInfo?.templateHash !== undefined && d.embeddingInfo.templateHash !== currentHash);
+  }, [dataPoints, textTemplate]);
+  const unembeddedPoints = useMemo(
+    () => hasEmbeddings ? dataPoints.filter(d => !d.embedding) : [],
+    [dataPoints, hasEmbeddings]
+  );
   const stats = useMemo(() => DataProcessor.getDataStats(dataPoints), [dataPoints]);
+  const embeddingModels = useMemo(() => DataProcessor.summarizeEmbeddingModels(dataPoints), [dataPoints]);
   const connectedNodes = useMemo(() => getConnectedNodes(), [getConnectedNodes]);
 
   return (
@@ -366,7 +710,9 @@ export default function Home() {
               {processingProgress.message}
             </p>
             <span className="text-blue-200 text-xs">
-              {processingProgress.current}/{processingProgress.total}
+              {processingProgress.unit === 'bytes'
+                ? `${(processingProgress.current / 1024 / 1024).toFixed(1)}/${(processingProgress.total / 1024 / 1024).toFixed(1)} MB`
+                : `${processingProgress.current}/${processingProgress.total}`}
             </span>
           </div>
           <div className="bg-blue-800 rounded-full h-2">
@@ -398,13 +744,63 @@ export default function Home() {
         <div className="w-80 bg-gray-800 border-r border-gray-700 p-4 overflow-y-auto">
           <div className="space-y-6">
             
+            {/* Resume interrupted session */}
+            {pendingCheckpoint && !loading && (
+              <div className="bg-blue-900/40 border border-blue-700 p-3 rounded text-sm">
+                <div className="text-blue-200 font-medium mb-1">Unfinished embedding session</div>
+                <div className="text-gray-300 text-xs mb-2">
+                  {pendingCheckpoint.completedItems} of {pendingCheckpoint.totalItems} items embedded
+                  {' '}with {EmbeddingProviderRegistry.list().find(p => p.id === pendingCheckpoint.providerId)?.name || pendingCheckpoint.providerId}
+                  {pendingCheckpoint.providerConfig.model ? ` (${pendingCheckpoint.providerConfig.model})` : ''}
+                  {' '}· last saved {new Date(pendingCheckpoint.updatedAt).toLocaleString()}
+                  {' '}· estimated cost ${pendingCheckpoint.estimatedCost.toFixed(4)}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => resumeCheckpoint(pendingCheckpoint)}
+                    className="p-2 bg-blue-600 hover:bg-blue-700 rounded transition-colors text-sm font-medium"
+                  >
+                    Resume Session
+                  </button>
+                  <button
+                    onClick={() => discardCheckpoint(pendingCheckpoint)}
+                    className="p-2 bg-gray-600 hover:bg-gray-500 rounded transition-colors text-sm font-medium"
+                  >
+                    Discard
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* File Upload */}
             <div>
               <h3 className="text-lg font-semibold mb-3 text-white flex items-center gap-2">
                 <span className="bg-blue-600 text-white text-xs rounded-full w-5 h-5 flex items-center justify-center">1</span>
                 Upload Data
               </h3>
-              <FileUpload onFileLoad={handleFileLoad} onError={setError} />
+              {dataPoints.length > 0 && (
+                <label className="flex items-center gap-2 text-sm mb-3">
+                  <input
+                    type="checkbox"
+                    checked={appendMode}
+                    onChange={(e) => setAppendMode(e.target.checked)}
+                    disabled={loading}
+                    className="w-4 h-4"
+                  />
+                  <span className="text-gray-300">Append to current dataset</span>
+                </label>
+              )}
+              <FileUpload
+                onFileLoad={appendMode && dataPoints.length > 0 ? handleAppendData : handleFileLoad}
+                onError={handleUploadError}
+                onProgress={setProcessingProgress}
+              />
+              {lastAppend && (
+                <div className="mt-2 text-xs text-gray-400">
+                  Appended <span className="text-white">{lastAppend.added}</span> new items from {lastAppend.sourceName}
+                  {lastAppend.duplicates > 0 && <span className="text-yellow-400"> · {lastAppend.duplicates} already in the dataset skipped</span>}
+                </div>
+              )}
               <div className="mt-3 text-sm text-gray-400 bg-gray-700 p-3 rounded">
                 <div>Loaded: <span className="text-white font-medium">{stats.totalItems}</span> items</div>
                 <div>Categories: <span className="text-white font-medium">{stats.categories.length}</span></div>
@@ -413,25 +809,170 @@ export default function Home() {
                     {stats.withEmbeddings} with embeddings
                   </div>
                 )}
+                {embeddingModels.map(group => (
+                  <div
+                    key={`${group.label}:${group.dimensions}`}
+                    className={`text-xs ${embeddingModels.length > 1 ? 'text-yellow-400' : 'text-gray-400'}`}
+                  >
+                    {group.label} · {group.dimensions}d · {group.count} items
+                  </div>
+                ))}
+                {embeddingModels.length > 1 && (
+                  <div className="text-xs text-yellow-400 mt-1">
+                    Mixed embedding models - regenerate to build a graph
+                  </div>
+                )}
+                {sourceFiles.length > 0 && (
+                  <details className="mt-2 text-xs">
+                    <summary className="cursor-pointer hover:text-white">
+                      {sourceFiles.length} source files
+                      {sourceFiles.some(file => file.error) && (
+                        <span className="text-yellow-400"> · {sourceFiles.filter(file => file.error).length} failed</span>
+                      )}
+                    </summary>
+                    <div className="mt-1 space-y-0.5 max-h-40 overflow-y-auto">
+                      {sourceFiles.map(file => (
+                        <div key={file.name} className="flex justify-between gap-2">
+                          <span className="truncate" title={file.name}>{file.name}</span>
+                          {file.error ? (
+                            <span className="text-yellow-400 shrink-0" title={file.error}>failed</span>
+                          ) : (
+                            <span className="text-white shrink-0">
+                              {file.items}
+                              {file.skippedLines > 0 && <span className="text-yellow-400"> · {file.skippedLines} skipped</span>}
+                              {file.renamedIds > 0 && <span className="text-gray-400"> · {file.renamedIds} ids prefixed</span>}
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </details>
+                )}
               </div>
+              {dataPoints.length > 0 && (
+                <div className="mt-3">
+                  <EmbeddingMatrixImport
+                    dataPoints={dataPoints}
+                    onAttach={(data) => handleFileLoad(data, datasetName, sourceFiles)}
+                    onError={setError}
+                    disabled={loading}
+                  />
+                </div>
+              )}
+              {hasEmbeddings && (
+                <div className="mt-3">
+                  <DiagnosticsPanel
+                    report={diagnostics}
+                    onRun={runDiagnostics}
+                    onDropUnusable={dropUnusableEmbeddings}
+                    disabled={loading}
+                  />
+                </div>
+              )}
             </div>
 
-            {/* API Key */}
+            {/* Embedding Provider */}
             <div>
               <h3 className="text-lg font-semibold mb-3 text-white flex items-center gap-2">
                 <span className="bg-blue-600 text-white text-xs rounded-full w-5 h-5 flex items-center justify-center">2</span>
-                OpenAI API Key
+                Embedding Provider
               </h3>
-              <input
-                type="password"
-                placeholder="sk-..."
-                value={apiKey}
-                onChange={(e) => setApiKey(e.target.value)}
-                className="w-full p-3 bg-gray-700 text-white rounded border border-gray-600 placeholder-gray-400"
-              />
-              <p className="text-xs text-gray-400 mt-2">
-                Required for generating embeddings
-              </p>
+              <select
+                value={providerId}
+                onChange={(e) => setProviderId(e.target.value)}
+                className="w-full p-2 mb-3 bg-gray-700 text-white rounded border border-gray-600 text-sm"
+              >
+                {EmbeddingProviderRegistry.list().map(provider => (
+                  <option key={provider.id} value={provider.id}>{provider.name}</option>
+                ))}
+              </select>
+              {requiresApiKey && (
+                <>
+                  <input
+                    type="password"
+                    placeholder={providerId === 'openai' ? 'sk-...' : 'API key'}
+                    value={apiKey}
+                    onChange={(e) => setApiKey(e.target.value)}
+                    className="w-full p-3 bg-gray-700 text-white rounded border border-gray-600 placeholder-gray-400"
+                  />
+                  <p className="text-xs text-gray-400 mt-2">
+                    Required for generating embeddings
+                  </p>
+                </>
+              )}
+              {providerId === 'openai-proxy' && (
+                <p className="text-xs text-gray-400">
+                  {proxyConfigured
+                    ? 'Requests go through this server - the API key never reaches the browser'
+                    : 'The server has no OPENAI_API_KEY configured'}
+                </p>
+              )}
+              {providerId === 'openai-compatible' && (
+                <div className="mt-3">
+                  <EndpointSettings settings={endpointSettings} onChange={setEndpointSettings} disabled={loading} />
+                </div>
+              )}
+              {providerId === 'local' ? (
+                <>
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={useLocalSvd}
+                      onChange={(e) => setUseLocalSvd(e.target.checked)}
+                      className="w-4 h-4"
+                    />
+                    <span className="text-gray-300">Reduce to 128 dimensions (SVD)</span>
+                  </label>
+                  <p className="text-xs text-gray-400 mt-2">
+                    Runs offline in the browser - no API key needed, same input gives the same graph
+                  </p>
+                </>
+              ) : (
+                <>
+                  {providerId !== 'openai-compatible' && (
+                    <div className="grid grid-cols-2 gap-2 mt-3">
+                      <div>
+                        <label className="block text-sm text-gray-300 mb-1">Model</label>
+                        <select
+                          value={openaiModel}
+                          onChange={(e) => {
+                            setOpenaiModel(e.target.value);
+                            setOpenaiDimensions(OPENAI_EMBEDDING_MODELS[e.target.value].dimensions);
+                          }}
+                          className="w-full p-2 bg-gray-700 text-white rounded border border-gray-600 text-sm"
+                        >
+                          {Object.keys(OPENAI_EMBEDDING_MODELS).map(model => (
+                            <option key={model} value={model}>{model}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-sm text-gray-300 mb-1">Dimensions</label>
+                        <select
+                          value={openaiDimensions}
+                          onChange={(e) => setOpenaiDimensions(parseInt(e.target.value))}
+                          disabled={!OPENAI_EMBEDDING_MODELS[openaiModel].dimensionOptions}
+                          className="w-full p-2 bg-gray-700 text-white rounded border border-gray-600 text-sm disabled:opacity-60"
+                        >
+                          {(OPENAI_EMBEDDING_MODELS[openaiModel].dimensionOptions || [OPENAI_EMBEDDING_MODELS[openaiModel].dimensions]).map(size => (
+                            <option key={size} value={size}>{size}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                  )}
+                  <label className="block text-sm text-gray-300 mt-3 mb-1">Long texts</label>
+                  <select
+                    value={longTextStrategy}
+                    onChange={(e) => setLongTextStrategy(e.target.value as LongTextStrategy)}
+                    className="w-full p-2 bg-gray-700 text-white rounded border border-gray-600 text-sm"
+                  >
+                    <option value="truncate">Truncate to token limit</option>
+                    <option value="mean">Split &amp; mean-pool</option>
+                    <option value="max">Split &amp; max-pool</option>
+                  </select>
+                </>
+              )}
             </div>
 
             {/* Generate Embeddings */}
@@ -442,16 +983,40 @@ export default function Home() {
               </h3>
               
               <div className="space-y-3">
+                {dataPoints.length > 0 && (
+                  <TemplateEditor
+                    template={textTemplate}
+                    onChange={updateTextTemplate}
+                    dataPoints={dataPoints}
+                    disabled={loading}
+                  />
+                )}
+                {templateChanged && (
+                  <p className="text-xs text-yellow-400">
+                    The current embeddings were made with a different template - regenerate all embeddings before embedding new or failed items
+                  </p>
+                )}
                 <button
-                  onClick={generateEmbeddings}
-                  disabled={loading || !dataPoints.length || !apiKey}
+                  onClick={() => generateEmbeddings()}
+                  disabled={loading || !dataPoints.length || (requiresApiKey && !apiKey)}
                   className="w-full p-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded transition-colors font-medium"
                 >
                   {loading ? 'Generating...' : hasEmbeddings ? 'Regenerate Embeddings' : 'Generate Embeddings'}
                 </button>
+
+                {!loading && unembeddedPoints.length > 0 && failedJobs.length === 0 && (
+                  <button
+                    onClick={() => generateEmbeddings(unembeddedPoints)}
+                    disabled={requiresApiKey && !apiKey}
+                    className="w-full p-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded transition-colors text-sm font-medium"
+                  >
+                    Embed {unembeddedPoints.length} new item{unembeddedPoints.length !== 1 ? 's' : ''}{' '}
+                    {providerFitsCorpus ? '(re-embeds all items)' : 'only'}
+                  </button>
+                )}
                 
                 {hasEmbeddings && (
-                  <div className="grid grid-cols-2 gap-2">
+                  <div className="grid grid-cols-3 gap-2">
                     <button
                       onClick={() => downloadData('json')}
                       className="p-2 bg-green-600 hover:bg-green-700 rounded transition-colors text-sm font-medium"
@@ -464,6 +1029,12 @@ export default function Home() {
                     >
                       CSV
                     </button>
+                    <button
+                      onClick={() => downloadData('jsonl')}
+                      className="p-2 bg-green-600 hover:bg-green-700 rounded transition-colors text-sm font-medium"
+                    >
+                      JSONL
+                    </button>
                   </div>
                 )}
               </div>
@@ -477,6 +1048,55 @@ export default function Home() {
                     />
                   </div>
                   <p className="text-sm text-gray-400 mt-2">{status}</p>
+                  {throughput && (
+                    <div className="text-xs text-gray-500 mt-1">
+                      {throughput.itemsPerSecond} items/s · {throughput.requestsPerMinute} req/min · {throughput.tokensPerMinute.toLocaleString()} tokens/min · {throughput.concurrency} parallel
+                      {throughput.throttled && <span className="text-yellow-400"> · waiting for rate limit</span>}
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 gap-2 mt-3">
+                    <button
+                      onClick={togglePauseEmbeddings}
+                      className="p-2 bg-yellow-600 hover:bg-yellow-700 rounded transition-colors text-sm font-medium"
+                    >
+                      {isPaused ? 'Resume' : 'Pause'}
+                    </button>
+                    <button
+                      onClick={cancelEmbeddings}
+                      className="p-2 bg-red-600 hover:bg-red-700 rounded transition-colors text-sm font-medium"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* Failed Items */}
+              {!loading && failedJobs.length > 0 && (
+                <div className="mt-4 bg-red-900/40 border border-red-700 p-3 rounded text-sm">
+                  <div className="text-red-200 font-medium mb-2">
+                    {failedJobs.length} item{failedJobs.length !== 1 ? 's' : ''} failed to embed
+                  </div>
+                  <div className="space-y-1 max-h-32 overflow-y-auto text-xs text-red-300">
+                    {failedJobs.slice(0, 20).map(job => (
+                      <div key={job.id} className="truncate" title={job.error}>
+                        <span className="text-red-100">{job.id}</span>: {job.error}
+                      </div>
+                    ))}
+                    {failedJobs.length > 20 && (
+                      <div className="text-red-400">... and {failedJobs.length - 20} more</div>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => {
+                      const failedIds = new Set(failedJobs.map(job => job.id));
+                      generateEmbeddings(dataPoints.filter(point => failedIds.has(point.id)));
+                    }}
+                    disabled={requiresApiKey && !apiKey}
+                    className="w-full mt-3 p-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded transition-colors text-sm font-medium"
+                  >
+                    {providerFitsCorpus ? 'Retry (re-embeds all items)' : 'Retry Failed Only'}
+                  </button>
                 </div>
               )}
 
@@ -492,6 +1112,9 @@ export default function Home() {
                 </div>
               )}
             </div>
+
+            {/* Dataset Utilities */}
+            <Utilities dataPoints={dataPoints} graphData={graphData} onError={setError} />
           </div>
         </div>
 
@@ -513,7 +1136,7 @@ export default function Home() {
                 <div className="space-y-2">
                   <p className="text-xl">Ready to visualize your data</p>
                   <p className="text-sm max-w-md">
-                    Upload a CSV or JSON file, add your OpenAI API key, generate embeddings, 
+                    Upload a CSV or JSON file, pick an embedding provider, generate embeddings, 
                     and explore the connections between your data points.
                   </p>
                 </div>
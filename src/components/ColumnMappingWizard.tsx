@@ -0,0 +1,194 @@
+'use client';
+import React, { useMemo, useState } from 'react';
+import { ColumnMapping, DetectedColumn } from '@/types';
+import { ColumnMappings } from '@/lib/columnMapping';
+import { DataProcessor } from '@/lib/dataProcessor';
+
+interface ColumnMappingWizardProps {
+  fileName: string;
+  columns: DetectedColumn[];
+  sampleRows: Record<string, any>[];
+  initialMapping: ColumnMapping;
+  remembered: boolean; // initialMapping was saved for these columns earlier
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+type ColumnRole = 'ignore' | 'id' | 'text' | 'category' | 'embedding' | 'metadata';
+
+const ROLE_LABELS: Record<ColumnRole, string> = {
+  ignore: 'Ignore',
+  id: 'ID',
+  text: 'Text',
+  category: 'Category',
+  embedding: 'Embedding',
+  metadata: 'Metadata'
+};
+
+const SEPARATORS: { label: string; value: string }[] = [
+  { label: 'New line', value: '\n' },
+  { label: 'Space', value: ' ' },
+  { label: 'Period', value: '. ' },
+  { label: 'Pipe', value: ' | ' }
+];
+
+const PREVIEW_ROWS = 2;
+const SAMPLE_CHARS = 60;
+
+function getRole(mapping: ColumnMapping, column: string): ColumnRole {
+  if (mapping.id === column) return 'id';
+  if (mapping.text.includes(column)) return 'text';
+  if (mapping.category === column) return 'category';
+  if (mapping.embedding === column) return 'embedding';
+  if (mapping.metadata.includes(column)) return 'metadata';
+  return 'ignore';
+}
+
+// Assign a role to a column; a single-column role taken from another column leaves that one ignored
+function setRole(mapping: ColumnMapping, column: string, role: ColumnRole): ColumnMapping {
+  const next: ColumnMapping = {
+    ...mapping,
+    id: mapping.id === column ? undefined : mapping.id,
+    text: mapping.text.filter(name => name !== column),
+    category: mapping.category === column ? undefined : mapping.category,
+    embedding: mapping.embedding === column ? undefined : mapping.embedding,
+    metadata: mapping.metadata.filter(name => name !== column)
+  };
+
+  switch (role) {
+    case 'id':
+    case 'category':
+    case 'embedding':
+      next[role] = column;
+      break;
+    case 'text':
+      next.text = [...next.text, column];
+      break;
+    case 'metadata':
+      next.metadata = [...next.metadata, column];
+      break;
+  }
+  return next;
+}
+
+export default function ColumnMappingWizard({
+  fileName,
+  columns,
+  sampleRows,
+  initialMapping,
+  remembered,
+  onConfirm,
+  onCancel
+}: ColumnMappingWizardProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+
+  const errors = ColumnMappings.validate(mapping);
+  const previews = useMemo(
+    () => sampleRows.slice(0, PREVIEW_ROWS).map((row, index) => DataProcessor.applyColumnMapping(row, index, mapping)),
+    [sampleRows, mapping]
+  );
+
+  return (
+    <div className="border border-gray-600 rounded-lg p-3 space-y-3 text-sm">
+      <div>
+        <div className="text-white font-medium">Map columns</div>
+        <div className="text-xs text-gray-400 break-all">{fileName}</div>
+        {remembered && (
+          <div className="text-xs text-green-400 mt-1">Using the saved mapping for these columns</div>
+        )}
+      </div>
+
+      <div className="space-y-2 max-h-72 overflow-y-auto pr-1">
+        {columns.map(column => {
+          const role = getRole(mapping, column.name);
+          const textPosition = mapping.text.indexOf(column.name);
+          return (
+            <div key={column.name} className="bg-gray-700/50 p-2 rounded">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <span className="text-white font-mono text-xs break-all">{column.name}</span>
+                  <span className="text-gray-500 text-xs ml-2">
+                    {column.kind} · {Math.round(column.filledRatio * 100)}% filled
+                  </span>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {role === 'text' && mapping.text.length > 1 && (
+                    <span className="text-xs text-blue-300">#{textPosition + 1}</span>
+                  )}
+                  <select
+                    value={role}
+                    onChange={(e) => setMapping(setRole(mapping, column.name, e.target.value as ColumnRole))}
+                    className="p-1 bg-gray-700 text-white rounded border border-gray-600 text-xs"
+                  >
+                    {(Object.keys(ROLE_LABELS) as ColumnRole[]).map(option => (
+                      <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              {column.samples.length > 0 && (
+                <div className="text-xs text-gray-400 mt-1 truncate">
+                  {column.samples
+                    .map(sample => sample.length > SAMPLE_CHARS ? `${sample.slice(0, SAMPLE_CHARS)}…` : sample)
+                    .join(' · ')}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {mapping.text.length > 1 && (
+        <div className="flex items-center justify-between">
+          <label className="text-xs text-gray-300">Join text columns with</label>
+          <select
+            value={mapping.textSeparator}
+            onChange={(e) => setMapping({ ...mapping, textSeparator: e.target.value })}
+            className="p-1 bg-gray-700 text-white rounded border border-gray-600 text-xs"
+          >
+            {SEPARATORS.map(separator => (
+              <option key={separator.label} value={separator.value}>{separator.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {previews.length > 0 && errors.length === 0 && (
+        <div className="space-y-1">
+          <div className="text-xs text-gray-400">Preview</div>
+          {previews.map((point, index) => (
+            <div key={index} className="bg-gray-700/50 p-2 rounded text-xs">
+              <div className="text-gray-500 mb-1">
+                {point.id}{point.category ? ` · ${point.category}` : ''}
+                {point.embedding ? ` · ${point.embedding.length}d` : ''}
+              </div>
+              <div className="text-gray-200 whitespace-pre-wrap break-words line-clamp-4">
+                {point.text || <span className="text-red-400">Empty text - this row would be skipped</span>}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {errors.map(error => (
+        <div key={error} className="text-xs text-yellow-400">{error}</div>
+      ))}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onConfirm(mapping)}
+          disabled={errors.length > 0}
+          className="flex-1 p-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 rounded transition-colors text-sm"
+        >
+          Import
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-3 p-2 bg-gray-600 hover:bg-gray-500 rounded transition-colors text-sm"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+import React from 'react';
+import { EmbeddingDiagnosticsReport, DiagnosticSeverity } from '@/types';
+
+interface DiagnosticsPanelProps {
+  report: EmbeddingDiagnosticsReport | null;
+  onRun: () => void;
+  onDropUnusable?: () => void; // shown when some vectors cannot be used at all
+  disabled?: boolean;
+}
+
+const SEVERITY_STYLES: Record<DiagnosticSeverity | 'ok', string> = {
+  error: 'text-red-400',
+  warning: 'text-yellow-400',
+  info: 'text-blue-300',
+  ok: 'text-green-400'
+};
+
+const STATUS_LABELS: Record<DiagnosticSeverity | 'ok', string> = {
+  error: 'Problems found',
+  warning: 'Warnings',
+  info: 'Healthy (notes)',
+  ok: 'Healthy'
+};
+
+export default function DiagnosticsPanel({ report, onRun, onDropUnusable, disabled = false }: DiagnosticsPanelProps) {
+  const unusableCount = report
+    ? report.invalidIds.length + report.zeroIds.length + report.dimensionMismatchIds.length
+    : 0;
+
+  return (
+    <div className="bg-gray-700/50 p-3 rounded text-sm space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-gray-300 font-medium">Embedding Health</span>
+        <button
+          onClick={onRun}
+          disabled={disabled}
+          className="text-xs text-blue-400 hover:text-blue-300 disabled:text-gray-500 transition-colors"
+        >
+          {report ? 'Re-run' : 'Run diagnostics'}
+        </button>
+      </div>
+
+      {report && (
+        <>
+          <div className={`text-xs ${SEVERITY_STYLES[report.status]}`}>
+            {STATUS_LABELS[report.status]}
+          </div>
+          <div className="text-xs text-gray-400 space-y-0.5">
+            <div>
+              {report.withEmbeddings} of {report.totalPoints} with embeddings · {report.dimensions}d
+            </div>
+            <div>
+              Mean pairwise cosine: <span className="text-white">{report.meanPairwiseCosine.toFixed(3)}</span>
+              {' '}· checked in {report.durationMs}ms
+            </div>
+          </div>
+
+          {report.issues.length > 0 && (
+            <div className="space-y-1">
+              {report.issues.map(issue => (
+                <details key={issue.type} className="text-xs">
+                  <summary className={`cursor-pointer ${SEVERITY_STYLES[issue.severity]}`}>
+                    {issue.message}
+                  </summary>
+                  {issue.pointIds.length > 0 && (
+                    <div className="mt-1 ml-3 text-gray-400 break-all max-h-24 overflow-y-auto">
+                      {issue.pointIds.join(', ')}
+                    </div>
+                  )}
+                </details>
+              ))}
+            </div>
+          )}
+
+          {unusableCount > 0 && onDropUnusable && (
+            <button
+              onClick={onDropUnusable}
+              disabled={disabled}
+              className="w-full p-2 bg-red-700 hover:bg-red-600 disabled:bg-gray-600 rounded transition-colors text-xs"
+            >
+              Drop {unusableCount} unusable vectors and build graph
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
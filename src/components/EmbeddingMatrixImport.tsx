@@ -0,0 +1,140 @@
+'use client';
+import React, { useRef, useState } from 'react';
+import { DataPoint, EmbeddingMatrixJoin, NpyArray } from '@/types';
+import { NumpyArrays } from '@/lib/numpyArrays';
+
+interface EmbeddingMatrixImportProps {
+  dataPoints: DataPoint[];
+  onAttach: (data: DataPoint[]) => void;
+  onError: (error: string) => void;
+  disabled?: boolean;
+}
+
+export default function EmbeddingMatrixImport({
+  dataPoints,
+  onAttach,
+  onError,
+  disabled = false
+}: EmbeddingMatrixImportProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [matrixFile, setMatrixFile] = useState<{ name: string; matrix: NpyArray; ids: string[] | null } | null>(null);
+  const [join, setJoin] = useState<EmbeddingMatrixJoin>('order');
+  const [isReading, setIsReading] = useState(false);
+  const [result, setResult] = useState('');
+
+  const readFile = async (file: File) => {
+    setIsReading(true);
+    setResult('');
+    onError('');
+    try {
+      const arrays = await NumpyArrays.readFile(file);
+      const matrix = NumpyArrays.findEmbeddings(arrays);
+      const ids = NumpyArrays.findIds(arrays);
+      setMatrixFile({ name: file.name, matrix, ids });
+      setJoin(ids ? 'id' : 'order');
+    } catch (error: any) {
+      setMatrixFile(null);
+      onError(error.message || 'Failed to read embedding matrix');
+    } finally {
+      setIsReading(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const attach = () => {
+    if (!matrixFile) return;
+
+    try {
+      const { data, matched, unmatchedIds } = NumpyArrays.joinEmbeddings(dataPoints, matrixFile.matrix, join, matrixFile.ids, matrixFile.name);
+      setResult(
+        unmatchedIds.length > 0
+          ? `Attached ${matched} vectors; ${unmatchedIds.length} items have no row in the file`
+          : `Attached ${matched} vectors`
+      );
+      setMatrixFile(null);
+      onAttach(data);
+    } catch (error: any) {
+      onError(error.message);
+    }
+  };
+
+  const [rows, dimensions] = matrixFile?.matrix.shape ?? [0, 0];
+  const rowCountMatches = rows === dataPoints.length;
+
+  return (
+    <div className="bg-gray-700/50 p-3 rounded text-sm space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-gray-300 font-medium">Embedding matrix</span>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || isReading}
+          className="text-xs text-blue-400 hover:text-blue-300 disabled:text-gray-500 transition-colors"
+        >
+          {isReading ? 'Reading...' : 'Choose .npy / .npz'}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".npy,.npz"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) readFile(file);
+          }}
+          style={{ display: 'none' }}
+        />
+      </div>
+
+      {!matrixFile && !result && (
+        <div className="text-xs text-gray-400">
+          Attach vectors saved with np.save / np.savez to the loaded items, by row order or by an `ids` array
+        </div>
+      )}
+
+      {matrixFile && (
+        <>
+          <div className="text-xs text-gray-400 space-y-0.5">
+            <div className="break-all">{matrixFile.name}</div>
+            <div>
+              {matrixFile.matrix.name}: <span className="text-white">{rows} × {dimensions}</span> ({matrixFile.matrix.dtype})
+              {matrixFile.ids && ` · ${matrixFile.ids.length} ids`}
+            </div>
+            {join === 'order' && !rowCountMatches && (
+              <div className="text-yellow-400">
+                {rows} rows but {dataPoints.length} items loaded - row order cannot be used
+              </div>
+            )}
+          </div>
+
+          <select
+            value={join}
+            onChange={(e) => setJoin(e.target.value as EmbeddingMatrixJoin)}
+            className="w-full p-2 bg-gray-700 text-white rounded border border-gray-600 text-xs"
+          >
+            <option value="order">Join by row order</option>
+            <option value="id" disabled={!matrixFile.ids}>Join by id{matrixFile.ids ? '' : ' (no ids array in file)'}</option>
+          </select>
+
+          <div className="flex gap-2">
+            <button
+              onClick={attach}
+              disabled={disabled || (join === 'order' && !rowCountMatches)}
+              className="flex-1 p-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 rounded transition-colors text-xs"
+            >
+              Attach embeddings
+            </button>
+            <button
+              onClick={() => setMatrixFile(null)}
+              className="px-3 p-2 bg-gray-600 hover:bg-gray-500 rounded transition-colors text-xs"
+            >
+              Cancel
+            </button>
+          </div>
+        </>
+      )}
+
+      {result && <div className="text-xs text-green-400">{result}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+import React from 'react';
+import { CompatibleEndpointSettings, EndpointAuthScheme } from '@/types';
+import { OPENAI_EMBEDDING_MODELS, DEFAULT_AZURE_API_VERSION } from '@/lib/embeddingProviders';
+
+interface EndpointSettingsProps {
+  settings: CompatibleEndpointSettings;
+  onChange: (settings: CompatibleEndpointSettings) => void;
+  disabled?: boolean;
+}
+
+const inputClass = 'w-full p-2 bg-gray-700 text-white rounded border border-gray-600 text-sm placeholder-gray-500';
+
+export default function EndpointSettings({ settings, onChange, disabled = false }: EndpointSettingsProps) {
+  const update = (changes: Partial<CompatibleEndpointSettings>) => onChange({ ...settings, ...changes });
+
+  // Empty means "not set"; a price of 0 is kept so free local endpoints are not billed at OpenAI rates
+  const parseOptionalNumber = (value: string, allowZero = false): number | undefined => {
+    const parsed = parseFloat(value);
+    return Number.isFinite(parsed) && (parsed > 0 || (allowZero && parsed === 0)) ? parsed : undefined;
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm text-gray-300 mb-1">Base URL</label>
+        <input
+          type="url"
+          placeholder="http://localhost:11434/v1"
+          value={settings.baseUrl}
+          onChange={(e) => update({ baseUrl: e.target.value })}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Authentication</label>
+          <select
+            value={settings.authScheme}
+            onChange={(e) => update({ authScheme: e.target.value as EndpointAuthScheme })}
+            disabled={disabled}
+            className={inputClass}
+          >
+            <option value="bearer">Bearer token</option>
+            <option value="api-key">api-key header (Azure)</option>
+            <option value="none">None</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Model</label>
+          <input
+            type="text"
+            list="endpoint-model-suggestions"
+            placeholder="nomic-embed-text"
+            value={settings.model}
+            onChange={(e) => update({ model: e.target.value })}
+            disabled={disabled}
+            className={inputClass}
+          />
+          <datalist id="endpoint-model-suggestions">
+            {Object.keys(OPENAI_EMBEDDING_MODELS).map(model => (
+              <option key={model} value={model} />
+            ))}
+          </datalist>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Azure deployment</label>
+          <input
+            type="text"
+            placeholder="Optional"
+            value={settings.deployment}
+            onChange={(e) => update({ deployment: e.target.value })}
+            disabled={disabled}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">API version</label>
+          <input
+            type="text"
+            placeholder={settings.deployment ? DEFAULT_AZURE_API_VERSION : 'Optional'}
+            value={settings.apiVersion}
+            onChange={(e) => update({ apiVersion: e.target.value })}
+            disabled={disabled}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Dimensions</label>
+          <input
+            type="number"
+            min="1"
+            placeholder="Model default"
+            value={settings.dimensions ?? ''}
+            onChange={(e) => update({ dimensions: parseOptionalNumber(e.target.value) })}
+            disabled={disabled}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">$ per 1K tokens</label>
+          <input
+            type="number"
+            min="0"
+            step="0.00001"
+            placeholder={OPENAI_EMBEDDING_MODELS[settings.model] ? String(OPENAI_EMBEDDING_MODELS[settings.model].costPer1KTokens) : '0'}
+            value={settings.costPer1KTokens ?? ''}
+            onChange={(e) => update({ costPer1KTokens: parseOptionalNumber(e.target.value, true) })}
+            disabled={disabled}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm text-gray-300 mb-1">Extra headers</label>
+        <textarea
+          rows={2}
+          placeholder={'X-Team: research\nOpenAI-Organization: org-...'}
+          value={settings.extraHeaders}
+          onChange={(e) => update({ extraHeaders: e.target.value })}
+          disabled={disabled}
+          className={`${inputClass} font-mono`}
+        />
+        <p className="text-xs text-gray-400 mt-1">
+          One &quot;Name: value&quot; per line. The server must allow browser requests (CORS).
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,55 @@
 'use client';
-import React, { useCallback, useRef, useState } from 'react';
-import { DataPoint, DataProcessingOptions, ProcessingProgress } from '@/types';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ColumnMapping,
+  DataPoint,
+  DataProcessingOptions,
+  DetectedColumn,
+  FileUploadResult,
+  ImportIssue,
+  ImportValidationReport,
+  MarkdownNote,
+  ProcessingProgress,
+  SourceFileSummary
+} from '@/types';
 import { DataProcessor } from '@/lib/dataProcessor';
+import { FileImportClient } from '@/lib/fileImportClient';
+import { ColumnarFiles } from '@/lib/columnarFiles';
+import { ColumnMappings } from '@/lib/columnMapping';
+import { MarkdownVault } from '@/lib/markdownVault';
+import { DocumentText } from '@/lib/documentText';
+import { ImportValidation } from '@/lib/importValidation';
+import ColumnMappingWizard from './ColumnMappingWizard';
+import ImportReportPanel from './ImportReportPanel';
 
 interface FileUploadProps {
-  onFileLoad: (data: DataPoint[]) => void;
+  onFileLoad: (data: DataPoint[], sourceName?: string, sourceFiles?: SourceFileSummary[]) => void;
   onError: (error: string) => void;
-  onProgress?: (progress: ProcessingProgress) => void;
+  onProgress?: (progress: ProcessingProgress | null) => void;
+}
+
+const MAX_FILE_SIZE_MB = 50;
+const MAX_STREAMED_FILE_SIZE_MB = 500; // CSV and JSONL
+const MAX_COLUMNAR_FILE_SIZE_MB = 200; // Parquet and Arrow (compressed, expanded in memory)
+const ACCEPTED_EXTENSIONS = ['.csv', '.json', '.jsonl', '.ndjson', '.parquet', '.arrow', '.arrows', '.feather', '.txt', '.md', '.markdown', '.html', '.htm', '.pdf'];
+
+// A picked or dropped file with its path inside the chosen folder
+interface SourceFile {
+  file: File;
+  path: string;
+}
+
+// Parsed import held back until its validation report is accepted
+interface ReviewedImport {
+  data: DataPoint[];
+  sourceName: string;
+  sourceFiles?: SourceFileSummary[];
+  report: ImportValidationReport;
 }
 
 export default function FileUpload({ onFileLoad, onError, onProgress }: FileUploadProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [fileInfo, setFileInfo] = useState<{
@@ -18,8 +57,72 @@ export default function FileUpload({ onFileLoad, onError, onProgress }: FileUplo
     size: number;
     type: string;
   } | null>(null);
+  // Structured file waiting for the column mapping step
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string;
+    columns: DetectedColumn[];
+    sampleRows: Record<string, any>[];
+    mapping: ColumnMapping;
+    remembered: boolean;
+    resolve: (mapping: ColumnMapping | null) => void; // null when the import is cancelled
+  } | null>(null);
+  const [pendingReport, setPendingReport] = useState<ReviewedImport | null>(null);
   const processingRef = useRef(false);
 
+  // webkitdirectory is not in React's input attributes
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const resetInputs = () => {
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    if (folderInputRef.current) {
+      folderInputRef.current.value = '';
+    }
+  };
+
+  const completeImport = useCallback(({ data, sourceName, sourceFiles }: ReviewedImport) => {
+    onFileLoad(data, sourceName, sourceFiles);
+    onProgress?.({
+      stage: 'complete',
+      progress: 100,
+      current: data.length,
+      total: data.length,
+      message: `Successfully loaded ${data.length} items from ${sourceName}`
+    });
+  }, [onFileLoad, onProgress]);
+
+  // Imports with skipped or flagged rows wait for the user to proceed or abort
+  const reviewImport = useCallback((parsed: Omit<ReviewedImport, 'report'>, issues: ImportIssue[]) => {
+    const report = ImportValidation.buildReport(parsed.data, issues);
+    if (ImportValidation.hasIssues(report)) {
+      onProgress?.(null);
+      setPendingReport({ ...parsed, report });
+    } else {
+      completeImport({ ...parsed, report });
+    }
+  }, [completeImport, onProgress]);
+
+  // Show the column mapping step for a sampled file; resolves once it is confirmed or cancelled
+  const askForMapping = useCallback((fileName: string, sampleRows: Record<string, any>[]) => {
+    const columns = ColumnMappings.detect(sampleRows);
+    const saved = ColumnMappings.getSaved(columns.map(column => column.name));
+    onProgress?.(null);
+
+    return new Promise<ColumnMapping | null>(resolve => {
+      setPendingImport({
+        fileName,
+        columns,
+        sampleRows,
+        mapping: saved ?? ColumnMappings.guess(columns),
+        remembered: saved !== null,
+        resolve
+      });
+    });
+  }, [onProgress]);
+
   const processFile = useCallback(async (file: File) => {
     if (!file || processingRef.current) return;
 
@@ -33,10 +136,17 @@ export default function FileUpload({ onFileLoad, onError, onProgress }: FileUplo
     onError(''); // Clear previous errors
 
     try {
-      // Check file size (50MB limit)
-      const maxSize = 50 * 1024 * 1024; // 50MB
-      if (file.size > maxSize) {
-        throw new Error(`File size (${(file.size / 1024 / 1024).toFixed(1)}MB) exceeds 50MB limit`);
+      checkFileSize(file);
+
+      // Structured files go through the column mapping step first
+      let columnMapping: ColumnMapping | undefined;
+      let records: any[] | undefined;
+      if (isStructuredFile(file.name)) {
+        const sample = await sampleFile(file);
+        const mapping = await askForMapping(file.name, sample.sampleRows);
+        if (!mapping) return;
+        columnMapping = mapping;
+        records = sample.records;
       }
 
       onProgress?.({
@@ -47,29 +157,11 @@ export default function FileUpload({ onFileLoad, onError, onProgress }: FileUplo
         message: 'Reading file...'
       });
 
-      const content = await readFileContent(file);
-      let data: DataPoint[] = [];
-
-      const processingOptions: DataProcessingOptions = {
-        chunkSize: 1000,
-        skipValidation: file.size > 10 * 1024 * 1024, // Skip validation for files > 10MB
-        maxFileSize: 50,
-        supportedFormats: ['.json', '.csv', '.txt']
-      };
-
-      if (file.name.toLowerCase().endsWith('.json')) {
-        data = await DataProcessor.loadJSONData(content, processingOptions, onProgress);
-      } else if (file.name.toLowerCase().endsWith('.csv')) {
-        data = await DataProcessor.loadCSVData(content, processingOptions, onProgress);
-      } else if (file.name.toLowerCase().endsWith('.txt')) {
-        // Handle plain text files
-        data = await processTxtFile(content, onProgress);
-      } else {
-        throw new Error('Unsupported file format. Please use CSV, JSON, or TXT files.');
-      }
+      const { data, issues = [] } = await loadFileData(file, columnMapping, records, onProgress);
 
       if (data.length === 0) {
-        throw new Error('No valid data found in file. Please check the file format.');
+        const reason = issues.length > 0 ? ` (${issues.length} rows skipped: ${issues[0].message})` : '';
+        throw new Error(`No valid data found in file. Please check the file format.${reason}`);
       }
 
       // Log successful loading info
@@ -84,16 +176,7 @@ export default function FileUpload({ onFileLoad, onError, onProgress }: FileUplo
         processingTime: `${stats.processingTime}ms`
       });
 
-      onFileLoad(data);
-      
-      onProgress?.({
-        stage: 'complete',
-        progress: 100,
-        current: data.length,
-        total: data.length,
-        message: `Successfully loaded ${data.length} items from ${file.name}`
-      });
-
+      reviewImport({ data, sourceName: file.name }, issues);
     } catch (error: any) {
       console.error('File processing error:', error);
       onError(error.message || 'Failed to process file');
@@ -101,30 +184,176 @@ export default function FileUpload({ onFileLoad, onError, onProgress }: FileUplo
       setIsLoading(false);
       processingRef.current = false;
       setFileInfo(null);
-      // Reset file input
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
+      resetInputs();
+    }
+  }, [askForMapping, reviewImport, onError, onProgress]);
+
+  /**
+   * Load several files (or a folder) into one dataset. Structured files go
+   * through the mapping step once per set of columns, and files with the same
+   * columns share that mapping; a file that fails is reported in its summary
+   * instead of aborting the rest.
+   */
+  const processFiles = useCallback(async (files: SourceFile[]) => {
+    const visible = files.filter(({ path }) => !isHiddenPath(path));
+    if (visible.length === 1) {
+      processFile(visible[0].file);
+      return;
+    }
+
+    const supported = visible.filter(({ path }) => isSupportedFile(path));
+    if (supported.length === 0) {
+      onError(`None of the ${visible.length} files has a supported format (${ACCEPTED_EXTENSIONS.join(', ')})`);
+      resetInputs();
+      return;
+    }
+    if (supported.length === 1) {
+      processFile(supported[0].file);
+      return;
+    }
+    if (processingRef.current) return;
+
+    processingRef.current = true;
+    setIsLoading(true);
+    setFileInfo({
+      name: `${supported.length} files`,
+      size: supported.reduce((total, { file }) => total + file.size, 0),
+      type: ''
+    });
+    onError('');
+
+    try {
+      const loaded: Array<{ summary: SourceFileSummary; data: DataPoint[]; group?: string }> = [];
+      const summaries: SourceFileSummary[] = [];
+      const issues: ImportIssue[] = [];
+      // Markdown notes are parsed together at the end so links between them resolve
+      const notes: Array<{ summary: SourceFileSummary; note: MarkdownNote }> = [];
+      const mappingsByColumns = new Map<string, ColumnMapping>();
+
+      for (const [index, { file, path }] of supported.entries()) {
+        onProgress?.({
+          stage: 'loading',
+          progress: (index / supported.length) * 95,
+          current: index,
+          total: supported.length,
+          message: `Reading ${path} (${index + 1}/${supported.length})...`
+        });
+
+        const summary: SourceFileSummary = { name: path, items: 0, skippedLines: 0, renamedIds: 0 };
+        summaries.push(summary);
+        try {
+          checkFileSize(file);
+          if (MarkdownVault.isMarkdown(path)) {
+            notes.push({ summary, note: { path, content: await readFileContent(file) } });
+            continue;
+          }
+
+          let mapping: ColumnMapping | undefined;
+          let records: any[] | undefined;
+          if (isStructuredFile(path)) {
+            const sample = await sampleFile(file);
+            const columnsKey = ColumnMappings.detect(sample.sampleRows).map(column => column.name).join('\u0000');
+            mapping = mappingsByColumns.get(columnsKey);
+            if (!mapping) {
+              const confirmed = await askForMapping(path, sample.sampleRows);
+              if (!confirmed) return;
+              mapping = confirmed;
+              mappingsByColumns.set(columnsKey, mapping);
+            }
+            records = sample.records;
+          }
+
+          const result = await loadFileData(file, mapping, records);
+          const data = result.data;
+          const fileIssues = result.issues ?? [];
+          fileIssues.forEach(issue => issues.push({ ...issue, file: path }));
+          summary.items = data.length;
+          summary.skippedLines = fileIssues.filter(issue => issue.kind === 'skipped_row').length;
+          if (data.length === 0) {
+            summary.error = 'No valid data found';
+          } else {
+            loaded.push({ summary, data });
+          }
+        } catch (error: any) {
+          summary.error = error.message || 'Failed to process file';
+        }
+      }
+
+      if (notes.length > 0) {
+        const noteData = MarkdownVault.parseVault(notes.map(({ note }) => note));
+        notes.forEach(({ summary }, index) => {
+          summary.items = noteData[index].length;
+          if (noteData[index].length === 0) {
+            summary.error = 'No text found';
+          } else {
+            // Notes link to each other by id, so renames must follow across the vault
+            loaded.push({ summary, data: noteData[index], group: 'markdown_vault' });
+          }
+        });
       }
+
+      if (loaded.length === 0) {
+        throw new Error(`No valid data found in any of the ${supported.length} files`);
+      }
+
+      const { data, renamedIds } = DataProcessor.mergeSources(
+        loaded.map(({ summary, data, group }) => ({ name: summary.name, data, group }))
+      );
+      loaded.forEach(({ summary }, index) => {
+        summary.renamedIds = renamedIds[index];
+      });
+
+      reviewImport({ data, sourceName: `${loaded.length} files`, sourceFiles: summaries }, issues);
+    } catch (error: any) {
+      console.error('File processing error:', error);
+      onError(error.message || 'Failed to process files');
+    } finally {
+      setIsLoading(false);
+      processingRef.current = false;
+      setFileInfo(null);
+      resetInputs();
     }
-  }, [onFileLoad, onError, onProgress]);
+  }, [processFile, askForMapping, reviewImport, onError, onProgress]);
+
+  const confirmMapping = useCallback((mapping: ColumnMapping) => {
+    if (!pendingImport) return;
+
+    ColumnMappings.save(pendingImport.columns.map(column => column.name), mapping);
+    setPendingImport(null);
+    pendingImport.resolve(mapping);
+  }, [pendingImport]);
+
+  const cancelMapping = useCallback(() => {
+    setPendingImport(null);
+    pendingImport?.resolve(null);
+  }, [pendingImport]);
 
   const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file && !processingRef.current) {
-      processFile(file);
+    // Folder picks carry webkitRelativePath; plain picks only the file name
+    const files = Array.from(event.target.files ?? []).map(file => ({
+      file,
+      path: file.webkitRelativePath || file.name
+    }));
+    if (files.length > 0 && !processingRef.current) {
+      processFiles(files);
     }
-  }, [processFile]);
+  }, [processFiles]);
 
-  const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+  const handleDrop = useCallback(async (event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     event.stopPropagation();
     setIsDragging(false);
 
-    const file = event.dataTransfer.files?.[0];
-    if (file && !processingRef.current) {
-      processFile(file);
+    if (processingRef.current) return;
+    try {
+      const files = await collectDroppedFiles(event.dataTransfer);
+      if (files.length > 0) {
+        processFiles(files);
+      }
+    } catch (error: any) {
+      onError(error.message || 'Failed to read dropped folder');
     }
-  }, [processFile]);
+  }, [processFiles, onError]);
 
   const handleDragOver = useCallback((event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
@@ -144,6 +373,34 @@ export default function FileUpload({ onFileLoad, onError, onProgress }: FileUplo
     }
   }, []);
 
+  if (pendingReport) {
+    return (
+      <ImportReportPanel
+        report={pendingReport.report}
+        sourceName={pendingReport.sourceName}
+        onProceed={() => {
+          setPendingReport(null);
+          completeImport(pendingReport);
+        }}
+        onAbort={() => setPendingReport(null)}
+      />
+    );
+  }
+
+  if (pendingImport) {
+    return (
+      <ColumnMappingWizard
+        fileName={pendingImport.fileName}
+        columns={pendingImport.columns}
+        sampleRows={pendingImport.sampleRows}
+        initialMapping={pendingImport.mapping}
+        remembered={pendingImport.remembered}
+        onConfirm={confirmMapping}
+        onCancel={cancelMapping}
+      />
+    );
+  }
+
   return (
     <div className="space-y-3">
       {/* Drop Zone */}
@@ -164,7 +421,8 @@ export default function FileUpload({ onFileLoad, onError, onProgress }: FileUplo
         <input
           ref={fileInputRef}
           type="file"
-          accept=".csv,.json,.txt"
+          accept={ACCEPTED_EXTENSIONS.join(',')}
+          multiple
           onChange={handleFileChange}
           disabled={isLoading}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
@@ -187,16 +445,34 @@ export default function FileUpload({ onFileLoad, onError, onProgress }: FileUplo
             <>
               <div className="text-4xl text-gray-400 mb-2">📁</div>
               <p className="text-white font-medium">
-                {isDragging ? 'Drop file here' : 'Click to upload or drag & drop'}
+                {isDragging ? 'Drop files or a folder here' : 'Click to upload or drag & drop files or a folder'}
               </p>
               <p className="text-gray-400 text-sm">
-                Supports CSV, JSON, and TXT files (up to 50MB)
+                Supports CSV and JSONL (up to {MAX_STREAMED_FILE_SIZE_MB}MB), Parquet and Arrow (up to {MAX_COLUMNAR_FILE_SIZE_MB}MB), JSON, TXT, Markdown, HTML and PDF files (up to {MAX_FILE_SIZE_MB}MB)
               </p>
             </>
           )}
         </div>
       </div>
 
+      <div className="flex items-center justify-between text-xs text-gray-400">
+        <span>Several files are merged into one dataset</span>
+        <button
+          onClick={() => folderInputRef.current?.click()}
+          disabled={isLoading}
+          className="text-blue-400 hover:text-blue-300 disabled:text-gray-500 transition-colors"
+        >
+          Choose folder...
+        </button>
+        <input
+          ref={folderInputRef}
+          type="file"
+          onChange={handleFileChange}
+          disabled={isLoading}
+          style={{ display: 'none' }}
+        />
+      </div>
+
       {/* Enhanced File Format Info */}
       <div className="bg-gray-800/50 rounded-lg p-3 text-sm">
         <h4 className="text-white font-medium mb-3">Supported File Formats:</h4>
@@ -204,8 +480,8 @@ export default function FileUpload({ onFileLoad, onError, onProgress }: FileUplo
           <div>
             <span className="font-medium text-blue-400">CSV:</span>
             <div className="ml-4 text-xs space-y-1">
-              <div>• Required: 'text' column</div>
-              <div>• Optional: 'id', 'category', 'title', 'description'</div>
+              <div>• Any columns: choose id, text, category, embedding and metadata after upload</div>
+              <div>• 'text' or 'title'/'description', 'id', 'category' are detected automatically</div>
               <div>• Optional: 'embedding' (JSON array), 'metadata' (JSON object)</div>
             </div>
           </div>
@@ -213,12 +489,46 @@ export default function FileUpload({ onFileLoad, onError, onProgress }: FileUplo
           <div>
             <span className="font-medium text-green-400">JSON:</span>
             <div className="ml-4 text-xs space-y-1">
-              <div>• Array of objects with 'text' property</div>
+              <div>• Array of objects; keys are mapped like CSV columns</div>
               <div>• Optional: 'id', 'category', 'embedding', 'metadata'</div>
               <div>• Supports nested objects and arrays</div>
             </div>
           </div>
 
+          <div>
+            <span className="font-medium text-purple-400">JSONL / NDJSON:</span>
+            <div className="ml-4 text-xs space-y-1">
+              <div>• One JSON object per line, same fields as JSON</div>
+              <div>• Streamed line by line; invalid lines are skipped and listed in the import report</div>
+            </div>
+          </div>
+
+          <div>
+            <span className="font-medium text-orange-400">Parquet / Arrow IPC:</span>
+            <div className="ml-4 text-xs space-y-1">
+              <div>• .parquet, .arrow / .feather (file format) or .arrows (stream format)</div>
+              <div>• list&lt;float&gt; columns map directly to embeddings, without JSON encoding</div>
+            </div>
+          </div>
+
+          <div>
+            <span className="font-medium text-pink-400">Markdown vault:</span>
+            <div className="ml-4 text-xs space-y-1">
+              <div>• Drop an Obsidian-style vault folder; each heading section becomes an item</div>
+              <div>• Front-matter is kept as metadata, the first tag becomes the category</div>
+              <div>• [[wikilinks]] and [text](note.md) links become authored edges next to semantic ones</div>
+            </div>
+          </div>
+
+          <div>
+            <span className="font-medium text-cyan-400">HTML / PDF:</span>
+            <div className="ml-4 text-xs space-y-1">
+              <div>• HTML is reduced to its readable text (navigation, scripts and page chrome dropped)</div>
+              <div>• PDF text is extracted page by page in the browser; each chunk keeps its page number</div>
+              <div>• Both are chunked like TXT files; scanned PDFs need OCR first</div>
+            </div>
+          </div>
+
           <div>
             <span className="font-medium text-yellow-400">TXT:</span>
             <div className="ml-4 text-xs space-y-1">
@@ -269,6 +579,7 @@ export default function FileUpload({ onFileLoad, onError, onProgress }: FileUplo
           <div className="text-yellow-300 font-medium">📝 Text File Auto-Chunking:</div>
           <div className="ml-2 space-y-1">
             <div>• Upload entire books, articles, or documents as single .txt files</div>
+            <div>• Or drop a whole folder of .txt files: each item keeps its source file</div>
             <div>• System automatically chunks by paragraphs, sentences, or semantic breaks</div>
             <div>• Preserves context with configurable overlap between chunks</div>
             <div>• Auto-detects content categories and optimal chunk sizes</div>
@@ -277,7 +588,7 @@ export default function FileUpload({ onFileLoad, onError, onProgress }: FileUplo
           <div className="text-blue-300 font-medium">⚡ Performance Optimization:</div>
           <div className="ml-2 space-y-1">
             <div>• Files &gt;10MB: validation skipped for faster processing</div>
-            <div>• Large files (&gt;100MB): automatic streaming with 64MB chunks</div>
+            <div>• CSV and JSONL files are streamed in a background worker, so large exports stay responsive</div>
             <div>• Memory-efficient processing with garbage collection</div>
             <div>• Adaptive batch sizes based on available memory</div>
             <div>• Use TXT for raw text, CSV for structured data</div>
@@ -304,7 +615,7 @@ export default function FileUpload({ onFileLoad, onError, onProgress }: FileUplo
       });
 
       const sampleData = await generateSampleData(type, onProgress);
-      onFileLoad(sampleData);
+      onFileLoad(sampleData, `Sample: ${type}`);
     } catch (error: any) {
       onError(error.message);
     } finally {
@@ -314,18 +625,9 @@ export default function FileUpload({ onFileLoad, onError, onProgress }: FileUplo
   }
 }
 
-// Utility function to read file content with streaming for large files
+// Utility function to read file content (JSON, TXT, Markdown and HTML; CSV is streamed)
 function readFileContent(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
-    // For very large files, use streaming approach
-    if (file.size > 100 * 1024 * 1024) { // 100MB threshold
-      readFileInChunks(file)
-        .then(resolve)
-        .catch(reject);
-      return;
-    }
-
-    // Standard approach for smaller files
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
@@ -354,29 +656,149 @@ function readFileContent(file: File): Promise<string> {
   });
 }
 
-// Stream large files in chunks to avoid memory issues
-async function readFileInChunks(file: File): Promise<string> {
-  const chunkSize = 64 * 1024 * 1024; // 64MB chunks
-  const chunks: string[] = [];
-  let offset = 0;
-
-  while (offset < file.size) {
-    const slice = file.slice(offset, offset + chunkSize);
-    const chunk = await new Promise<string>((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => resolve(e.target?.result as string || '');
-      reader.onerror = () => reject(new Error('Failed to read file chunk'));
-      reader.readAsText(slice);
-    });
-    
-    chunks.push(chunk);
-    offset += chunkSize;
-    
-    // Allow other tasks to run
-    await new Promise(resolve => setTimeout(resolve, 1));
+function isHiddenPath(path: string): boolean {
+  return path.split('/').some(part => part.startsWith('.'));
+}
+
+function isSupportedFile(path: string): boolean {
+  const fileName = path.toLowerCase();
+  return ACCEPTED_EXTENSIONS.some(extension => fileName.endsWith(extension));
+}
+
+function isStructuredFile(path: string): boolean {
+  return /\.(csv|json|jsonl|ndjson)$/i.test(path) || ColumnarFiles.isParquet(path) || ColumnarFiles.isArrow(path);
+}
+
+// CSV and JSONL are streamed; other formats are read into memory at once
+function checkFileSize(file: File): number {
+  const fileName = file.name.toLowerCase();
+  const maxSizeMB = /\.(csv|jsonl|ndjson)$/.test(fileName)
+    ? MAX_STREAMED_FILE_SIZE_MB
+    : ColumnarFiles.isParquet(fileName) || ColumnarFiles.isArrow(fileName) ? MAX_COLUMNAR_FILE_SIZE_MB : MAX_FILE_SIZE_MB;
+  if (file.size > maxSizeMB * 1024 * 1024) {
+    throw new Error(`File size (${(file.size / 1024 / 1024).toFixed(1)}MB) exceeds ${maxSizeMB}MB limit`);
+  }
+  return maxSizeMB;
+}
+
+// Sample rows of a structured file for the column mapping step
+async function sampleFile(file: File): Promise<{ records?: any[]; sampleRows: Record<string, any>[] }> {
+  const fileName = file.name.toLowerCase();
+  const isJSONL = fileName.endsWith('.jsonl') || fileName.endsWith('.ndjson');
+
+  // JSON, Parquet and Arrow rows are kept so the file is read only once
+  const records = fileName.endsWith('.json')
+    ? DataProcessor.parseJSONArray(await readFileContent(file))
+    : ColumnarFiles.isParquet(fileName) || ColumnarFiles.isArrow(fileName) ? await ColumnarFiles.read(file) : undefined;
+  const sampleRows = records
+    ? DataProcessor.sampleRecords(records)
+    : isJSONL ? await DataProcessor.sampleJSONLFile(file) : await DataProcessor.sampleCSVFile(file);
+  if (sampleRows.length === 0) {
+    throw new Error('No rows found in file. Please check the file format.');
+  }
+  return { records, sampleRows };
+}
+
+// Parse one file into data points; structured files need their column mapping
+async function loadFileData(
+  file: File,
+  columnMapping?: ColumnMapping,
+  records?: any[],
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<FileUploadResult> {
+  const fileName = file.name.toLowerCase();
+  const isCSV = fileName.endsWith('.csv');
+  const isJSON = fileName.endsWith('.json');
+  const isJSONL = fileName.endsWith('.jsonl') || fileName.endsWith('.ndjson');
+  const isColumnar = ColumnarFiles.isParquet(fileName) || ColumnarFiles.isArrow(fileName);
+  const maxSizeMB = checkFileSize(file);
+
+  const processingOptions: DataProcessingOptions = {
+    chunkSize: 1000,
+    skipValidation: file.size > 10 * 1024 * 1024, // Skip validation for files > 10MB
+    maxFileSize: maxSizeMB,
+    supportedFormats: ACCEPTED_EXTENSIONS,
+    columnMapping
+  };
+
+  const issues: ImportIssue[] = [];
+  let data: DataPoint[];
+
+  if (isCSV || isJSONL) {
+    const result = await FileImportClient.load(file, isCSV ? 'csv' : 'jsonl', processingOptions, onProgress);
+    data = result.data;
+    issues.push(...result.issues);
+  } else if (isJSON || isColumnar) {
+    const items = records ?? (isJSON
+      ? DataProcessor.parseJSONArray(await readFileContent(file))
+      : await ColumnarFiles.read(file));
+    data = await DataProcessor.loadRecords(items, processingOptions, onProgress, issues);
+  } else if (MarkdownVault.isMarkdown(fileName)) {
+    const content = await readFileContent(file);
+    data = MarkdownVault.parseVault([{ path: file.name, content }])[0];
+  } else if (fileName.endsWith('.txt')) {
+    // Handle plain text files
+    const content = await readFileContent(file);
+    data = await processTxtFile(content, onProgress);
+  } else if (DocumentText.isHTML(fileName)) {
+    const { title, text } = DocumentText.extractHTML(await readFileContent(file));
+    data = tagDocumentChunks(await processTxtFile(text, onProgress), 'html_upload', title);
+  } else if (DocumentText.isPDF(fileName)) {
+    const { title, text, pageStarts } = await DocumentText.extractPDF(file, onProgress);
+    data = DocumentText.addPageNumbers(await processTxtFile(text, onProgress), pageStarts);
+    data = tagDocumentChunks(data, 'pdf_upload', title, pageStarts.length);
+  } else {
+    throw new Error('Unsupported file format. Please use CSV, JSON, JSONL, Parquet, Arrow, TXT, Markdown, HTML or PDF files.');
+  }
+
+  return { data, hasEmbeddings: data.some(point => point.embedding && point.embedding.length > 0), issues };
+}
+
+// Mark chunks of an extracted HTML or PDF document with their source and title
+function tagDocumentChunks(data: DataPoint[], source: string, title: string, totalPages?: number): DataPoint[] {
+  return data.map(point => ({
+    ...point,
+    metadata: { ...point.metadata, source, title: title || undefined, totalPages }
+  }));
+}
+
+/**
+ * Files of a drop, walking dropped folders. Entries must be taken from the
+ * DataTransfer before the first await, while the drop event is still current.
+ */
+async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<SourceFile[]> {
+  const entries = Array.from(dataTransfer.items ?? [])
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => Boolean(entry));
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files ?? []).map(file => ({ file, path: file.name }));
   }
 
-  return chunks.join('');
+  const files: SourceFile[] = [];
+  const visit = async (entry: FileSystemEntry): Promise<void> => {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+      files.push({ file, path: entry.fullPath.replace(/^\//, '') });
+      return;
+    }
+    if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      // readEntries returns at most ~100 entries per call; read until empty
+      for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) break;
+        for (const child of batch) {
+          await visit(child);
+        }
+      }
+    }
+  };
+
+  for (const entry of entries) {
+    await visit(entry);
+  }
+  return files.sort((a, b) => a.path.localeCompare(b.path));
 }
 
 // Enhanced text chunking interface
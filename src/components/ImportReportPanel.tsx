@@ -0,0 +1,95 @@
+'use client';
+import React from 'react';
+import { ImportIssueKind, ImportValidationReport } from '@/types';
+import { ImportValidation } from '@/lib/importValidation';
+
+interface ImportReportPanelProps {
+  report: ImportValidationReport;
+  sourceName: string;
+  onProceed: () => void;
+  onAbort: () => void;
+}
+
+const ISSUE_LABELS: Record<ImportIssueKind, string> = {
+  skipped_row: 'Skipped rows',
+  malformed_row: 'Malformed rows',
+  invalid_embedding: 'Unparseable embeddings (dropped, rows kept)',
+  duplicate_id: 'Duplicate ids',
+  dimension_mismatch: 'Inconsistent embedding dimensions'
+};
+
+const MAX_ISSUES_SHOWN = 50;
+
+export default function ImportReportPanel({ report, sourceName, onProceed, onAbort }: ImportReportPanelProps) {
+  const kinds = (Object.keys(ISSUE_LABELS) as ImportIssueKind[]).filter(kind => report.counts[kind] > 0);
+
+  const downloadReport = () => {
+    const blob = new Blob([ImportValidation.toCSV(report)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `import_report_${sourceName.replace(/[^\w.-]+/g, '_')}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="border border-yellow-700 bg-gray-800 rounded-lg p-4 space-y-3">
+      <div>
+        <h3 className="text-sm font-semibold text-white">Import report</h3>
+        <p className="text-xs text-gray-400">
+          {sourceName}: {report.imported.toLocaleString()} items read, {report.issues.length.toLocaleString()} issues found
+        </p>
+      </div>
+
+      <div className="text-xs space-y-0.5">
+        {kinds.map(kind => (
+          <div key={kind} className="flex justify-between">
+            <span className="text-yellow-400">{ISSUE_LABELS[kind]}</span>
+            <span className="text-white">{report.counts[kind].toLocaleString()}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="text-xs text-gray-300 max-h-48 overflow-y-auto bg-gray-900/50 rounded p-2 space-y-0.5">
+        {report.issues.slice(0, MAX_ISSUES_SHOWN).map((issue, index) => (
+          <div key={index} className="break-all">
+            <span className="text-gray-500">
+              {issue.file && `${issue.file} `}
+              {issue.line !== undefined && `line ${issue.line} `}
+              {issue.id && `[${issue.id}] `}
+            </span>
+            {issue.message}
+          </div>
+        ))}
+        {report.issues.length > MAX_ISSUES_SHOWN && (
+          <div className="text-gray-500">
+            ...and {(report.issues.length - MAX_ISSUES_SHOWN).toLocaleString()} more (see CSV)
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={downloadReport}
+          className="p-2 bg-gray-700 hover:bg-gray-600 rounded transition-colors text-xs"
+        >
+          Download CSV
+        </button>
+        <button
+          onClick={onAbort}
+          className="flex-1 p-2 bg-gray-700 hover:bg-gray-600 rounded transition-colors text-xs"
+        >
+          Abort
+        </button>
+        <button
+          onClick={onProceed}
+          disabled={report.imported === 0}
+          className="flex-1 p-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 rounded transition-colors text-xs"
+        >
+          Import {report.imported.toLocaleString()} items
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -28,6 +28,7 @@ export default function SearchComponent({
   });
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [results, setResults] = useState<SearchResult[]>([]);
+  const [searchError, setSearchError] = useState('');
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // Debounced search function
@@ -49,9 +50,11 @@ export default function SearchComponent({
         } as SearchOptions);
 
         setResults(searchResults);
+        setSearchError('');
         onSearchResults(searchResults);
-      } catch (error) {
+      } catch (error: unknown) {
         console.error('Search error:', error);
+        setSearchError(error instanceof Error && error.message ? error.message : 'Search failed');
         setResults([]);
         onSearchResults([]);
       } finally {
@@ -96,6 +99,7 @@ export default function SearchComponent({
   const handleClearSearch = useCallback(() => {
     setQuery('');
     setResults([]);
+    setSearchError('');
     onClearSearch();
     if (searchTimeoutRef.current) {
       clearTimeout(searchTimeoutRef.current);
@@ -330,8 +334,15 @@ export default function SearchComponent({
         </div>
       )}
 
+      {/* Search Error */}
+      {query && searchError && (
+        <div className="bg-red-900/40 border border-red-700 text-red-200 text-sm p-3 rounded">
+          {searchError}
+        </div>
+      )}
+
       {/* No Results */}
-      {query && !isSearching && results.length === 0 && (
+      {query && !isSearching && !searchError && results.length === 0 && (
         <div className="text-center py-6 text-gray-400">
           <div className="text-2xl mb-2">🔍</div>
           <p className="text-sm">No results found for "{query}"</p>
@@ -0,0 +1,121 @@
+'use client';
+import React, { useMemo, useRef } from 'react';
+import { DataPoint } from '@/types';
+import { TextTemplates } from '@/lib/textTemplates';
+
+interface TemplateEditorProps {
+  template: string;
+  onChange: (template: string) => void;
+  dataPoints: DataPoint[];
+  disabled?: boolean;
+}
+
+const PREVIEW_ROWS = 3;
+const PREVIEW_CHARS = 240;
+
+export default function TemplateEditor({
+  template,
+  onChange,
+  dataPoints,
+  disabled = false
+}: TemplateEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const fields = useMemo(() => TextTemplates.getFields(dataPoints), [dataPoints]);
+  const unknownFields = useMemo(() => TextTemplates.findUnknownFields(template, dataPoints), [template, dataPoints]);
+  const usesCategory = /\{\{\s*category\s*\}\}/.test(template);
+
+  const previews = useMemo(
+    () => dataPoints.slice(0, PREVIEW_ROWS).map(point => ({
+      id: point.id,
+      text: TextTemplates.render(template, point)
+    })),
+    [template, dataPoints]
+  );
+
+  // Insert a placeholder at the cursor position
+  const insertField = (field: string) => {
+    const placeholder = `{{${field}}}`;
+    const textarea = textareaRef.current;
+    if (!textarea) {
+      onChange(template + placeholder);
+      return;
+    }
+
+    const { selectionStart, selectionEnd } = textarea;
+    onChange(template.slice(0, selectionStart) + placeholder + template.slice(selectionEnd));
+
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + placeholder.length, selectionStart + placeholder.length);
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-sm text-gray-300">Embedding text template</label>
+        <button
+          onClick={() => onChange(TextTemplates.suggest(dataPoints))}
+          disabled={disabled}
+          className="text-xs text-blue-400 hover:text-blue-300 disabled:text-gray-500 transition-colors"
+        >
+          Reset
+        </button>
+      </div>
+
+      <textarea
+        ref={textareaRef}
+        rows={3}
+        value={template}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        spellCheck={false}
+        className="w-full p-2 bg-gray-700 text-white rounded border border-gray-600 text-sm font-mono placeholder-gray-500"
+        placeholder={'{{title}}\n{{text}}'}
+      />
+
+      <div className="flex flex-wrap gap-1">
+        {fields.map(field => (
+          <button
+            key={field}
+            onClick={() => insertField(field)}
+            disabled={disabled}
+            className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 rounded text-xs text-gray-300 font-mono transition-colors"
+          >
+            {field}
+          </button>
+        ))}
+      </div>
+
+      {unknownFields.length > 0 && (
+        <div className="text-xs text-yellow-400">
+          Empty in all sample rows: {unknownFields.map(field => `{{${field}}}`).join(', ')}
+        </div>
+      )}
+      {usesCategory && (
+        <div className="text-xs text-yellow-400">
+          Including the category puts the label into the vectors and biases category analysis
+        </div>
+      )}
+
+      {previews.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs text-gray-400">Preview</div>
+          {previews.map(preview => (
+            <div key={preview.id} className="bg-gray-700/50 p-2 rounded text-xs">
+              <div className="text-gray-500 mb-1">{preview.id} · {preview.text.length} chars</div>
+              {preview.text ? (
+                <div className="text-gray-200 whitespace-pre-wrap break-words">
+                  {preview.text.length > PREVIEW_CHARS ? `${preview.text.slice(0, PREVIEW_CHARS)}…` : preview.text}
+                </div>
+              ) : (
+                <div className="text-red-400">Empty - this row would not be embedded</div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
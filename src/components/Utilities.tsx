@@ -1,8 +1,10 @@
 'use client';
-import React, { useState, useEffect } from 'react';
-import { DataPoint, GraphData, DataStats } from '@/types';
+import React, { useState, useEffect, useCallback } from 'react';
+import { DataPoint, GraphData, DataStats, EmbeddingCacheStats, BudgetSettings, CostLedgerEntry, ExportFormat } from '@/types';
 import { DataProcessor } from '@/lib/dataProcessor';
 import { EmbeddingService } from '@/lib/embeddingService';
+import { EmbeddingCache } from '@/lib/embeddingCache';
+import { CostLedger } from '@/lib/costLedger';
 
 interface UtilitiesProps {
   dataPoints: DataPoint[];
@@ -14,13 +16,44 @@ interface UtilitiesProps {
 export default function Utilities({ dataPoints, graphData, onExport, onError }: UtilitiesProps) {
   const [stats, setStats] = useState<DataStats | null>(null);
   const [showAdvanced, setShowAdvanced] = useState(false);
-  const [exportFormat, setExportFormat] = useState<'json' | 'csv'>('json');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
   const [includeEmbeddings, setIncludeEmbeddings] = useState(true);
   const [performanceMetrics, setPerformanceMetrics] = useState<{
     loadTime: number;
     graphGenerationTime: number;
     memoryUsage: string;
   } | null>(null);
+  const [cacheStats, setCacheStats] = useState<EmbeddingCacheStats | null>(null);
+  const [cacheBusy, setCacheBusy] = useState(false);
+  const [ledger, setLedger] = useState<CostLedgerEntry[] | null>(null);
+  const [budget, setBudget] = useState<BudgetSettings>({});
+
+  const refreshCacheStats = useCallback(async () => {
+    if (!EmbeddingCache.isAvailable()) return;
+    try {
+      setCacheStats(await EmbeddingCache.getStats());
+    } catch (error: any) {
+      onError?.(`Failed to read embedding cache: ${error.message}`);
+    }
+  }, [onError]);
+
+  const refreshLedger = useCallback(async () => {
+    if (!CostLedger.isAvailable()) return;
+    try {
+      setLedger(await CostLedger.list());
+    } catch (error: any) {
+      onError?.(`Failed to read cost ledger: ${error.message}`);
+    }
+  }, [onError]);
+
+  // Load cache statistics, budget and ledger when advanced tools are opened
+  useEffect(() => {
+    if (showAdvanced) {
+      refreshCacheStats();
+      refreshLedger();
+      setBudget(CostLedger.getBudget());
+    }
+  }, [showAdvanced, refreshCacheStats, refreshLedger]);
 
   // Calculate statistics when data changes
   useEffect(() => {
@@ -58,7 +91,7 @@ export default function Utilities({ dataPoints, graphData, onExport, onError }:
     return 'N/A';
   };
 
-  const handleExport = (format: 'json' | 'csv', includeEmbeddings: boolean) => {
+  const handleExport = (format: ExportFormat, includeEmbeddings: boolean) => {
     try {
       if (dataPoints.length === 0) {
         onError?.('No data to export');
@@ -73,7 +106,7 @@ export default function Utilities({ dataPoints, graphData, onExport, onError }:
       } else {
         // Fallback: direct download
         const blob = new Blob([exportData], {
-          type: format === 'json' ? 'application/json' : 'text/csv'
+          type: DataProcessor.getExportMimeType(format)
         });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
@@ -114,6 +147,66 @@ export default function Utilities({ dataPoints, graphData, onExport, onError }:
     }
   };
 
+  const clearEmbeddingCache = async (model?: string) => {
+    const target = model ? `cached embeddings for ${model}` : 'the entire embedding cache';
+    if (!window.confirm(`Delete ${target}? Future runs will re-embed these texts.`)) {
+      return;
+    }
+
+    setCacheBusy(true);
+    try {
+      await EmbeddingCache.clear(model);
+      await refreshCacheStats();
+    } catch (error: any) {
+      onError?.(`Failed to clear embedding cache: ${error.message}`);
+    } finally {
+      setCacheBusy(false);
+    }
+  };
+
+  const updateBudget = (key: keyof BudgetSettings, value: string) => {
+    const amount = parseFloat(value);
+    const next = { ...budget, [key]: Number.isFinite(amount) && amount > 0 ? amount : undefined };
+    setBudget(next);
+    CostLedger.setBudget(next);
+  };
+
+  const exportLedger = () => {
+    if (!ledger || ledger.length === 0) return;
+
+    const blob = new Blob([CostLedger.toCSV(ledger)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `embedding_costs_${new Date().toISOString().split('T')[0]}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const clearLedger = async () => {
+    if (!window.confirm('Delete the entire cost ledger? Monthly budget tracking restarts from zero.')) {
+      return;
+    }
+
+    try {
+      await CostLedger.clear();
+      await refreshLedger();
+    } catch (error: any) {
+      onError?.(`Failed to clear cost ledger: ${error.message}`);
+    }
+  };
+
+  const getMonthSpend = (): number => {
+    if (!ledger) return 0;
+    const now = new Date();
+    return ledger
+      .filter(entry => {
+        const started = new Date(entry.startedAt);
+        return started.getFullYear() === now.getFullYear() && started.getMonth() === now.getMonth();
+      })
+      .reduce((sum, entry) => sum + entry.cost, 0);
+  };
+
   const clearAllData = () => {
     if (window.confirm('Are you sure you want to clear all data? This action cannot be undone.')) {
       // This would trigger a callback to parent component
@@ -231,10 +324,11 @@ export default function Utilities({ dataPoints, graphData, onExport, onError }:
                 <label className="block text-xs text-gray-400 mb-1">Format</label>
                 <select
                   value={exportFormat}
-                  onChange={(e) => setExportFormat(e.target.value as 'json' | 'csv')}
+                  onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
                   className="w-full p-2 bg-gray-700 text-white rounded border border-gray-600 text-sm"
                 >
                   <option value="json">JSON</option>
+                  <option value="jsonl">JSONL</option>
                   <option value="csv">CSV</option>
                 </select>
               </div>
@@ -302,6 +396,136 @@ export default function Utilities({ dataPoints, graphData, onExport, onError }:
             </div>
           </div>
 
+          {/* Embedding Cache */}
+          {cacheStats && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium text-gray-300">Embedding Cache</h4>
+                <button
+                  onClick={refreshCacheStats}
+                  className="text-xs text-blue-400 hover:text-blue-300 transition-colors"
+                >
+                  Refresh
+                </button>
+              </div>
+              <div className="bg-gray-700/30 p-3 rounded text-xs space-y-2">
+                <div className="grid grid-cols-2 gap-2 text-gray-400">
+                  <div>Entries: <span className="text-white">{cacheStats.totalEntries.toLocaleString()}</span></div>
+                  <div>Size: <span className="text-white">{(cacheStats.approximateBytes / 1024 / 1024).toFixed(1)}MB</span></div>
+                </div>
+                {cacheStats.models.map(model => (
+                  <div key={`${model.model}:${model.dimensions}`} className="flex items-center justify-between gap-2 text-gray-400">
+                    <span className="truncate">
+                      <span className="text-white">{model.model}</span> ({model.dimensions}d) · {model.entries.toLocaleString()}
+                    </span>
+                    <button
+                      onClick={() => clearEmbeddingCache(model.model)}
+                      disabled={cacheBusy}
+                      className="text-red-400 hover:text-red-300 disabled:text-gray-500 transition-colors"
+                    >
+                      Clear
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => clearEmbeddingCache()}
+                disabled={cacheBusy || cacheStats.totalEntries === 0}
+                className="w-full p-2 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:cursor-not-allowed rounded transition-colors text-sm"
+              >
+                Clear Embedding Cache
+              </button>
+            </div>
+          )}
+
+          {/* Budget & Cost Ledger */}
+          {ledger && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium text-gray-300">Budget & Spending</h4>
+                <button
+                  onClick={refreshLedger}
+                  className="text-xs text-blue-400 hover:text-blue-300 transition-colors"
+                >
+                  Refresh
+                </button>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Per-session cap ($)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="No limit"
+                    value={budget.sessionLimit ?? ''}
+                    onChange={(e) => updateBudget('sessionLimit', e.target.value)}
+                    className="w-full p-2 bg-gray-700 text-white rounded border border-gray-600 text-sm placeholder-gray-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Monthly cap ($)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="No limit"
+                    value={budget.monthlyLimit ?? ''}
+                    onChange={(e) => updateBudget('monthlyLimit', e.target.value)}
+                    className="w-full p-2 bg-gray-700 text-white rounded border border-gray-600 text-sm placeholder-gray-500"
+                  />
+                </div>
+              </div>
+              <div className="bg-gray-700/30 p-3 rounded text-xs space-y-2">
+                <div className="text-gray-400">
+                  This month: <span className="text-white">${getMonthSpend().toFixed(4)}</span>
+                  {budget.monthlyLimit ? <> of <span className="text-white">${budget.monthlyLimit.toFixed(2)}</span></> : null}
+                </div>
+                {ledger.length === 0 ? (
+                  <div className="text-gray-500">No embedding runs recorded yet</div>
+                ) : (
+                  <div className="max-h-48 overflow-y-auto space-y-1">
+                    {ledger.map(entry => (
+                      <div key={entry.id} className="border-b border-gray-700 pb-1 text-gray-400">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-white truncate">{entry.datasetName}</span>
+                          <span className="text-white">${entry.cost.toFixed(4)}</span>
+                        </div>
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="truncate">
+                            {new Date(entry.startedAt).toLocaleString()} · {entry.model} ({entry.dimensions}d)
+                          </span>
+                          <span className={entry.status === 'completed' ? 'text-green-400' : entry.status === 'running' ? 'text-blue-400' : 'text-yellow-400'}>
+                            {entry.status.replace('_', ' ')}
+                          </span>
+                        </div>
+                        <div>
+                          {entry.embedded.toLocaleString()}/{entry.items.toLocaleString()} items · {entry.tokens.toLocaleString()} tokens
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={exportLedger}
+                  disabled={ledger.length === 0}
+                  className="p-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded transition-colors text-sm"
+                >
+                  Export CSV
+                </button>
+                <button
+                  onClick={clearLedger}
+                  disabled={ledger.length === 0}
+                  className="p-2 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:cursor-not-allowed rounded transition-colors text-sm"
+                >
+                  Clear Ledger
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Data Management */}
           <div className="space-y-2">
             <h4 className="text-sm font-medium text-gray-300">Data Management</h4>
@@ -3,6 +3,12 @@ import React, { useEffect, useRef, useCallback, useState } from 'react';
 import * as d3 from 'd3';
 import { GraphData, GraphNode, GraphLink, DataPoint, CATEGORY_COLORS, SearchResult } from '@/types';
 
+const SEMANTIC_LINK_COLOR = '#64748b';
+const AUTHORED_LINK_COLOR = '#a78bfa';
+
+// Authored links (e.g. Markdown wikilinks) are violet, dashed when no semantic link backs them
+const getLinkColor = (link: GraphLink) => link.type === 'authored' || link.type === 'both' ? AUTHORED_LINK_COLOR : SEMANTIC_LINK_COLOR;
+
 interface GraphVisualizationProps {
   graphData: GraphData;
   onNodeClick: (node: DataPoint) => void;
@@ -35,6 +41,7 @@ export default function GraphVisualization({
   // Get search result node IDs for quick lookup
   const searchResultIds = new Set(searchResults.map(r => r.node.id));
   const hasSearchResults = searchResults.length > 0;
+  const authoredLinkCount = graphData.links.filter(link => link.type === 'authored' || link.type === 'both').length;
 
   // Update dimensions on resize
   const updateDimensions = useCallback(() => {
@@ -116,7 +123,7 @@ export default function GraphVisualization({
 
         links
           .style('opacity', (l: any) => isConnectedLink(l) ? 1 : 0.1)
-          .attr('stroke', (l: any) => isConnectedLink(l) ? '#00ff88' : '#64748b')
+          .attr('stroke', (l: any) => isConnectedLink(l) ? '#00ff88' : getLinkColor(l))
           .attr('stroke-width', (l: any) => 
             isConnectedLink(l) ? Math.sqrt(l.similarity * 5) + 3 : Math.sqrt(l.similarity * 3) + 1
           );
@@ -138,7 +145,7 @@ export default function GraphVisualization({
 
       links
         .style('opacity', 0.6)
-        .attr('stroke', '#64748b')
+        .attr('stroke', getLinkColor)
         .attr('stroke-width', (d: any) => Math.sqrt(d.similarity * 3) + 1);
 
       labels.style('opacity', 0.9);
@@ -164,6 +171,9 @@ export default function GraphVisualization({
     const svg = d3.select(svgRef.current);
     const { width, height } = dimensions;
 
+    // Nodes carried over from the previous graph (appended data, resize) keep their positions and the view
+    const continuesLayout = graphData.nodes.some(node => node.x !== undefined);
+
     // Clear previous content
     svg.selectAll('*').remove();
 
@@ -178,6 +188,11 @@ export default function GraphVisualization({
 
     // Create main container
     const container = svg.append('g').attr('class', 'main-container');
+    if (continuesLayout) {
+      container.attr('transform', d3.zoomTransform(svgRef.current).toString());
+    } else {
+      svg.call(zoom.transform, d3.zoomIdentity);
+    }
 
     // Create groups for layers (order matters for rendering)
     const linksGroup = container.append('g').attr('class', 'links');
@@ -202,6 +217,22 @@ export default function GraphVisualization({
         .strength(0.8)
       );
 
+    if (continuesLayout) {
+      // Settle the new nodes in around the existing layout, which stays pinned until the simulation cools
+      const carriedOver = graphData.nodes.filter(node => node.x !== undefined);
+      carriedOver.forEach(node => {
+        node.fx = node.x;
+        node.fy = node.y;
+      });
+      simulation.alpha(0.3).on('end.release', () => {
+        carriedOver.forEach(node => {
+          node.fx = null;
+          node.fy = null;
+        });
+        simulation.on('end.release', null);
+      });
+    }
+
     simulationRef.current = simulation;
 
     // Create links
@@ -211,8 +242,9 @@ export default function GraphVisualization({
       .enter()
       .append('line')
       .attr('class', 'graph-link')
-      .attr('stroke', '#64748b')
+      .attr('stroke', getLinkColor)
       .attr('stroke-opacity', 0.6)
+      .attr('stroke-dasharray', d => d.type === 'authored' ? '5 3' : null)
       .attr('stroke-width', d => Math.sqrt(d.similarity * 3) + 1)
       .style('pointer-events', 'none');
 
@@ -357,7 +389,7 @@ export default function GraphVisualization({
 
       links
         .style('opacity', l => isConnectedLink(l) ? 1 : 0.1)
-        .attr('stroke', l => isConnectedLink(l) ? highlightColor : '#64748b')
+        .attr('stroke', l => isConnectedLink(l) ? highlightColor : getLinkColor(l))
         .attr('stroke-width', l => 
           isConnectedLink(l) ? Math.sqrt(l.similarity * 5) + 3 : Math.sqrt(l.similarity * 3) + 1
         );
@@ -375,7 +407,7 @@ export default function GraphVisualization({
       nodes.style('opacity', 1);
       links
         .style('opacity', 0.6)
-        .attr('stroke', '#64748b')
+        .attr('stroke', getLinkColor)
         .attr('stroke-width', d => Math.sqrt(d.similarity * 3) + 1);
       labels.style('opacity', 0.9);
     }
@@ -486,6 +518,22 @@ export default function GraphVisualization({
                 </div>
               ))}
             </div>
+            {authoredLinkCount > 0 && (
+              <div className="mt-2 pt-2 border-t border-gray-600 space-y-1 text-xs text-gray-200">
+                <div className="flex items-center gap-2">
+                  <svg width="20" height="4"><line x1="0" y1="2" x2="20" y2="2" stroke={SEMANTIC_LINK_COLOR} strokeWidth="2" /></svg>
+                  <span>Semantic link</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <svg width="20" height="4"><line x1="0" y1="2" x2="20" y2="2" stroke={AUTHORED_LINK_COLOR} strokeWidth="2" strokeDasharray="5 3" /></svg>
+                  <span>Authored link</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <svg width="20" height="4"><line x1="0" y1="2" x2="20" y2="2" stroke={AUTHORED_LINK_COLOR} strokeWidth="2" /></svg>
+                  <span>Authored and semantic</span>
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Search Results Indicator */}
@@ -524,6 +572,9 @@ export default function GraphVisualization({
               <div className="text-white font-medium mb-1">Graph Statistics</div>
               <div>Nodes: <span className="text-white font-medium">{graphData.nodes.length}</span></div>
               <div>Connections: <span className="text-white font-medium">{graphData.links.length}</span></div>
+              {authoredLinkCount > 0 && (
+                <div>Authored: <span className="font-medium" style={{ color: AUTHORED_LINK_COLOR }}>{authoredLinkCount}</span></div>
+              )}
               <div>Avg similarity: <span className="text-white font-medium">
                 {graphData.links.length > 0 
                   ? (graphData.links.reduce((sum, link) => sum + link.similarity, 0) / graphData.links.length).toFixed(3)
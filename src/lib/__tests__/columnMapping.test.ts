@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnMappings } from '@/lib/columnMapping';
+
+describe('ColumnMappings.detect', () => {
+  it('lists every column with samples, fill ratio and kind', () => {
+    const columns = ColumnMappings.detect([
+      { id: '1', body: 'First body', score: '0.5', vec: '[0.1, 0.2, 0.3]', meta: { a: 1 } },
+      { id: '2', body: 'Second body', score: 3, vec: [0.4, 0.5], extra: '' }
+    ]);
+
+    expect(columns.map(column => [column.name, column.kind, column.filledRatio])).toEqual([
+      ['id', 'number', 1],
+      ['body', 'text', 1],
+      ['score', 'number', 1],
+      ['vec', 'vector', 1],
+      ['meta', 'object', 0.5],
+      ['extra', 'empty', 0]
+    ]);
+    expect(columns.find(column => column.name === 'vec')!.samples).toEqual(['[3 values]', '[2 values]']);
+  });
+});
+
+describe('ColumnMappings.guess', () => {
+  it('reproduces the built-in field names', () => {
+    const mapping = ColumnMappings.guess(ColumnMappings.detect([
+      { id: 'a', title: 'Title', description: 'Described', label: 'x', embedding: '[1, 2]', embedding_info: '{}', year: 2024 }
+    ]));
+
+    expect(mapping).toEqual({
+      id: 'id',
+      text: ['title', 'description'],
+      textSeparator: '\n',
+      category: 'label',
+      embedding: 'embedding',
+      metadata: ['year']
+    });
+  });
+
+  it('falls back to the longest text column and any vector column for unfamiliar schemas', () => {
+    const mapping = ColumnMappings.guess(ColumnMappings.detect([
+      { name: 'Short', abstract: 'A much longer abstract of the paper', vectors: [0.1, 0.2] }
+    ]));
+
+    expect(mapping.text).toEqual(['abstract']);
+    expect(mapping.embedding).toBe('vectors');
+    expect(mapping.metadata).toEqual(['name']);
+  });
+});
+
+describe('ColumnMappings.validate', () => {
+  it('requires a text column', () => {
+    expect(ColumnMappings.validate({ text: [], textSeparator: '\n', metadata: [] })).toEqual(['Choose at least one text column']);
+    expect(ColumnMappings.validate({ text: ['body'], textSeparator: '\n', metadata: [] })).toEqual([]);
+  });
+
+  it('keys saved mappings by the set of column names', () => {
+    expect(ColumnMappings.getSignature(['b', 'a'])).toBe(ColumnMappings.getSignature(['a', 'b']));
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { parquetWriteBuffer } from 'hyparquet-writer';
+import { Field, Float32, List, makeVector, Table, tableToIPC, Utf8, vectorFromArray } from 'apache-arrow';
+import { ColumnarFiles } from '@/lib/columnarFiles';
+
+const file = (bytes: ArrayBuffer | Uint8Array, name: string) => new File([bytes], name);
+
+describe('ColumnarFiles.readParquet', () => {
+  it('reads rows with numbers, strings and list columns as plain values', async () => {
+    const buffer = parquetWriteBuffer({
+      columnData: [
+        { name: 'id', data: ['a', 'b'], type: 'STRING' },
+        { name: 'text', data: ['First row', 'Second row'], type: 'STRING' },
+        { name: 'count', data: [BigInt(3), BigInt(4)], type: 'INT64' },
+        { name: 'embedding', data: [[0.5, 1], [1.5, 2]] }
+      ]
+    });
+
+    const rows = await ColumnarFiles.read(file(buffer, 'data.parquet'));
+
+    expect(rows).toEqual([
+      { id: 'a', text: 'First row', count: 3, embedding: [0.5, 1] },
+      { id: 'b', text: 'Second row', count: 4, embedding: [1.5, 2] }
+    ]);
+  });
+});
+
+describe('ColumnarFiles.readArrow', () => {
+  const table = new Table({
+    id: vectorFromArray(['a', 'b'], new Utf8()),
+    text: vectorFromArray(['First row', 'Second row'], new Utf8()),
+    embedding: vectorFromArray([[0.5, 1], [1.5, 2]], new List(new Field('item', new Float32()))),
+    count: makeVector(new BigInt64Array([BigInt(3), BigInt(2) ** BigInt(60)]))
+  });
+  const expected = [
+    { id: 'a', text: 'First row', embedding: [0.5, 1], count: 3 },
+    { id: 'b', text: 'Second row', embedding: [1.5, 2], count: '1152921504606846976' }
+  ];
+
+  it('reads the IPC file format', async () => {
+    expect(await ColumnarFiles.read(file(tableToIPC(table, 'file'), 'data.arrow'))).toEqual(expected);
+  });
+
+  it('reads the IPC stream format', async () => {
+    expect(await ColumnarFiles.read(file(tableToIPC(table, 'stream'), 'data.arrows'))).toEqual(expected);
+  });
+});
+
+describe('ColumnarFiles file types', () => {
+  it('recognizes Parquet and Arrow file names', () => {
+    expect(ColumnarFiles.isParquet('DATA.PARQUET')).toBe(true);
+    expect(['a.arrow', 'a.arrows', 'a.feather', 'a.ipc'].every(name => ColumnarFiles.isArrow(name))).toBe(true);
+    expect(ColumnarFiles.isArrow('a.csv')).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { CostLedger } from '@/lib/costLedger';
+import { CostLedgerEntry } from '@/types';
+
+const entry = (id: string, startedAt: Date, cost: number, overrides: Partial<CostLedgerEntry> = {}): CostLedgerEntry => ({
+  id,
+  startedAt: startedAt.getTime(),
+  provider: 'OpenAI',
+  model: 'text-embedding-3-small',
+  dimensions: 1536,
+  datasetName: 'notes.csv',
+  items: 10,
+  embedded: 10,
+  tokens: 500,
+  cost,
+  status: 'completed',
+  ...overrides
+});
+
+beforeEach(async () => {
+  await CostLedger.clear();
+});
+
+describe('CostLedger', () => {
+  it('totals the runs started in the calendar month of a date', async () => {
+    await CostLedger.record(entry('before', new Date(2025, 2, 31, 23, 59), 5));
+    await CostLedger.record(entry('first', new Date(2025, 3, 1, 0, 0), 0.25));
+    await CostLedger.record(entry('last', new Date(2025, 3, 30, 23, 59), 0.5));
+    await CostLedger.record(entry('after', new Date(2025, 4, 1, 0, 0), 7));
+
+    expect(await CostLedger.getMonthTotal(new Date(2025, 3, 15))).toBe(0.75);
+    expect(await CostLedger.getMonthTotal(new Date(2025, 3, 15), 'last')).toBe(0.25);
+  });
+
+  it('updates a run in place and lists runs newest first', async () => {
+    await CostLedger.record(entry('old', new Date(2025, 0, 1), 1));
+    await CostLedger.record(entry('new', new Date(2025, 0, 2), 0, { status: 'running' }));
+    await CostLedger.record(entry('new', new Date(2025, 0, 2), 2, { status: 'cancelled' }));
+
+    const entries = await CostLedger.list();
+    expect(entries.map(e => [e.id, e.cost, e.status])).toEqual([['new', 2, 'cancelled'], ['old', 1, 'completed']]);
+  });
+
+  it('exports runs as CSV', () => {
+    const csv = CostLedger.toCSV([
+      entry('run', new Date(Date.UTC(2025, 0, 2)), 0.0000125, { datasetName: 'my "notes".csv', finishedAt: Date.UTC(2025, 0, 2, 0, 1) })
+    ]);
+
+    expect(csv.split('\n')).toEqual([
+      'started_at,finished_at,provider,model,dimensions,dataset,items,embedded,tokens,cost_usd,status',
+      '2025-01-02T00:00:00.000Z,2025-01-02T00:01:00.000Z,"OpenAI","text-embedding-3-small",1536,"my ""notes"".csv",10,10,500,0.000013,completed'
+    ]);
+  });
+});
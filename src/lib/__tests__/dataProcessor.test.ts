@@ -0,0 +1,372 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DataProcessor } from '@/lib/dataProcessor';
+import { MarkdownVault } from '@/lib/markdownVault';
+import { TextTemplates } from '@/lib/textTemplates';
+import { ColumnMapping, DataPoint, GraphData, GraphNode } from '@/types';
+
+// A Blob whose stream yields the text in fixed-size byte chunks
+function chunkedFile(text: string, chunkSize: number): Blob {
+  const bytes = new TextEncoder().encode(text);
+  return {
+    size: bytes.length,
+    stream: () => new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let i = 0; i < bytes.length; i += chunkSize) {
+          controller.enqueue(bytes.slice(i, i + chunkSize));
+        }
+        controller.close();
+      }
+    })
+  } as unknown as Blob;
+}
+
+describe('DataProcessor.assertCompatibleEmbeddings', () => {
+  const embedded = (id: string, model: string, dimensions: number, templateHash?: string): DataPoint => ({
+    id,
+    text: `Text of ${id}`,
+    embedding: new Array(dimensions).fill(0.5),
+    embeddingInfo: { provider: 'openai', model, dimensions, createdAt: '2025-01-01T00:00:00Z', templateHash }
+  });
+
+  it('accepts one model, alongside vectors without provenance of the same size', () => {
+    expect(() => DataProcessor.assertCompatibleEmbeddings([
+      embedded('a', 'text-embedding-3-small', 3),
+      embedded('b', 'text-embedding-3-small', 3),
+      { id: 'c', text: 'Imported vector', embedding: [0, 1, 0] },
+      { id: 'd', text: 'Not embedded' }
+    ])).not.toThrow();
+  });
+
+  it('refuses vectors from different models or of different sizes', () => {
+    expect(() => DataProcessor.assertCompatibleEmbeddings([
+      embedded('a', 'text-embedding-3-small', 3),
+      embedded('b', 'text-embedding-3-large', 3)
+    ])).toThrow(/text-embedding-3-small \(3d\): 1 items, text-embedding-3-large \(3d\): 1 items/);
+    expect(() => DataProcessor.assertCompatibleEmbeddings([
+      embedded('a', 'text-embedding-3-small', 3),
+      { id: 'b', text: 'Imported vector', embedding: [0, 1] }
+    ])).toThrow(/different models/);
+  });
+
+  it('refuses vectors made from different text templates', () => {
+    expect(() => DataProcessor.assertCompatibleEmbeddings([
+      embedded('a', 'text-embedding-3-small', 3, TextTemplates.hash('{{text}}')),
+      embedded('b', 'text-embedding-3-small', 3, TextTemplates.hash('{{text}}\n{{metadata.title}}'))
+    ])).toThrow(/2 different text templates/);
+  });
+
+  it('guards the node recommendations that compare vectors', () => {
+    const target = embedded('a', 'text-embedding-3-small', 3);
+
+    expect(DataProcessor.findSimilarNodes(target, [target, embedded('b', 'text-embedding-3-small', 3)]))
+      .toHaveLength(1);
+    expect(() => DataProcessor.findSimilarNodes(target, [embedded('b', 'text-embedding-3-large', 3)]))
+      .toThrow(/different models/);
+  });
+});
+
+describe('DataProcessor.streamCSVFile', () => {
+  const batchBytes = Object.getOwnPropertyDescriptor(DataProcessor, 'STREAM_BATCH_BYTES')!;
+
+  beforeEach(() => {
+    // Parse after every few bytes so records straddle batch boundaries
+    Object.defineProperty(DataProcessor, 'STREAM_BATCH_BYTES', { ...batchBytes, value: 16 });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    Object.defineProperty(DataProcessor, 'STREAM_BATCH_BYTES', batchBytes);
+    vi.restoreAllMocks();
+  });
+
+  const csv = [
+    'id,text,category',
+    'a,"Quoted, with a comma",x',
+    'b,"Line one',
+    'line two with ""escaped"" quotes",y',
+    'c,Plain row,z',
+    'd,ab,z',
+    'e,Last row without newline,z'
+  ].join('\n');
+
+  it.each([1, 5, 64])('keeps quoted fields whole when read in %i-byte chunks', async chunkSize => {
+    const batches: DataPoint[][] = [];
+    const { rows, issues } = await DataProcessor.streamCSVFile(chunkedFile(csv, chunkSize), points => batches.push(points));
+    const points = batches.flat();
+
+    expect(batches.length).toBeGreaterThan(1);
+    expect(rows).toBe(5);
+    expect(points.map(point => point.id)).toEqual(['a', 'b', 'c', 'e']);
+    expect(points[0].text).toBe('Quoted, with a comma');
+    expect(points[1].text).toBe('Line one\nline two with "escaped" quotes');
+    expect(points[1].category).toBe('y');
+    expect(issues).toEqual([
+      { kind: 'skipped_row', line: 6, id: 'd', message: 'Text shorter than 3 characters' }
+    ]);
+  });
+
+  it('reports line numbers across batches and multi-line records', async () => {
+    const text = 'id,text\n"q1","multi\nline\ntext"\n\nq2,ok text\nq3,\n';
+    const { issues } = await DataProcessor.streamCSVFile(chunkedFile(text, 3), () => {});
+
+    expect(issues).toEqual([{ kind: 'skipped_row', line: 7, id: 'q3', message: 'No text' }]);
+  });
+});
+
+describe('DataProcessor.applyColumnMapping', () => {
+  const mapping: ColumnMapping = {
+    id: 'key',
+    text: ['title', 'body'],
+    textSeparator: ' - ',
+    category: 'kind',
+    embedding: 'vector',
+    metadata: ['year', 'metadata', 'notes']
+  };
+
+  it('builds a point from the mapped columns', () => {
+    const point = DataProcessor.applyColumnMapping({
+      key: ' k1 ',
+      title: 'Title',
+      body: '  Body ',
+      kind: 'paper',
+      vector: '[0.5, 0.25]',
+      embedding_info: '{"provider":"openai","model":"text-embedding-3-small","dimensions":2}',
+      year: 2024,
+      metadata: '{"author":"Ada","pages":3}',
+      notes: '',
+      ignored: 'not mapped'
+    }, 0, mapping);
+
+    expect(point).toEqual({
+      id: 'k1',
+      text: 'Title - Body',
+      category: 'paper',
+      embedding: [0.5, 0.25],
+      embeddingInfo: { provider: 'openai', model: 'text-embedding-3-small', dimensions: 2, createdAt: '', templateHash: undefined },
+      metadata: { year: 2024, author: 'Ada', pages: 3 }
+    });
+  });
+
+  it('numbers rows without an id and skips empty text columns', () => {
+    const point = DataProcessor.applyColumnMapping({ title: '', body: 'Only body', vector: [1, 2] }, 4, mapping);
+
+    expect(point.id).toBe('item_5');
+    expect(point.text).toBe('Only body');
+    expect(point.category).toBeUndefined();
+    expect(point.embedding).toEqual([1, 2]);
+    expect(point.metadata).toBeUndefined();
+  });
+
+  it('reports an embedding that is not valid JSON and keeps the row', () => {
+    const onInvalidEmbedding = vi.fn();
+    const point = DataProcessor.applyColumnMapping({ key: 'k2', title: 'Title', vector: '[0.5,' }, 1, mapping, onInvalidEmbedding);
+
+    expect(point.embedding).toBeUndefined();
+    expect(onInvalidEmbedding).toHaveBeenCalledWith(expect.stringMatching(/^Embedding is not valid JSON/));
+  });
+
+  it('is applied while streaming a CSV file', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const batches: DataPoint[][] = [];
+    await DataProcessor.streamCSVFile(
+      chunkedFile('key,title,body,kind\nk1,First,Row one,x\nk2,Second,Row two,y\n', 8),
+      points => batches.push(points),
+      { columnMapping: { ...mapping, embedding: undefined, metadata: [] } }
+    );
+
+    expect(batches.flat().map(point => [point.id, point.text, point.category])).toEqual([
+      ['k1', 'First - Row one', 'x'],
+      ['k2', 'Second - Row two', 'y']
+    ]);
+    vi.restoreAllMocks();
+  });
+});
+
+describe('DataProcessor.streamJSONLFile', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const jsonl = [
+    '{"id":"a","text":"First item","category":"x","embedding":[1,0]}',
+    '',
+    '{"id":"b","text":"Second item with unicode \u00e9\u00e8"}',
+    '{"id":"c","text":"Broken',
+    '[1,2,3]',
+    '{"id":"d","text":"Bad vector","embedding":"oops"}',
+    '{"id":"e","text":"No newline at the end"}'
+  ].join('\n');
+
+  it.each([1, 7, 4096])('parses objects split across %i-byte chunks and reports bad lines', async chunkSize => {
+    const batches: DataPoint[][] = [];
+    const { rows, issues } = await DataProcessor.streamJSONLFile(chunkedFile(jsonl, chunkSize), points => batches.push(points));
+    const points = batches.flat();
+
+    expect(rows).toBe(4);
+    expect(points.map(point => point.id)).toEqual(['a', 'b', 'd', 'e']);
+    expect(points[0]).toMatchObject({ category: 'x', embedding: [1, 0] });
+    expect(points[1].text).toBe('Second item with unicode \u00e9\u00e8');
+    expect(points[2].embedding).toBeUndefined();
+    expect(issues).toEqual([
+      { kind: 'skipped_row', line: 4, message: expect.stringMatching(/^Invalid JSON/) },
+      { kind: 'skipped_row', line: 5, message: 'Line is not a JSON object' },
+      { kind: 'invalid_embedding', line: 6, message: 'Embedding is not a list of numbers' }
+    ]);
+  });
+
+  it('hands rows over in batches of the chunk size', async () => {
+    const text = Array.from({ length: 5 }, (_, index) => JSON.stringify({ id: `p${index}`, text: `Item ${index}` })).join('\n');
+    const sizes: number[] = [];
+    await DataProcessor.streamJSONLFile(chunkedFile(text, 4096), points => sizes.push(points.length), { chunkSize: 2 });
+
+    expect(sizes).toEqual([2, 2, 1]);
+  });
+
+  it('reads back its own export', async () => {
+    const points: DataPoint[] = [
+      { id: 'a', text: 'Line one\nline two', embedding: [0.5, 1], metadata: { tags: ['x'] } },
+      { id: 'b', text: 'Quote " and comma,', embedding: [1, 0.5] }
+    ];
+    const exported = DataProcessor.exportData(points, 'jsonl');
+    const batches: DataPoint[][] = [];
+    await DataProcessor.streamJSONLFile(chunkedFile(exported, 3), batch => batches.push(batch));
+
+    expect(exported.split('\n')).toHaveLength(3);
+    expect(batches.flat()).toEqual(points.map(point => expect.objectContaining(point)));
+  });
+});
+
+describe('DataProcessor.mergeSources', () => {
+  const point = (id: string): DataPoint => ({ id, text: `Text of ${id}` });
+
+  it('prefixes ids shared by several files with the file name', () => {
+    const { data, renamedIds } = DataProcessor.mergeSources([
+      { name: 'a.md', data: [point('n1'), point('only-a')] },
+      { name: 'b.md', data: [point('n1'), point('only-b')] }
+    ]);
+
+    expect(data.map(p => p.id)).toEqual(['a.md:n1', 'only-a', 'b.md:n1', 'only-b']);
+    expect(renamedIds).toEqual([1, 1]);
+    expect(data.map(p => p.metadata?.sourceFile)).toEqual(['a.md', 'a.md', 'b.md', 'b.md']);
+  });
+
+  it('adds a suffix when a prefixed id is already taken', () => {
+    const { data } = DataProcessor.mergeSources([
+      { name: 'c', data: [point('b:x')] },
+      { name: 'a', data: [point('x')] },
+      { name: 'b', data: [point('x')] }
+    ]);
+
+    expect(data.map(p => p.id)).toEqual(['b:x', 'a:x', 'b:x#2']);
+  });
+
+  it('points vault links at the renamed note when another file uses the same id', () => {
+    const [index, guide] = MarkdownVault.parseVault([
+      { path: 'Index.md', content: 'Start here.' },
+      { path: 'Guide.md', content: 'See [[Index]] first.' }
+    ]);
+    const { data } = DataProcessor.mergeSources([
+      { name: 'ids.csv', data: [point('Index')] },
+      { name: 'Index.md', data: index, group: 'vault' },
+      { name: 'Guide.md', data: guide, group: 'vault' }
+    ]);
+
+    expect(data.map(p => p.id)).toEqual(['ids.csv:Index', 'Index.md:Index', 'Guide']);
+    expect(data[2].metadata?.links).toEqual(['Index.md:Index']);
+  });
+
+  it('keeps the links of two vaults apart when they share a note name', () => {
+    const note = (id: string, links: string[]): DataPoint => ({ ...point(id), metadata: { links } });
+    const { data } = DataProcessor.mergeSources([
+      { name: 'work/Index.md', data: [note('Index', [])], group: 'work' },
+      { name: 'work/Guide.md', data: [note('Guide', ['Index'])], group: 'work' },
+      { name: 'home/Index.md', data: [note('Index', [])], group: 'home' },
+      { name: 'home/Todo.md', data: [note('Todo', ['Index', 'Missing'])], group: 'home' }
+    ]);
+
+    expect(data.map(p => [p.id, p.metadata?.links])).toEqual([
+      ['work/Index.md:Index', []],
+      ['Guide', ['work/Index.md:Index']],
+      ['home/Index.md:Index', []],
+      ['Todo', ['home/Index.md:Index', 'Missing']]
+    ]);
+  });
+});
+
+describe('DataProcessor.extendGraph', () => {
+  const point = (id: string, embedding: number[]): DataPoint => ({
+    id,
+    text: `Text of ${id}`,
+    embedding,
+    embeddingInfo: { provider: 'openai', model: 'text-embedding-3-small', dimensions: 3, createdAt: '2025-01-01T00:00:00Z' }
+  });
+  const node = (id: string, embedding: number[], x: number, y: number): GraphNode => ({ ...point(id, embedding), x, y });
+
+  const buildGraph = (): GraphData => {
+    const nodes = [node('a', [1, 0, 0], 100, 100), node('b', [0, 1, 0], 300, 100), node('c', [0, 0, 1], 200, 300)];
+    // A running layout replaces link ends with the node objects
+    const links = [{ source: nodes[0], target: nodes[1], similarity: 0.4 }] as any[];
+    return { nodes, links };
+  };
+
+  it('adds new nodes next to their closest neighbour and keeps the existing nodes', () => {
+    const graph = buildGraph();
+    const extended = DataProcessor.extendGraph(graph, [point('d', [0.9, 0.1, 0])], 'top3');
+
+    expect(extended.nodes.slice(0, 3)).toEqual(graph.nodes);
+    extended.nodes.slice(0, 3).forEach((existing, index) => expect(existing).toBe(graph.nodes[index]));
+
+    expect(extended.links[0]).toMatchObject({ source: 'a', target: 'b' });
+    const newLinks = extended.links.slice(1);
+    expect(newLinks.map(link => link.target)).toEqual(['a', 'b']);
+    expect(newLinks.every(link => link.source === 'd')).toBe(true);
+
+    const added = extended.nodes[3];
+    expect(Math.abs(added.x! - 100)).toBeLessThanOrEqual(10);
+    expect(Math.abs(added.y! - 100)).toBeLessThanOrEqual(10);
+  });
+
+  it('skips points already in the graph or without an embedding', () => {
+    const graph = buildGraph();
+    const extended = DataProcessor.extendGraph(graph, [point('a', [1, 0, 0]), { id: 'e', text: 'No vector yet' }]);
+    expect(extended).toBe(graph);
+  });
+
+  it('refuses vectors from another model', () => {
+    const incoming: DataPoint = {
+      id: 'd',
+      text: 'Other model',
+      embedding: [1, 0, 0],
+      embeddingInfo: { provider: 'local', model: 'local-tfidf', dimensions: 3, createdAt: '2025-01-01T00:00:00Z' }
+    };
+    expect(() => DataProcessor.extendGraph(buildGraph(), [incoming])).toThrow(/different models/);
+  });
+});
+
+describe('DataProcessor.assertCanExtendEmbeddings', () => {
+  const embedded: DataPoint[] = [{
+    id: 'a',
+    text: 'Embedded',
+    embedding: [1, 0, 0],
+    embeddingInfo: { provider: 'openai', model: 'text-embedding-3-small', dimensions: 3, createdAt: '2025-01-01T00:00:00Z' }
+  }, { id: 'b', text: 'Not embedded yet' }];
+
+  it('accepts the model and size the dataset was embedded with', () => {
+    expect(() => DataProcessor.assertCanExtendEmbeddings(embedded, {
+      provider: 'openai', model: 'text-embedding-3-small', dimensions: 3
+    })).not.toThrow();
+  });
+
+  it('refuses another model or size before anything is embedded', () => {
+    expect(() => DataProcessor.assertCanExtendEmbeddings(embedded, {
+      provider: 'openai', model: 'text-embedding-3-large', dimensions: 3
+    })).toThrow(/text-embedding-3-small/);
+    expect(() => DataProcessor.assertCanExtendEmbeddings(embedded, {
+      provider: 'openai', model: 'text-embedding-3-small', dimensions: 256
+    })).toThrow(/256d/);
+  });
+});
@@ -0,0 +1,119 @@
+// @vitest-environment happy-dom
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DocumentText } from '@/lib/documentText';
+import { DataPoint } from '@/types';
+
+// A PDF with one Helvetica text line per page, with a valid cross-reference table
+function pdfWithPages(pages: string[]): File {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${4 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+  ];
+  pages.forEach((text, index) => {
+    const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + index * 2} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new File([pdf], 'report.pdf', { type: 'application/pdf' });
+}
+
+describe('DocumentText.extractHTML', () => {
+  it('keeps the main content as paragraphs and drops page furniture', () => {
+    const { title, text } = DocumentText.extractHTML(`
+      <html><head><title> Release notes </title><style>p { color: red }</style></head>
+      <body>
+        <nav><a href="/">Home</a></nav>
+        <header>Site banner</header>
+        <main>
+          <h1>Version 2</h1>
+          <p>Faster   imports,
+             fewer clicks.</p>
+          <ul><li>Streaming CSV</li><li>JSONL export</li></ul>
+          <p>Line one<br>line two</p>
+          <div aria-hidden="true">Hidden</div>
+          <script>track()</script>
+        </main>
+        <footer>Copyright</footer>
+      </body></html>
+    `);
+
+    expect(title).toBe('Release notes');
+    expect(text).toBe('Version 2\n\nFaster imports, fewer clicks.\n\n• Streaming CSV\n\n• JSONL export\n\nLine one\nline two');
+  });
+
+  it('uses a single article, else the whole body, and falls back to the first heading for the title', () => {
+    const article = DocumentText.extractHTML('<body><aside>Related</aside><article><h1>Post</h1><p>Body</p></article></body>');
+    expect(article).toEqual({ title: 'Post', text: 'Post\n\nBody' });
+
+    const body = DocumentText.extractHTML('<body><article><p>One</p></article><article><p>Two</p></article></body>');
+    expect(body.text).toBe('One\n\nTwo');
+  });
+});
+
+// Node needs the legacy build of pdf.js, with its worker run in-process
+vi.mock('pdfjs-dist', () => import('pdfjs-dist/legacy/build/pdf.mjs'));
+
+describe('DocumentText.extractPDF', () => {
+  beforeAll(async () => {
+    const pdfjs = await import('pdfjs-dist');
+    pdfjs.GlobalWorkerOptions.workerSrc = 'pdfjs-dist/legacy/build/pdf.worker.mjs';
+  });
+
+  beforeEach(() => {
+    // pdf.js warns that it substitutes the standard fonts
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('extracts the text of every page with the offset where each page starts', async () => {
+    const { text, pageStarts } = await DocumentText.extractPDF(pdfWithPages(['First page text', 'Second page text']));
+
+    expect(text).toBe('First page text\n\nSecond page text');
+    expect(pageStarts).toEqual([0, 17]);
+  });
+
+  it('refuses PDFs without a text layer', async () => {
+    await expect(DocumentText.extractPDF(pdfWithPages(['']))).rejects.toThrow(/no text layer/);
+  });
+});
+
+describe('DocumentText.addPageNumbers', () => {
+  const chunk = (id: string, startPosition?: number, endPosition?: number): DataPoint => ({
+    id,
+    text: id,
+    metadata: startPosition === undefined ? undefined : { startPosition, endPosition }
+  });
+
+  it('sets the page of each chunk and the last page of chunks that run over', () => {
+    const points = DocumentText.addPageNumbers(
+      [chunk('a', 0, 10), chunk('b', 90, 120), chunk('c', 100, 150), chunk('d', 250, 260), chunk('e')],
+      [0, 100, 200]
+    );
+
+    expect(points.map(point => [point.metadata?.page, point.metadata?.pageEnd])).toEqual([
+      [1, undefined],
+      [1, 2],
+      [2, undefined],
+      [3, undefined],
+      [undefined, undefined]
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { EmbeddingCache } from '@/lib/embeddingCache';
+
+beforeEach(async () => {
+  await EmbeddingCache.clear();
+});
+
+describe('EmbeddingCache.createKey', () => {
+  const scope = { provider: 'openai', model: 'text-embedding-3-small', dimensions: 1536 };
+
+  it('is a SHA-256 hex digest that depends on the provider, endpoint, model, size and text', async () => {
+    const key = await EmbeddingCache.createKey(scope, 'Hello');
+
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(await EmbeddingCache.createKey({ ...scope }, 'Hello')).toBe(key);
+    expect(await EmbeddingCache.createKey({ ...scope, provider: 'openai-compatible' }, 'Hello')).not.toBe(key);
+    expect(await EmbeddingCache.createKey({ ...scope, endpoint: 'http://localhost:8080/v1/embeddings' }, 'Hello')).not.toBe(key);
+    expect(await EmbeddingCache.createKey({ ...scope, model: 'text-embedding-3-large' }, 'Hello')).not.toBe(key);
+    expect(await EmbeddingCache.createKey({ ...scope, dimensions: 512 }, 'Hello')).not.toBe(key);
+    expect(await EmbeddingCache.createKey(scope, 'Hello!')).not.toBe(key);
+  });
+
+  it('depends on how an over-length text was shortened', async () => {
+    const key = await EmbeddingCache.createKey(scope, 'Long text', 'truncate:8191');
+
+    expect(await EmbeddingCache.createKey(scope, 'Long text')).not.toBe(key);
+    expect(await EmbeddingCache.createKey(scope, 'Long text', 'mean:8191')).not.toBe(key);
+  });
+});
+
+describe('EmbeddingCache storage', () => {
+  it('returns stored vectors and undefined for unknown keys', async () => {
+    await EmbeddingCache.putMany([{ key: 'k1', embedding: [0.5, -1] }, { key: 'k2', embedding: [0.25, 2] }], 'model-a', 2);
+
+    expect(await EmbeddingCache.getMany(['k2', 'missing', 'k1'])).toEqual([[0.25, 2], undefined, [0.5, -1]]);
+  });
+
+  it('summarizes entries per model and clears a single model', async () => {
+    await EmbeddingCache.putMany([{ key: 'a1', embedding: [1, 0] }, { key: 'a2', embedding: [0, 1] }], 'model-a', 2);
+    await EmbeddingCache.putMany([{ key: 'b1', embedding: [1, 0, 0] }], 'model-b', 3);
+
+    const stats = await EmbeddingCache.getStats();
+    expect(stats.totalEntries).toBe(3);
+    expect(stats.models.map(model => [model.model, model.dimensions, model.entries])).toEqual([
+      ['model-a', 2, 2],
+      ['model-b', 3, 1]
+    ]);
+
+    await EmbeddingCache.clear('model-a');
+    expect(await EmbeddingCache.getMany(['a1', 'b1'])).toEqual([undefined, [1, 0, 0]]);
+  });
+});
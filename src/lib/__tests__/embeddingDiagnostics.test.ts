@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { EmbeddingDiagnostics } from '@/lib/embeddingDiagnostics';
+import { DataPoint } from '@/types';
+
+const DIMENSIONS = 8;
+
+// Unit vector along one axis, optionally tilted towards the next axis
+function axis(index: number, tilt: number = 0): number[] {
+  const vector = new Array(DIMENSIONS).fill(0);
+  vector[index % DIMENSIONS] = 1;
+  vector[(index + 1) % DIMENSIONS] += tilt;
+  return vector;
+}
+
+const point = (id: string, embedding?: number[], category?: string): DataPoint => ({ id, text: `Text of ${id}`, embedding, category });
+
+describe('EmbeddingDiagnostics.analyze', () => {
+  it('reports nothing for well-spread unit vectors', () => {
+    const report = EmbeddingDiagnostics.analyze([0, 1, 2, 3, 4, 5].map(index => point(`p${index}`, axis(index))));
+
+    expect(report.status).toBe('ok');
+    expect(report.issues).toEqual([]);
+    expect(report.dimensions).toBe(DIMENSIONS);
+    expect(report.meanPairwiseCosine).toBeLessThan(0.5);
+    expect(EmbeddingDiagnostics.hasBlockingIssues(report)).toBe(false);
+  });
+
+  it('flags NaN, zero and wrongly sized vectors as blocking errors', () => {
+    const report = EmbeddingDiagnostics.analyze([
+      point('a', axis(0)),
+      point('b', axis(1)),
+      point('c', axis(2)),
+      point('nan', [NaN, ...axis(3).slice(1)]),
+      point('zero', new Array(DIMENSIONS).fill(0)),
+      point('short', [1, 0]),
+      point('none')
+    ]);
+
+    expect(report.status).toBe('error');
+    expect(report.withEmbeddings).toBe(6);
+    expect(report.invalidIds).toEqual(['nan']);
+    expect(report.zeroIds).toEqual(['zero']);
+    expect(report.dimensionMismatchIds).toEqual(['short']);
+    expect(report.issues.map(issue => issue.type)).toEqual(['invalid_values', 'zero_vector', 'dimension_mismatch']);
+    expect(report.issues[2].message).toBe('1 embeddings have 2 dimensions instead of 8');
+    expect(EmbeddingDiagnostics.hasBlockingIssues(report)).toBe(true);
+  });
+
+  it('separates identical vectors from near duplicates', () => {
+    const report = EmbeddingDiagnostics.analyze([
+      point('a', axis(0)),
+      point('a-copy', axis(0)),
+      point('b', axis(2)),
+      point('b-close', axis(2, 0.05)),
+      point('c', axis(4)),
+      point('d', axis(6))
+    ]);
+
+    expect(report.status).toBe('warning');
+    expect(report.exactDuplicateGroups).toEqual([['a', 'a-copy']]);
+    expect(report.nearDuplicates).toEqual([{ id1: 'b', id2: 'b-close', similarity: expect.closeTo(0.9988, 3) }]);
+    expect(report.issues.map(issue => issue.type)).toEqual(['exact_duplicate', 'near_duplicate']);
+  });
+
+  it('finds near duplicates by hashing above the all-pairs limit', () => {
+    const points = [0, 1, 2, 3, 4, 5, 6, 7].map(index => point(`p${index}`, axis(index)));
+    points.push(point('p3-close', axis(3, 0.02)));
+
+    const report = EmbeddingDiagnostics.analyze(points, { exactPairLimit: 4 });
+
+    expect(report.nearDuplicatesApproximate).toBe(true);
+    expect(report.nearDuplicates.map(pair => [pair.id1, pair.id2])).toEqual([['p3', 'p3-close']]);
+    expect(report.issues.find(issue => issue.type === 'near_duplicate')!.message).toMatch(/sampled by hashing/);
+  });
+
+  it('warns when all vectors crowd into a narrow cone', () => {
+    const report = EmbeddingDiagnostics.analyze([1, 2, 3, 4, 5].map(index => {
+      const vector = new Array(DIMENSIONS).fill(1);
+      vector[index] += 1;
+      return point(`p${index}`, vector);
+    }));
+
+    expect(report.meanPairwiseCosine).toBeGreaterThan(0.5);
+    expect(report.issues.map(issue => issue.type)).toContain('anisotropy');
+  });
+
+  it('points out items far from their category centroid', () => {
+    const members = [0.1, 0.12, 0.14, 0.16, 0.18, 0.2].map((tilt, index) => point(`x${index}`, axis(0, tilt), 'x'));
+    const report = EmbeddingDiagnostics.analyze([...members, point('stray', axis(4), 'x')], { nearDuplicateThreshold: 1.1 });
+
+    expect(report.outliers.map(outlier => outlier.id)).toEqual(['stray']);
+    expect(report.issues.find(issue => issue.type === 'category_outlier')!.severity).toBe('info');
+  });
+});
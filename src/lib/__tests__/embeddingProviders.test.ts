@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  buildEmbeddingsUrl,
+  DEFAULT_AZURE_API_VERSION,
+  EmbeddingProviderRegistry,
+  normalizeEndpointUrl,
+  parseExtraHeaders
+} from '@/lib/embeddingProviders';
+
+// Answers every request with one vector per input and records what was sent
+function mockFetch() {
+  const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+    const { input } = JSON.parse(init.body as string);
+    return new Response(JSON.stringify({
+      object: 'list',
+      data: input.map((_: string, index: number) => ({ object: 'embedding', embedding: [1, 0, 0], index })),
+      model: 'test',
+      usage: { prompt_tokens: 3, total_tokens: 3 }
+    }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('buildEmbeddingsUrl', () => {
+  it('appends /embeddings to a base URL once', () => {
+    expect(buildEmbeddingsUrl('http://localhost:11434/v1/')).toBe('http://localhost:11434/v1/embeddings');
+    expect(buildEmbeddingsUrl('https://gateway.example.com/v1/embeddings')).toBe('https://gateway.example.com/v1/embeddings');
+  });
+
+  it('builds the Azure deployment path with the default API version', () => {
+    expect(buildEmbeddingsUrl('https://res.openai.azure.com/openai', 'my embed')).toBe(
+      `https://res.openai.azure.com/openai/deployments/my%20embed/embeddings?api-version=${DEFAULT_AZURE_API_VERSION}`
+    );
+    expect(buildEmbeddingsUrl('https://res.openai.azure.com', 'embed', '2024-06-01')).toBe(
+      'https://res.openai.azure.com/openai/deployments/embed/embeddings?api-version=2024-06-01'
+    );
+  });
+
+  it('requires a base URL', () => {
+    expect(() => buildEmbeddingsUrl('  ')).toThrow(/base URL is required/);
+  });
+});
+
+describe('normalizeEndpointUrl', () => {
+  it('gives one spelling per endpoint', () => {
+    expect(normalizeEndpointUrl(' HTTP://LocalHost:80/v1/embeddings/ ')).toBe('http://localhost/v1/embeddings');
+    expect(normalizeEndpointUrl('https://res.openai.azure.com/openai/deployments/embed/embeddings?api-version=2024-02-01'))
+      .toBe('https://res.openai.azure.com/openai/deployments/embed/embeddings?api-version=2024-02-01');
+    expect(normalizeEndpointUrl('/api/embeddings/')).toBe('/api/embeddings');
+  });
+
+  it('is what providers report as their endpoint', () => {
+    const local = EmbeddingProviderRegistry.create('openai-compatible', {
+      baseUrl: 'http://LOCALHOST:8080/v1/',
+      model: 'nomic-embed-text',
+      authScheme: 'none'
+    });
+    const gateway = EmbeddingProviderRegistry.create('openai-compatible', {
+      baseUrl: 'http://localhost:8081/v1',
+      model: 'nomic-embed-text',
+      authScheme: 'none'
+    });
+
+    expect(local.endpoint).toBe('http://localhost:8080/v1/embeddings');
+    expect(gateway.endpoint).not.toBe(local.endpoint);
+  });
+});
+
+describe('parseExtraHeaders', () => {
+  it('reads one header per line and skips blanks and comments', () => {
+    expect(parseExtraHeaders('X-Team: search\n\n# note\nX-Trace :  a:b ')).toEqual({
+      'X-Team': 'search',
+      'X-Trace': 'a:b'
+    });
+  });
+
+  it('names the line of a malformed header', () => {
+    expect(() => parseExtraHeaders('X-Ok: 1\nno separator')).toThrow('Invalid header on line 2');
+    expect(() => parseExtraHeaders('Bad Name: 1')).toThrow('Invalid header on line 1');
+  });
+});
+
+describe('OpenAI-compatible providers', () => {
+  it('send Azure requests to the deployment with an api-key header and no model', async () => {
+    const fetchMock = mockFetch();
+    const provider = EmbeddingProviderRegistry.create('openai-compatible', {
+      apiKey: 'azure-key',
+      baseUrl: 'https://res.openai.azure.com/',
+      deployment: 'embed',
+      authScheme: 'api-key',
+      headers: { 'X-Team': 'search' }
+    });
+
+    const result = await provider.embedBatch(['hello']);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(`https://res.openai.azure.com/openai/deployments/embed/embeddings?api-version=${DEFAULT_AZURE_API_VERSION}`);
+    expect(init.headers).toMatchObject({ 'api-key': 'azure-key', 'X-Team': 'search' });
+    expect(init.headers).not.toHaveProperty('Authorization');
+    expect(JSON.parse(init.body as string)).not.toHaveProperty('model');
+    expect(provider.model).toBe('embed');
+    expect(result.embeddings).toEqual([[1, 0, 0]]);
+  });
+
+  it('learn the size of an unknown model from the first response', async () => {
+    mockFetch();
+    const provider = EmbeddingProviderRegistry.create('openai-compatible', {
+      baseUrl: 'http://localhost:8080/v1',
+      model: 'nomic-embed-text',
+      authScheme: 'none'
+    });
+
+    expect(provider.dimensions).toBe(0);
+    expect(provider.cacheable).toBe(false);
+    await provider.embedBatch(['hello']);
+    expect(provider.dimensions).toBe(3);
+  });
+
+  it('require a base URL and, unless auth is off, an API key', () => {
+    expect(() => EmbeddingProviderRegistry.create('openai-compatible', { apiKey: 'key' })).toThrow(/base URL is required/);
+    expect(() => EmbeddingProviderRegistry.create('openai-compatible', { baseUrl: 'http://localhost:8080/v1' }))
+      .toThrow(/API key is required/);
+    expect(EmbeddingProviderRegistry.requiresApiKey('openai-compatible', { authScheme: 'none' })).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { ImportValidation } from '@/lib/importValidation';
+import { DataPoint, ImportIssue } from '@/types';
+
+const point = (id: string, embedding?: number[], sourceFile?: string): DataPoint => ({
+  id,
+  text: `Text of ${id}`,
+  embedding,
+  metadata: sourceFile ? { sourceFile } : undefined
+});
+
+describe('ImportValidation.buildReport', () => {
+  it('keeps the parser issues and counts them by kind', () => {
+    const parseIssues: ImportIssue[] = [
+      { kind: 'skipped_row', line: 3, id: 'x', message: 'No text' },
+      { kind: 'malformed_row', line: 7, message: 'Too many fields' },
+      { kind: 'invalid_embedding', line: 9, id: 'y', message: 'Embedding is not valid JSON' }
+    ];
+    const report = ImportValidation.buildReport([point('a'), point('b')], parseIssues);
+
+    expect(report.imported).toBe(2);
+    expect(report.issues).toEqual(parseIssues);
+    expect(report.counts).toEqual({ skipped_row: 1, malformed_row: 1, invalid_embedding: 1, duplicate_id: 0, dimension_mismatch: 0 });
+    expect(report.embeddingDimensions).toBe(0);
+    expect(ImportValidation.hasIssues(report)).toBe(true);
+  });
+
+  it('reports each duplicated id once, with the file it first came from', () => {
+    const report = ImportValidation.buildReport([point('a', undefined, 'one.csv'), point('b'), point('a', undefined, 'two.csv'), point('a')], []);
+
+    expect(report.issues).toEqual([{ kind: 'duplicate_id', id: 'a', file: 'one.csv', message: 'Id appears 3 times' }]);
+  });
+
+  it('flags embeddings whose size differs from the most common one', () => {
+    const report = ImportValidation.buildReport([
+      point('a', [1, 0, 0]),
+      point('b', [0, 1, 0]),
+      point('c', [0, 1], 'c.jsonl'),
+      point('d')
+    ], []);
+
+    expect(report.embeddingDimensions).toBe(3);
+    expect(report.issues).toEqual([
+      { kind: 'dimension_mismatch', id: 'c', file: 'c.jsonl', message: 'Embedding has 2 dimensions, expected 3' }
+    ]);
+  });
+
+  it('has no issues for a clean import', () => {
+    const report = ImportValidation.buildReport([point('a', [1, 0]), point('b', [0, 1])], []);
+
+    expect(report.embeddingDimensions).toBe(2);
+    expect(ImportValidation.hasIssues(report)).toBe(false);
+  });
+});
+
+describe('ImportValidation.toCSV', () => {
+  it('lists one issue per row with quoted text fields', () => {
+    const report = ImportValidation.buildReport([], [
+      { kind: 'skipped_row', line: 2, id: 'q"1', file: 'a, b.csv', message: 'Text shorter than 3 characters' },
+      { kind: 'malformed_row', message: 'Unexpected "quote"' }
+    ]);
+
+    expect(ImportValidation.toCSV(report).split('\n')).toEqual([
+      'file,line,id,kind,message',
+      '"a, b.csv",2,"q""1",skipped_row,"Text shorter than 3 characters"',
+      '"",,"",malformed_row,"Unexpected ""quote"""'
+    ]);
+  });
+});
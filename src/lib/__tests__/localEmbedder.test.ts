@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { LocalEmbeddingProvider } from '@/lib/localEmbedder';
+
+const texts = [
+  'Graph layouts place similar notes next to each other',
+  'Embeddings turn each note into a vector of numbers',
+  'A force simulation settles the nodes of the graph'
+];
+
+describe('LocalEmbeddingProvider', () => {
+  it('keeps at most one SVD component per text and names the model after the fitted size', async () => {
+    const provider = new LocalEmbeddingProvider({ hashDimensions: 256, reducedDimensions: 128 });
+    await provider.prepare(texts);
+
+    expect(provider.dimensions).toBeLessThanOrEqual(texts.length);
+    expect(provider.model).toBe(`local-tfidf-256-svd${provider.dimensions}`);
+
+    const { embeddings } = await provider.embedBatch(texts);
+    embeddings.forEach(embedding => expect(embedding).toHaveLength(provider.dimensions));
+  });
+
+  it('falls back to the hashed vectors, and says so in the model id, when fitted on a single text', async () => {
+    const provider = new LocalEmbeddingProvider({ hashDimensions: 256, reducedDimensions: 128 });
+    await provider.prepare(texts);
+    await provider.prepare([texts[0]]);
+
+    expect(provider.dimensions).toBe(256);
+    expect(provider.model).toBe('local-tfidf-256');
+    const { embeddings } = await provider.embedBatch([texts[0]]);
+    expect(embeddings[0]).toHaveLength(256);
+  });
+
+  it('gives the same vectors for the same corpus', async () => {
+    const embed = async () => {
+      const provider = new LocalEmbeddingProvider({ hashDimensions: 256, reducedDimensions: 2 });
+      await provider.prepare(texts);
+      return (await provider.embedBatch(texts)).embeddings;
+    };
+
+    expect(await embed()).toEqual(await embed());
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { MarkdownVault } from '@/lib/markdownVault';
+
+describe('MarkdownVault.parseVault', () => {
+  const vault = [
+    {
+      path: 'vault/Index.md',
+      content: [
+        'See [[Topic A]], [[topic a#Details|the details]] and [[Missing note]].',
+        'Also [the deep note](sub/Deep%20Note.md), [[Nick]] and [[Deep Note]].',
+        '`[[Not a link]]` and ![[diagram.png]]'
+      ].join('\n')
+    },
+    {
+      path: 'vault/Topic A.md',
+      content: 'Intro to topic A.\n\n## Details\n\nDetail body, see [[#Details]] and [[Index]].'
+    },
+    {
+      path: 'vault/sub/Deep Note.md',
+      content: '---\naliases: [Nick]\ntags: [deep]\n---\nA deep note linking [up](../Index.md).'
+    },
+    {
+      path: 'vault/sub/Topic A.md',
+      content: 'A second note with the same name.'
+    }
+  ];
+
+  const parsed = MarkdownVault.parseVault(vault);
+  const [index, topic, deep, nested] = parsed;
+
+  it('splits notes into heading sections', () => {
+    expect(topic.map(point => point.id)).toEqual(['vault/Topic A', 'vault/Topic A#details']);
+    expect(topic[1].text).toBe('Details\n\nDetail body, see Details and Index.');
+  });
+
+  it('resolves wikilinks by name, heading and alias, and relative markdown links by path', () => {
+    expect(index[0].metadata?.links).toEqual([
+      'vault/Topic A',
+      'vault/Topic A#details',
+      'vault/sub/Deep Note'
+    ]);
+    expect(deep[0].metadata?.links).toEqual(['vault/Index']);
+  });
+
+  it('prefers the note with the shortest path when names clash', () => {
+    expect(index[0].metadata?.links).not.toContain(nested[0].id);
+  });
+
+  it('lists links it cannot resolve and ignores code and attachments', () => {
+    expect(index[0].metadata?.unresolvedLinks).toEqual(['Missing note']);
+  });
+
+  it('does not link a section to itself', () => {
+    expect(topic[1].metadata?.links).toEqual(['vault/Index']);
+  });
+
+  it('turns front-matter tags into the category', () => {
+    expect(deep[0].category).toBe('deep');
+    expect(deep[0].metadata?.tags).toEqual(['deep']);
+    expect(index[0].category).toBe('Untagged');
+  });
+});
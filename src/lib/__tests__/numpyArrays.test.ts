@@ -0,0 +1,158 @@
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { NumpyArrays } from '@/lib/numpyArrays';
+import { DataPoint } from '@/types';
+
+// An .npy (format 1.0) file as np.save writes it: header padded to a multiple of 64 bytes
+function npy(descr: string, shape: number[], data: Uint8Array): Uint8Array {
+  const shapeText = shape.length === 1 ? `(${shape[0]},)` : `(${shape.join(', ')})`;
+  let header = `{'descr': '${descr}', 'fortran_order': False, 'shape': ${shapeText}, }`;
+  header += ' '.repeat(63 - ((10 + header.length) % 64)) + '\n';
+
+  const bytes = new Uint8Array(10 + header.length + data.length);
+  bytes.set([0x93, ...Array.from('NUMPY', c => c.charCodeAt(0)), 1, 0]);
+  new DataView(bytes.buffer).setUint16(8, header.length, true);
+  bytes.set(Array.from(header, c => c.charCodeAt(0)), 10);
+  bytes.set(data, 10 + header.length);
+  return bytes;
+}
+
+// A zip archive like np.savez (stored) or np.savez_compressed (deflated) writes
+function npz(entries: Record<string, Uint8Array>, compress: boolean): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  Object.entries(entries).forEach(([name, content]) => {
+    const fileName = encoder.encode(name);
+    const data = compress ? new Uint8Array(deflateRawSync(content)) : content;
+
+    const header = new Uint8Array(30 + fileName.length);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, 0x04034b50, true);
+    headerView.setUint16(8, compress ? 8 : 0, true);
+    headerView.setUint32(18, data.length, true);
+    headerView.setUint32(22, content.length, true);
+    headerView.setUint16(26, fileName.length, true);
+    header.set(fileName, 30);
+
+    const record = new Uint8Array(46 + fileName.length);
+    const recordView = new DataView(record.buffer);
+    recordView.setUint32(0, 0x02014b50, true);
+    recordView.setUint16(10, compress ? 8 : 0, true);
+    recordView.setUint32(20, data.length, true);
+    recordView.setUint32(24, content.length, true);
+    recordView.setUint16(28, fileName.length, true);
+    recordView.setUint32(42, offset, true);
+    record.set(fileName, 46);
+
+    local.push(header, data);
+    central.push(record);
+    offset += header.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, central.length, true);
+  endView.setUint16(10, central.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...local, ...central, end];
+  const archive = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((position, part) => {
+    archive.set(part, position);
+    return position + part.length;
+  }, 0);
+  return archive.buffer;
+}
+
+const float32 = (values: number[]) => new Uint8Array(new Float32Array(values).buffer);
+
+// UTF-32 fixed-width strings, as np.array(['a', 'bc']) stores them
+function unicode(values: string[], width: number): Uint8Array {
+  const codes = new Uint32Array(values.length * width);
+  values.forEach((value, i) => Array.from(value).forEach((char, c) => {
+    codes[i * width + c] = char.codePointAt(0)!;
+  }));
+  return new Uint8Array(codes.buffer);
+}
+
+const toBuffer = (bytes: Uint8Array) => bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+describe('NumpyArrays.parseNpy', () => {
+  it('reads a float32 matrix', () => {
+    const array = NumpyArrays.parseNpy(toBuffer(npy('<f4', [2, 3], float32([1, 2, 3, 4, 5, 6]))), 'vectors');
+
+    expect(array.shape).toEqual([2, 3]);
+    expect(Array.from(array.values as Float32Array)).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('widens float16 and big-endian float32 values', () => {
+    const half = new Uint8Array(new Uint16Array([0x3c00, 0xc000, 0x3800]).buffer); // 1, -2, 0.5
+    expect(Array.from(NumpyArrays.parseNpy(toBuffer(npy('<f2', [1, 3], half)), 'h').values as Float32Array))
+      .toEqual([1, -2, 0.5]);
+
+    const bigEndian = new Uint8Array(8);
+    new DataView(bigEndian.buffer).setFloat32(0, 1.5, false);
+    new DataView(bigEndian.buffer).setFloat32(4, -3, false);
+    expect(Array.from(NumpyArrays.parseNpy(toBuffer(npy('>f4', [1, 2], bigEndian)), 'b').values as Float32Array))
+      .toEqual([1.5, -3]);
+  });
+
+  it('reads unicode id arrays as strings', () => {
+    const array = NumpyArrays.parseNpy(toBuffer(npy('<U3', [2], unicode(['a1', 'b22'], 3))), 'ids');
+    expect(array.values).toEqual(['a1', 'b22']);
+  });
+
+  it('rejects files that are not .npy arrays and unsupported dtypes', () => {
+    expect(() => NumpyArrays.parseNpy(new ArrayBuffer(16), 'junk')).toThrow(/not a NumPy/);
+    expect(() => NumpyArrays.parseNpy(toBuffer(npy('|b1', [2], new Uint8Array(2))), 'flags')).toThrow(/unsupported dtype/);
+  });
+});
+
+describe('NumpyArrays.parseNpz', () => {
+  it.each([false, true])('reads every array of an archive (compressed: %s)', async compress => {
+    const arrays = await NumpyArrays.parseNpz(npz({
+      'ids.npy': npy('<U2', [2], unicode(['p1', 'p2'], 2)),
+      'embeddings.npy': npy('<f4', [2, 2], float32([0.5, 1, 1.5, 2]))
+    }, compress));
+
+    expect(arrays.map(array => array.name)).toEqual(['ids', 'embeddings']);
+    expect(NumpyArrays.findIds(arrays)).toEqual(['p1', 'p2']);
+    expect(Array.from(NumpyArrays.findEmbeddings(arrays).values as Float32Array)).toEqual([0.5, 1, 1.5, 2]);
+  });
+
+  it('rejects buffers that are not zip archives', async () => {
+    await expect(NumpyArrays.parseNpz(new ArrayBuffer(64))).rejects.toThrow(/Not a valid .npz/);
+  });
+});
+
+describe('NumpyArrays.joinEmbeddings', () => {
+  const points: DataPoint[] = [{ id: 'p1', text: 'First' }, { id: 'p2', text: 'Second' }];
+  const matrix = { name: 'embeddings', dtype: '<f4', shape: [2, 2], values: new Float32Array([1, 0, 0, 1]) };
+
+  it('joins rows by order and marks the vectors as imported', () => {
+    const { data, matched } = NumpyArrays.joinEmbeddings(points, matrix, 'order', null, 'vectors.npy');
+
+    expect(matched).toBe(2);
+    expect(data.map(point => point.embedding)).toEqual([[1, 0], [0, 1]]);
+    expect(data[0].embeddingInfo).toMatchObject({ provider: 'imported', model: 'imported:vectors.npy', dimensions: 2 });
+  });
+
+  it('joins rows by id and reports items without a row', () => {
+    const { data, unmatchedIds } = NumpyArrays.joinEmbeddings(
+      [...points, { id: 'p3', text: 'Third' }], matrix, 'id', ['p2', 'p1'], 'vectors.npz'
+    );
+
+    expect(data.map(point => point.embedding)).toEqual([[0, 1], [1, 0], undefined]);
+    expect(unmatchedIds).toEqual(['p3']);
+  });
+
+  it('refuses a row-order join when the counts differ', () => {
+    expect(() => NumpyArrays.joinEmbeddings(points.slice(0, 1), matrix, 'order', null, 'vectors.npy')).toThrow(/2 rows but 1 items/);
+  });
+});
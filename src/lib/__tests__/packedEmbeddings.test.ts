@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { packedBuffers, packEmbeddings, unpackEmbeddings } from '@/lib/packedEmbeddings';
+import { DataPoint } from '@/types';
+
+const info = { provider: 'openai', model: 'text-embedding-3-small', dimensions: 2, createdAt: '2025-01-01T00:00:00Z' };
+const points: DataPoint[] = [
+  { id: 'a', text: 'First', embedding: [0.5, 1], embeddingInfo: info },
+  { id: 'b', text: 'Not embedded' },
+  { id: 'c', text: 'Imported vector', embedding: [0.25, -2] }
+];
+
+describe('packEmbeddings', () => {
+  it('concatenates the vectors of the points that have one', () => {
+    const packed = packEmbeddings(points);
+
+    expect(Array.from(packed.indices)).toEqual([0, 2]);
+    expect(Array.from(packed.vectors)).toEqual([0.5, 1, 0.25, -2]);
+    expect(Array.from(packed.offsets)).toEqual([0, 2, 4]);
+    expect(packed.embeddingInfo).toEqual([info, undefined]);
+    expect(packedBuffers(packed)).toEqual([packed.indices.buffer, packed.vectors.buffer, packed.offsets.buffer]);
+  });
+
+  it('round-trips through points without embeddings', () => {
+    const stripped = points.map(({ embedding, embeddingInfo, ...point }) => point);
+
+    expect(unpackEmbeddings(stripped, packEmbeddings(points))).toEqual(points);
+  });
+
+  it('leaves points without a packed vector as they were', () => {
+    const previous: DataPoint = { id: 'b', text: 'Not embedded', embedding: [1, 0], embeddingInfo: info };
+    const result = unpackEmbeddings([points[0], previous], packEmbeddings([{ ...points[0], embedding: [0, 1] }]));
+
+    expect(result[0].embedding).toEqual([0, 1]);
+    expect(result[1]).toBe(previous);
+  });
+});
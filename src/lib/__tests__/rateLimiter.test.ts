@@ -0,0 +1,112 @@
+import { describe, expect, it, vi, afterEach } from 'vitest';
+import { AdaptiveRateLimiter, parseRateLimitHeaders } from '@/lib/rateLimiter';
+
+describe('parseRateLimitHeaders', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads limits, remaining budgets and reset durations', () => {
+    const info = parseRateLimitHeaders(new Headers({
+      'x-ratelimit-limit-requests': '3000',
+      'x-ratelimit-limit-tokens': '1000000',
+      'x-ratelimit-remaining-requests': '2999',
+      'x-ratelimit-remaining-tokens': '998000',
+      'x-ratelimit-reset-requests': '20ms',
+      'x-ratelimit-reset-tokens': '6m0.5s'
+    }));
+
+    expect(info).toMatchObject({
+      limitRequests: 3000,
+      limitTokens: 1_000_000,
+      remainingRequests: 2999,
+      remainingTokens: 998_000,
+      resetRequestsMs: 20,
+      resetTokensMs: 360_500
+    });
+    expect(info.retryAfterMs).toBeUndefined();
+  });
+
+  it('ignores empty and non-numeric values', () => {
+    const info = parseRateLimitHeaders(new Headers({
+      'x-ratelimit-limit-requests': ' ',
+      'x-ratelimit-remaining-tokens': 'lots',
+      'x-ratelimit-reset-requests': 'soon'
+    }));
+
+    expect(info.limitRequests).toBeUndefined();
+    expect(info.remainingTokens).toBeUndefined();
+    expect(info.resetRequestsMs).toBeUndefined();
+  });
+
+  it('prefers retry-after-ms over retry-after', () => {
+    const info = parseRateLimitHeaders(new Headers({ 'retry-after-ms': '250', 'retry-after': '10' }));
+    expect(info.retryAfterMs).toBe(250);
+  });
+
+  it('accepts retry-after as seconds or as an HTTP date', () => {
+    expect(parseRateLimitHeaders(new Headers({ 'retry-after': '1.5' })).retryAfterMs).toBe(1500);
+
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    const info = parseRateLimitHeaders(new Headers({ 'retry-after': 'Wed, 01 Jan 2025 00:00:30 GMT' }));
+    expect(info.retryAfterMs).toBe(30_000);
+  });
+});
+
+describe('AdaptiveRateLimiter', () => {
+  it('grows concurrency by one after a streak of successes with headroom', () => {
+    const limiter = new AdaptiveRateLimiter({ initialConcurrency: 2, maxConcurrency: 4 });
+
+    for (let i = 0; i < 3; i++) limiter.onSuccess(1, 10);
+    expect(limiter.getConcurrency()).toBe(2);
+
+    limiter.onSuccess(1, 10);
+    expect(limiter.getConcurrency()).toBe(3);
+  });
+
+  it('never grows past the maximum', () => {
+    const limiter = new AdaptiveRateLimiter({ initialConcurrency: 2, maxConcurrency: 2 });
+    for (let i = 0; i < 20; i++) limiter.onSuccess(1, 10);
+    expect(limiter.getConcurrency()).toBe(2);
+  });
+
+  it('backs off by one when a reported budget runs low', () => {
+    const limiter = new AdaptiveRateLimiter({ initialConcurrency: 4 });
+    limiter.onSuccess(1, 10, { limitRequests: 100, remainingRequests: 5 });
+    expect(limiter.getConcurrency()).toBe(3);
+  });
+
+  it('halves concurrency and pauses callers on a 429', () => {
+    const limiter = new AdaptiveRateLimiter({ initialConcurrency: 6 });
+    limiter.onRateLimited(5000);
+
+    expect(limiter.getConcurrency()).toBe(3);
+    expect(limiter.getBlockedMs()).toBeGreaterThan(4000);
+    expect(limiter.getThroughput().throttled).toBe(true);
+
+    limiter.onRateLimited(0);
+    limiter.onRateLimited(0);
+    expect(limiter.getConcurrency()).toBe(1);
+  });
+
+  it('falls back to the default wait when a 429 has no Retry-After', () => {
+    const limiter = new AdaptiveRateLimiter({ defaultRetryAfterMs: 3000 });
+    limiter.onRateLimited();
+    expect(limiter.getBlockedMs()).toBeGreaterThan(2000);
+    expect(limiter.getBlockedMs()).toBeLessThanOrEqual(3000);
+  });
+
+  it('does not hand out more slots than the current concurrency', async () => {
+    const limiter = new AdaptiveRateLimiter({ initialConcurrency: 1 });
+    expect(await limiter.acquire(10)).toBe(true);
+
+    const controller = new AbortController();
+    const second = limiter.acquire(10, controller.signal);
+    controller.abort();
+    expect(await second).toBe(false);
+
+    limiter.release();
+    expect(await limiter.acquire(10)).toBe(true);
+  });
+});
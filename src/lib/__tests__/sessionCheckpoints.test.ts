@@ -0,0 +1,48 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { SessionCheckpointStore } from '@/lib/sessionCheckpoints';
+import { EmbeddingSessionCheckpoint } from '@/types';
+
+const checkpoint = (id: string, updatedAt: number): EmbeddingSessionCheckpoint => ({
+  id,
+  createdAt: updatedAt,
+  updatedAt,
+  providerId: 'openai',
+  providerConfig: { model: 'text-embedding-3-small' },
+  longTextStrategy: 'truncate',
+  dataset: [{ id: 'a', text: 'First' }, { id: 'b', text: 'Second' }],
+  totalItems: 2,
+  completedItems: 0,
+  estimatedCost: 0.01
+});
+
+describe('SessionCheckpointStore', () => {
+  it('appends batch embeddings and counts them on the session', async () => {
+    await SessionCheckpointStore.create(checkpoint('s1', 1));
+    await SessionCheckpointStore.addEmbeddings('s1', [{ id: 'a', embedding: [0.5, 1] }]);
+    await SessionCheckpointStore.addEmbeddings('s1', [{ id: 'b', embedding: [1, 0.5] }]);
+
+    const latest = await SessionCheckpointStore.getLatest();
+    expect(latest).toMatchObject({ id: 's1', completedItems: 2 });
+    expect(latest!.updatedAt).toBeGreaterThan(1);
+    expect(await SessionCheckpointStore.getEmbeddings('s1')).toEqual(new Map([['a', [0.5, 1]], ['b', [1, 0.5]]]));
+  });
+
+  it('keeps only the newest session', async () => {
+    await SessionCheckpointStore.create(checkpoint('s1', 1));
+    await SessionCheckpointStore.addEmbeddings('s1', [{ id: 'a', embedding: [1, 0] }]);
+    await SessionCheckpointStore.create(checkpoint('s2', 2));
+
+    expect((await SessionCheckpointStore.getLatest())?.id).toBe('s2');
+    expect((await SessionCheckpointStore.getEmbeddings('s1')).size).toBe(0);
+  });
+
+  it('deletes a session with its embeddings', async () => {
+    await SessionCheckpointStore.create(checkpoint('s3', 3));
+    await SessionCheckpointStore.addEmbeddings('s3', [{ id: 'a', embedding: [1, 0] }]);
+    await SessionCheckpointStore.delete('s3');
+
+    expect(await SessionCheckpointStore.getLatest()).toBeNull();
+    expect((await SessionCheckpointStore.getEmbeddings('s3')).size).toBe(0);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { TextTemplates } from '@/lib/textTemplates';
+import { DataPoint } from '@/types';
+
+const point: DataPoint = {
+  id: 'p1',
+  text: 'Body text',
+  category: 'notes',
+  metadata: {
+    title: '  A title ',
+    tags: ['graph', '', 'd3'],
+    'author.name': 'Dotted column',
+    source: { url: 'https://example.com', pages: 3 },
+    empty: ''
+  }
+};
+
+describe('TextTemplates.render', () => {
+  it('fills point fields, metadata paths and bare metadata names', () => {
+    expect(TextTemplates.render('{{ title }}: {{text}} [{{category}}]', point)).toBe('A title: Body text [notes]');
+    expect(TextTemplates.render('{{metadata.source.url}} ({{source.pages}} pages)', point)).toBe('https://example.com (3 pages)');
+  });
+
+  it('prefers a column whose name contains a dot over a nested path', () => {
+    expect(TextTemplates.render('{{metadata.author.name}}', point)).toBe('Dotted column');
+  });
+
+  it('joins arrays, serializes objects and drops lines left empty', () => {
+    expect(TextTemplates.render('{{tags}}\n{{missing}}\n  {{empty}}  \n{{id}}', point)).toBe('graph, d3\np1');
+    expect(TextTemplates.render('{{metadata.source}}', point)).toBe('{"url":"https://example.com","pages":3}');
+  });
+});
+
+describe('TextTemplates field helpers', () => {
+  const points: DataPoint[] = [point, { id: 'p2', text: 'Other', metadata: { description: 'Described' } }];
+
+  it('lists the fields that have a value in the sample', () => {
+    expect(TextTemplates.getFields(points)).toEqual([
+      'id', 'text', 'category', 'metadata.title', 'metadata.tags', 'metadata.author.name', 'metadata.source', 'metadata.description'
+    ]);
+  });
+
+  it('suggests the text and descriptive metadata, never the category', () => {
+    expect(TextTemplates.suggest(points)).toBe('{{text}}\n{{metadata.title}}\n{{metadata.description}}\n{{metadata.tags}}');
+  });
+
+  it('flags placeholders that are empty in every sample point', () => {
+    expect(TextTemplates.findUnknownFields('{{text}} {{titel}} {{description}} {{empty}}', points)).toEqual(['titel', 'empty']);
+  });
+});
+
+describe('TextTemplates.hash', () => {
+  it('gives a stable 8-digit fingerprint that changes with the template', () => {
+    const hash = TextTemplates.hash('{{text}}\n{{metadata.title}}');
+
+    expect(hash).toMatch(/^[0-9a-f]{8}$/);
+    expect(TextTemplates.hash('{{text}}\n{{metadata.title}}')).toBe(hash);
+    expect(TextTemplates.hash('{{text}}')).not.toBe(hash);
+  });
+
+  it('hashes the legacy field combination as the empty template', () => {
+    expect(TextTemplates.hash(undefined)).toBe(TextTemplates.hash(''));
+  });
+});
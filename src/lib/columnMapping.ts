@@ -0,0 +1,137 @@
+import { ColumnMapping, DetectedColumn } from '@/types';
+
+const MAPPING_STORAGE_KEY = 'data-viz-graph:column-mappings';
+const SAMPLES_PER_COLUMN = 3;
+
+// Column names the loaders have always recognised, in order of preference
+const ID_COLUMNS = ['id'];
+const TEXT_COLUMNS = ['text', 'title', 'description', 'content'];
+const CATEGORY_COLUMNS = ['category', 'label', 'class'];
+const EMBEDDING_COLUMNS = ['embedding'];
+const EMBEDDING_INFO_COLUMNS = ['embedding_info', 'embeddingInfo'];
+
+/**
+ * Column detection and mapping for CSV and JSON imports. Mappings are
+ * remembered per header signature (the sorted column names), so a file with
+ * the same columns is imported the same way next time.
+ */
+export class ColumnMappings {
+  /**
+   * Columns found in the sample rows, with sample values and a guessed kind
+   */
+  static detect(rows: Record<string, any>[]): DetectedColumn[] {
+    const names: string[] = [];
+    rows.forEach(row => Object.keys(row).forEach(name => {
+      if (!names.includes(name)) names.push(name);
+    }));
+
+    return names.map(name => {
+      const values = rows.map(row => row[name]).filter(value => value !== undefined && value !== null && value !== '');
+      return {
+        name,
+        samples: values.slice(0, SAMPLES_PER_COLUMN).map(value => this.formatSample(value)),
+        filledRatio: rows.length > 0 ? values.length / rows.length : 0,
+        kind: this.detectKind(values)
+      };
+    });
+  }
+
+  /**
+   * Mapping that reproduces the loaders' built-in field names. When there is
+   * no `text` column, title, description and content are all concatenated.
+   */
+  static guess(columns: DetectedColumn[]): ColumnMapping {
+    const names = columns.map(column => column.name);
+    const find = (candidates: string[]) => candidates.find(candidate => names.includes(candidate));
+
+    const text = names.includes('text')
+      ? ['text']
+      : TEXT_COLUMNS.filter(name => names.includes(name));
+    // Fall back to the longest text-like column for unfamiliar schemas
+    if (text.length === 0) {
+      const longest = columns
+        .filter(column => column.kind === 'text')
+        .sort((a, b) => this.averageLength(b) - this.averageLength(a))[0];
+      if (longest) text.push(longest.name);
+    }
+
+    const id = find(ID_COLUMNS);
+    const category = find(CATEGORY_COLUMNS);
+    const embedding = find(EMBEDDING_COLUMNS) ?? columns.find(column => column.kind === 'vector')?.name;
+    const used = new Set([id, category, embedding, ...text, ...EMBEDDING_INFO_COLUMNS]);
+
+    return {
+      id,
+      text,
+      textSeparator: '\n',
+      category,
+      embedding,
+      metadata: names.filter(name => !used.has(name))
+    };
+  }
+
+  /**
+   * Order-insensitive key for a set of columns
+   */
+  static getSignature(columnNames: string[]): string {
+    return JSON.stringify([...columnNames].sort());
+  }
+
+  static getSaved(columnNames: string[]): ColumnMapping | null {
+    return this.readStore()[this.getSignature(columnNames)] ?? null;
+  }
+
+  static save(columnNames: string[], mapping: ColumnMapping): void {
+    if (typeof localStorage === 'undefined' || columnNames.length === 0) return;
+
+    const mappings = this.readStore();
+    mappings[this.getSignature(columnNames)] = mapping;
+    localStorage.setItem(MAPPING_STORAGE_KEY, JSON.stringify(mappings));
+  }
+
+  /**
+   * Problems that prevent an import with this mapping
+   */
+  static validate(mapping: ColumnMapping): string[] {
+    const errors: string[] = [];
+    if (mapping.text.length === 0) {
+      errors.push('Choose at least one text column');
+    }
+    return errors;
+  }
+
+  private static readStore(): Record<string, ColumnMapping> {
+    if (typeof localStorage === 'undefined') return {};
+
+    try {
+      return JSON.parse(localStorage.getItem(MAPPING_STORAGE_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private static detectKind(values: any[]): DetectedColumn['kind'] {
+    if (values.length === 0) return 'empty';
+    if (values.every(value => Array.isArray(value) || this.isVectorString(value))) return 'vector';
+    if (values.every(value => typeof value === 'object')) return 'object';
+    if (values.every(value => typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))))) {
+      return 'number';
+    }
+    return 'text';
+  }
+
+  private static isVectorString(value: any): boolean {
+    return typeof value === 'string' && /^\s*\[\s*-?[\d.]/.test(value);
+  }
+
+  private static averageLength(column: DetectedColumn): number {
+    return column.samples.reduce((sum, sample) => sum + sample.length, 0) / (column.samples.length || 1);
+  }
+
+  private static formatSample(value: any): string {
+    if (Array.isArray(value)) return `[${value.length} values]`;
+    if (typeof value === 'object') return JSON.stringify(value);
+    if (this.isVectorString(value)) return `[${String(value).split(',').length} values]`;
+    return String(value);
+  }
+}
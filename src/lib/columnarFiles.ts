@@ -0,0 +1,85 @@
+import { parquetReadObjects } from 'hyparquet';
+import { compressors } from 'hyparquet-compressors';
+import { tableFromIPC } from 'apache-arrow';
+
+/**
+ * Readers for columnar dataset files (Apache Parquet and Arrow IPC). Both
+ * return plain row objects for the column mapping step; list<float> columns
+ * come back as number arrays so they can be mapped straight to embeddings.
+ */
+export class ColumnarFiles {
+  static isParquet(fileName: string): boolean {
+    return fileName.toLowerCase().endsWith('.parquet');
+  }
+
+  static isArrow(fileName: string): boolean {
+    return /\.(arrow|arrows|feather|ipc)$/i.test(fileName);
+  }
+
+  static async read(file: File): Promise<Record<string, any>[]> {
+    return this.isParquet(file.name) ? this.readParquet(file) : this.readArrow(file);
+  }
+
+  /**
+   * Parquet is read through File.slice(), so only the footer and the column
+   * chunks are loaded rather than the whole file at once
+   */
+  static async readParquet(file: File): Promise<Record<string, any>[]> {
+    const rows = await parquetReadObjects({
+      file: {
+        byteLength: file.size,
+        slice: (start: number, end?: number) => file.slice(start, end).arrayBuffer()
+      },
+      compressors
+    });
+    return rows.map(row => this.normalizeRow(row));
+  }
+
+  /**
+   * Arrow IPC, in file (.arrow, Feather v2) or stream (.arrows) format
+   */
+  static async readArrow(file: File): Promise<Record<string, any>[]> {
+    const table = tableFromIPC(new Uint8Array(await file.arrayBuffer()));
+    const columns = table.schema.fields.map(field => ({ name: field.name, vector: table.getChild(field.name) }));
+
+    return Array.from({ length: table.numRows }, (_, index) => {
+      const row: Record<string, any> = {};
+      columns.forEach(({ name, vector }) => {
+        row[name] = this.normalizeValue(vector?.get(index));
+      });
+      return row;
+    });
+  }
+
+  private static normalizeRow(row: Record<string, any>): Record<string, any> {
+    const normalized: Record<string, any> = {};
+    Object.keys(row).forEach(key => {
+      normalized[key] = this.normalizeValue(row[key]);
+    });
+    return normalized;
+  }
+
+  // Convert reader-specific values (BigInt, typed arrays, Arrow vectors and rows) to JSON-safe ones
+  private static normalizeValue(value: any): any {
+    if (value === null || value === undefined) return value;
+    if (typeof value === 'bigint') {
+      return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+    }
+    if (value instanceof Date) return value.toISOString();
+    if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+      return Array.from(value as unknown as ArrayLike<number | bigint>, item => this.normalizeValue(item));
+    }
+    if (Array.isArray(value)) return value.map(item => this.normalizeValue(item));
+    if (typeof value === 'object') {
+      // Arrow list vectors and struct rows
+      if (typeof value.toArray === 'function' && typeof value.get === 'function') {
+        return this.normalizeValue(value.toArray());
+      }
+      if (typeof value.toJSON === 'function') {
+        return this.normalizeRow(value.toJSON());
+      }
+      return this.normalizeRow(value);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,101 @@
+import { BudgetSettings, CostLedgerEntry } from '@/types';
+import { openDatabase, requestToPromise, transactionDone, isIndexedDBAvailable, STORES } from './indexedDb';
+
+const BUDGET_STORAGE_KEY = 'data-viz-graph:budget';
+
+/**
+ * Persistent record of embedding spend (IndexedDB) and the user's budget
+ * caps (localStorage). Entries are written when a run starts and updated as
+ * batches finish, so interrupted runs still show what they cost.
+ */
+export class CostLedger {
+  static isAvailable(): boolean {
+    return isIndexedDBAvailable();
+  }
+
+  /**
+   * Insert or update a run
+   */
+  static async record(entry: CostLedgerEntry): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.costLedger, 'readwrite');
+    transaction.objectStore(STORES.costLedger).put(entry);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * All runs, newest first
+   */
+  static async list(): Promise<CostLedgerEntry[]> {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.costLedger, 'readonly');
+    const entries = await requestToPromise<CostLedgerEntry[]>(
+      transaction.objectStore(STORES.costLedger).getAll()
+    );
+    return entries.sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  /**
+   * Total spend of runs started in the calendar month of `date`
+   */
+  static async getMonthTotal(date: Date = new Date(), excludeId?: string): Promise<number> {
+    const start = new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+    const end = new Date(date.getFullYear(), date.getMonth() + 1, 1).getTime();
+
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.costLedger, 'readonly');
+    const entries = await requestToPromise<CostLedgerEntry[]>(
+      transaction.objectStore(STORES.costLedger).index('startedAt').getAll(IDBKeyRange.bound(start, end, false, true))
+    );
+
+    return entries
+      .filter(entry => entry.id !== excludeId)
+      .reduce((sum, entry) => sum + entry.cost, 0);
+  }
+
+  static async clear(): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.costLedger, 'readwrite');
+    transaction.objectStore(STORES.costLedger).clear();
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Export the ledger as CSV for reporting
+   */
+  static toCSV(entries: CostLedgerEntry[]): string {
+    const headers = ['started_at', 'finished_at', 'provider', 'model', 'dimensions', 'dataset', 'items', 'embedded', 'tokens', 'cost_usd', 'status'];
+    const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+    const rows = entries.map(entry => [
+      new Date(entry.startedAt).toISOString(),
+      entry.finishedAt ? new Date(entry.finishedAt).toISOString() : '',
+      quote(entry.provider),
+      quote(entry.model),
+      entry.dimensions,
+      quote(entry.datasetName),
+      entry.items,
+      entry.embedded,
+      entry.tokens,
+      entry.cost.toFixed(6),
+      entry.status
+    ].join(','));
+
+    return [headers.join(','), ...rows].join('\n');
+  }
+
+  static getBudget(): BudgetSettings {
+    if (typeof localStorage === 'undefined') return {};
+
+    try {
+      return JSON.parse(localStorage.getItem(BUDGET_STORAGE_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  static setBudget(budget: BudgetSettings): void {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+  }
+}
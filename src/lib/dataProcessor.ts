@@ -12,26 +12,37 @@ import {
   DataProcessingOptions,
   ProcessingProgress,
   ProcessingCallback,
-  DataStats
+  DataStats,
+  EmbeddingInfo,
+  ColumnMapping,
+  ExportFormat,
+  ImportIssue
 } from '@/types';
+import { TextTemplates } from './textTemplates';
 
 export class DataProcessor {
   private static readonly MAX_FILE_SIZE_MB = 50; // 50MB limit
   private static readonly CHUNK_SIZE = 1000; // Process in chunks
+  private static readonly MAX_STREAMING_FILE_SIZE_MB = 500; // CSV files are streamed, never held as one string
+  private static readonly STREAM_BATCH_BYTES = 4 * 1024 * 1024; // Decoded text parsed per batch
+  private static readonly SAMPLE_BYTES = 256 * 1024; // File head read for column detection
   
   /**
-   * Enhanced CSV parser with streaming support for large files
+   * Enhanced CSV parser with streaming support for large files.
+   * Skipped and malformed rows are added to `issues`.
    */
   static async loadCSVData(
     csvContent: string, 
     options: DataProcessingOptions = {},
-    onProgress?: ProcessingCallback
+    onProgress?: ProcessingCallback,
+    issues: ImportIssue[] = []
   ): Promise<DataPoint[]> {
     const startTime = Date.now();
     const {
       chunkSize = this.CHUNK_SIZE,
       skipValidation = false,
-      maxFileSize = this.MAX_FILE_SIZE_MB
+      maxFileSize = this.MAX_FILE_SIZE_MB,
+      columnMapping
     } = options;
 
     // Check file size
@@ -61,19 +72,20 @@ export class DataProcessor {
       const maxMemoryItems = 50000; // Process in chunks if larger
       let currentChunk: DataPoint[] = [];
       const chunks: DataPoint[][] = [];
+      const headerEnd = this.findFirstRecordBoundary(csvContent);
+      const lineAt = this.createLineCounter(csvContent, headerEnd, 1 + this.countNewlines(csvContent.slice(0, headerEnd)));
 
       Papa.parse(csvContent, {
         header: true,
         skipEmptyLines: true,
         worker: false, // Keep in main thread for progress tracking
         step: (row, parser) => {
-          if (row.errors?.length > 0 && !skipValidation) {
-            console.warn('CSV parsing error:', row.errors);
-          }
+          const line = lineAt(row.meta.cursor);
+          this.reportRowErrors(row.errors, line, issues);
 
           try {
-            const dataPoint = this.parseRowToDataPoint(row.data, processedRows);
-            if (dataPoint.text && dataPoint.text.length > 0) {
+            const dataPoint = this.parseRowToDataPoint(row.data, processedRows, columnMapping, this.embeddingIssueReporter(line, issues));
+            if (this.acceptDataPoint(dataPoint, line, issues, skipValidation)) {
               currentChunk.push(dataPoint);
               
               // Memory management: if chunk gets too large, move to chunks array
@@ -103,10 +115,8 @@ export class DataProcessor {
               });
             }
 
-          } catch (error) {
-            if (!skipValidation) {
-              console.warn(`Error processing row ${processedRows}:`, error);
-            }
+          } catch (error: any) {
+            issues.push({ kind: 'skipped_row', line, message: error.message || 'Could not read row' });
           }
         },
         complete: () => {
@@ -117,18 +127,7 @@ export class DataProcessor {
             }
             
             // Flatten all chunks into results array
-            const allResults = chunks.flat();
-            
-            onProgress?.({
-              stage: 'validating',
-              progress: 85,
-              current: allResults.length,
-              total: allResults.length,
-              message: 'Validating processed data...'
-            });
-
-            // Final validation
-            const validResults = skipValidation ? allResults : this.validateDataPoints(allResults);
+            const validResults = chunks.flat();
             
             onProgress?.({
               stage: 'complete',
@@ -153,17 +152,346 @@ export class DataProcessor {
     });
   }
 
+  /**
+   * Stream a CSV file without reading it into one string. The file is read
+   * with File.stream() and decoded incrementally; every ~STREAM_BATCH_BYTES
+   * the complete records are parsed and handed to onRows. Progress is reported
+   * by bytes read. Resolves with the number of rows read and the rows skipped
+   * or flagged, by line.
+   */
+  static async streamCSVFile(
+    file: Blob,
+    onRows: (points: DataPoint[]) => void,
+    options: DataProcessingOptions = {},
+    onProgress?: ProcessingCallback
+  ): Promise<{ rows: number; issues: ImportIssue[] }> {
+    const startTime = Date.now();
+    const { skipValidation = false, maxFileSize = this.MAX_STREAMING_FILE_SIZE_MB, columnMapping } = options;
+    const totalBytes = file.size;
+
+    if (totalBytes > maxFileSize * 1024 * 1024) {
+      throw new Error(`File size (${(totalBytes / 1024 / 1024).toFixed(1)}MB) exceeds limit of ${maxFileSize}MB`);
+    }
+
+    const reader = file.stream().getReader();
+    const decoder = new TextDecoder('utf-8');
+    let pending = '';
+    let inQuotes = false; // quote state at the end of `pending`
+    let header = ''; // header record, prepended to every later batch
+    let delimiter = '';
+    let bytesRead = 0;
+    let processedRows = 0;
+    let linesBefore = 0; // lines of the file before the current batch
+    const issues: ImportIssue[] = [];
+
+    const parseRecords = (records: string) => {
+      const input = header + records;
+      const lineAt = this.createLineCounter(input, header.length, linesBefore + 1);
+      const points: DataPoint[] = [];
+
+      Papa.parse<Record<string, any>>(input, {
+        header: true,
+        skipEmptyLines: true,
+        delimiter,
+        step: result => {
+          delimiter = result.meta.delimiter;
+          const line = lineAt(result.meta.cursor);
+          this.reportRowErrors(result.errors, line, issues);
+
+          try {
+            const point = this.parseRowToDataPoint(result.data, processedRows, columnMapping, this.embeddingIssueReporter(line, issues));
+            if (this.acceptDataPoint(point, line, issues, skipValidation)) {
+              points.push(point);
+            }
+          } catch (error: any) {
+            issues.push({ kind: 'skipped_row', line, message: error.message || 'Could not read row' });
+          }
+          processedRows++;
+        }
+      });
+      linesBefore += this.countNewlines(records);
+
+      if (points.length > 0) {
+        onRows(points);
+      }
+    };
+
+    const reportProgress = () => {
+      onProgress?.({
+        stage: 'parsing',
+        progress: Math.min(99, (bytesRead / (totalBytes || 1)) * 100),
+        current: bytesRead,
+        total: totalBytes,
+        unit: 'bytes',
+        message: `Parsed ${processedRows.toLocaleString()} rows...`
+      });
+    };
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (value) {
+          bytesRead += value.byteLength;
+          inQuotes = this.appendQuoteState(value, inQuotes);
+          pending += decoder.decode(value, { stream: true });
+        }
+        if (done) {
+          pending += decoder.decode();
+        }
+        if (pending.length < this.STREAM_BATCH_BYTES && !done) continue;
+
+        // Only whole records are parsed; a trailing partial record waits for the next read
+        const boundary = done ? pending.length : this.findLastRecordBoundary(pending, inQuotes);
+        if (boundary > 0) {
+          const records = pending.slice(0, boundary);
+          pending = pending.slice(boundary);
+
+          if (!header) {
+            const headerEnd = this.findFirstRecordBoundary(records);
+            header = records.slice(0, headerEnd);
+            linesBefore = this.countNewlines(header);
+            parseRecords(records.slice(headerEnd));
+          } else {
+            parseRecords(records);
+          }
+        }
+        reportProgress();
+
+        if (done) break;
+      }
+    } catch (error: any) {
+      reader.cancel().catch(() => {});
+      throw new Error(`CSV parsing failed: ${error.message}`);
+    }
+
+    console.log(`CSV streaming completed in ${Date.now() - startTime}ms: ${processedRows} rows, ${issues.length} issues`);
+    return { rows: processedRows, issues };
+  }
+
+  /**
+   * Track whether a CSV stream is inside a quoted field after these bytes.
+   * Escaped quotes ("") toggle twice, so counting quote bytes is enough.
+   */
+  private static appendQuoteState(bytes: Uint8Array, inQuotes: boolean): boolean {
+    let state = inQuotes;
+    for (let i = 0; i < bytes.length; i++) {
+      if (bytes[i] === 0x22) state = !state;
+    }
+    return state;
+  }
+
+  /**
+   * Index just past the last newline outside quotes, given the quote state at
+   * the end of the text; 0 when the text holds no complete record
+   */
+  private static findLastRecordBoundary(text: string, inQuotesAtEnd: boolean): number {
+    let inQuotes = inQuotesAtEnd;
+    for (let i = text.length - 1; i >= 0; i--) {
+      const char = text.charCodeAt(i);
+      if (char === 0x0a && !inQuotes) return i + 1;
+      if (char === 0x22) inQuotes = !inQuotes;
+    }
+    return 0;
+  }
+
+  /**
+   * Line each row of a Papa step parse starts on, from the cursor just past
+   * the row; rows are read from `offset`, which is on line `firstLine`
+   */
+  private static createLineCounter(text: string, offset: number, firstLine: number): (cursor: number) => number {
+    let position = offset;
+    let line = firstLine;
+    return (cursor: number) => {
+      // Blank lines skipped before the row
+      while (position < cursor && (text.charCodeAt(position) === 0x0a || text.charCodeAt(position) === 0x0d)) {
+        if (text.charCodeAt(position) === 0x0a) line++;
+        position++;
+      }
+      const rowLine = line;
+      for (; position < cursor; position++) {
+        if (text.charCodeAt(position) === 0x0a) line++;
+      }
+      return rowLine;
+    };
+  }
+
+  private static countNewlines(text: string): number {
+    let count = 0;
+    for (let i = 0; i < text.length; i++) {
+      if (text.charCodeAt(i) === 0x0a) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Index just past the first newline outside quotes (end of the header record)
+   */
+  private static findFirstRecordBoundary(text: string): number {
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+      const char = text.charCodeAt(i);
+      if (char === 0x22) inQuotes = !inQuotes;
+      if (char === 0x0a && !inQuotes) return i + 1;
+    }
+    return text.length;
+  }
+
+  /**
+   * First rows of a CSV file, read from its head only (for the column mapping step)
+   */
+  static async sampleCSVFile(file: Blob, maxRows: number = 20): Promise<Record<string, any>[]> {
+    const text = await file.slice(0, this.SAMPLE_BYTES).text();
+    const inQuotes = (text.match(/"/g)?.length ?? 0) % 2 === 1;
+    // Drop the record cut off by the slice
+    const records = file.size > this.SAMPLE_BYTES ? text.slice(0, this.findLastRecordBoundary(text, inQuotes)) : text;
+
+    return Papa.parse<Record<string, any>>(records, {
+      header: true,
+      skipEmptyLines: true,
+      preview: maxRows
+    }).data;
+  }
+
+  /**
+   * First object records (for the column mapping step)
+   */
+  static sampleRecords(data: any[], maxRows: number = 20): Record<string, any>[] {
+    return data
+      .slice(0, maxRows)
+      .filter(item => item !== null && typeof item === 'object' && !Array.isArray(item));
+  }
+
+  /**
+   * Stream a JSONL (NDJSON) file line by line. Each non-empty line must hold
+   * one JSON object; lines that do not are reported with their line number
+   * instead of failing the import. Parsed items are handed to onRows in batches.
+   */
+  static async streamJSONLFile(
+    file: Blob,
+    onRows: (points: DataPoint[]) => void,
+    options: DataProcessingOptions = {},
+    onProgress?: ProcessingCallback
+  ): Promise<{ rows: number; issues: ImportIssue[] }> {
+    const startTime = Date.now();
+    const {
+      chunkSize = this.CHUNK_SIZE,
+      skipValidation = false,
+      maxFileSize = this.MAX_STREAMING_FILE_SIZE_MB,
+      columnMapping
+    } = options;
+    const totalBytes = file.size;
+
+    if (totalBytes > maxFileSize * 1024 * 1024) {
+      throw new Error(`File size (${(totalBytes / 1024 / 1024).toFixed(1)}MB) exceeds limit of ${maxFileSize}MB`);
+    }
+
+    const reader = file.stream().getReader();
+    const decoder = new TextDecoder('utf-8');
+    const issues: ImportIssue[] = [];
+    let pending = '';
+    let lineNumber = 0;
+    let rows = 0;
+    let bytesRead = 0;
+    let batch: DataPoint[] = [];
+
+    const flush = () => {
+      if (batch.length > 0) {
+        onRows(batch);
+        batch = [];
+      }
+    };
+
+    const parseLine = (line: string) => {
+      lineNumber++;
+      if (!line.trim()) return;
+
+      let item: any;
+      try {
+        item = JSON.parse(line);
+      } catch (error: any) {
+        issues.push({ kind: 'skipped_row', line: lineNumber, message: `Invalid JSON: ${error.message}` });
+        return;
+      }
+      if (item === null || typeof item !== 'object' || Array.isArray(item)) {
+        issues.push({ kind: 'skipped_row', line: lineNumber, message: 'Line is not a JSON object' });
+        return;
+      }
+
+      const point = this.parseItemToDataPoint(item, rows, columnMapping, this.embeddingIssueReporter(lineNumber, issues));
+      rows++;
+      if (this.acceptDataPoint(point, lineNumber, issues, skipValidation)) {
+        batch.push(point);
+        if (batch.length >= chunkSize) flush();
+      }
+    };
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (value) {
+          bytesRead += value.byteLength;
+          pending += decoder.decode(value, { stream: true });
+        }
+        if (done) {
+          pending += decoder.decode();
+        }
+
+        const lines = pending.split('\n');
+        pending = done ? '' : lines.pop() ?? '';
+        lines.forEach(line => parseLine(line));
+        flush();
+
+        onProgress?.({
+          stage: 'parsing',
+          progress: Math.min(99, (bytesRead / (totalBytes || 1)) * 100),
+          current: bytesRead,
+          total: totalBytes,
+          unit: 'bytes',
+          message: `Parsed ${rows.toLocaleString()} lines${issues.length > 0 ? ` (${issues.length} issues)` : ''}...`
+        });
+
+        if (done) break;
+      }
+    } catch (error: any) {
+      reader.cancel().catch(() => {});
+      throw new Error(`JSONL parsing failed: ${error.message}`);
+    }
+
+    console.log(`JSONL streaming completed in ${Date.now() - startTime}ms: ${rows} items, ${issues.length} issues`);
+    return { rows, issues };
+  }
+
+  /**
+   * First objects of a JSONL file, read from its head only (for the column mapping step)
+   */
+  static async sampleJSONLFile(file: Blob, maxRows: number = 20): Promise<Record<string, any>[]> {
+    const text = await file.slice(0, this.SAMPLE_BYTES).text();
+    const lines = text.split('\n');
+    // The last line may be cut off by the slice
+    if (file.size > this.SAMPLE_BYTES) lines.pop();
+
+    const rows: Record<string, any>[] = [];
+    for (const line of lines) {
+      if (rows.length >= maxRows) break;
+      try {
+        const item = JSON.parse(line);
+        if (item !== null && typeof item === 'object' && !Array.isArray(item)) rows.push(item);
+      } catch {
+        // Invalid lines are reported when the file is imported
+      }
+    }
+    return rows;
+  }
+
   /**
    * Enhanced JSON parser with better error handling
    */
   static async loadJSONData(
     jsonContent: string,
     options: DataProcessingOptions = {},
-    onProgress?: ProcessingCallback
+    onProgress?: ProcessingCallback,
+    issues: ImportIssue[] = []
   ): Promise<DataPoint[]> {
-    const startTime = Date.now();
-    const { chunkSize = this.CHUNK_SIZE, skipValidation = false } = options;
-
     onProgress?.({
       stage: 'loading',
       progress: 10,
@@ -173,78 +501,91 @@ export class DataProcessor {
     });
 
     try {
-      const data = JSON.parse(jsonContent);
-      
-      if (!Array.isArray(data)) {
-        throw new Error('JSON must contain an array of items');
-      }
+      return await this.loadRecords(this.parseJSONArray(jsonContent), options, onProgress, issues);
+    } catch (error: any) {
+      throw new Error(`JSON parsing failed: ${error.message}`);
+    }
+  }
 
-      onProgress?.({
-        stage: 'parsing',
-        progress: 30,
-        current: 0,
-        total: data.length,
-        message: `Processing ${data.length} items...`
-      });
+  /**
+   * Parse JSON text that must hold one top-level array
+   */
+  static parseJSONArray(jsonContent: string): any[] {
+    const data = JSON.parse(jsonContent);
+    if (!Array.isArray(data)) {
+      throw new Error('JSON must contain an array of items');
+    }
+    return data;
+  }
 
-      const results: DataPoint[] = [];
-      
-      // Process in chunks for large datasets
-      for (let i = 0; i < data.length; i += chunkSize) {
-        const chunk = data.slice(i, i + chunkSize);
-        
-        chunk.forEach((item: any, index: number) => {
-          try {
-            const dataPoint: DataPoint = {
-              id: item.id || `item_${i + index + 1}`,
-              text: item.text || item.title || item.description || item.content || '',
-              category: item.category || item.label || item.class || undefined,
-              embedding: Array.isArray(item.embedding) ? item.embedding : undefined,
-              metadata: item.metadata || this.extractMetadata(item)
-            };
-
-            if (dataPoint.text && dataPoint.text.length > 0) {
-              results.push(dataPoint);
-            }
-          } catch (error) {
-            if (!skipValidation) {
-              console.warn(`Error processing item ${i + index}:`, error);
-            }
-          }
-        });
+  /**
+   * Convert already-parsed records (JSON items, Parquet or Arrow rows) to data
+   * points. Skipped items are added to `issues` by item number.
+   */
+  static async loadRecords(
+    data: any[],
+    options: DataProcessingOptions = {},
+    onProgress?: ProcessingCallback,
+    issues: ImportIssue[] = []
+  ): Promise<DataPoint[]> {
+    const startTime = Date.now();
+    const { chunkSize = this.CHUNK_SIZE, skipValidation = false, columnMapping } = options;
 
-        // Update progress
-        const progress = 30 + ((i + chunkSize) / data.length) * 60;
-        onProgress?.({
-          stage: 'processing',
-          progress: Math.min(progress, 90),
-          current: i + chunkSize,
-          total: data.length,
-          message: `Processed ${Math.min(i + chunkSize, data.length)}/${data.length} items`
-        });
+    onProgress?.({
+      stage: 'parsing',
+      progress: 30,
+      current: 0,
+      total: data.length,
+      message: `Processing ${data.length} items...`
+    });
 
-        // Allow UI to update for large datasets
-        if (results.length % 1000 === 0) {
-          await new Promise(resolve => setTimeout(resolve, 1));
+    const results: DataPoint[] = [];
+    
+    // Process in chunks for large datasets
+    for (let i = 0; i < data.length; i += chunkSize) {
+      const chunk = data.slice(i, i + chunkSize);
+      
+      chunk.forEach((item: any, index: number) => {
+        const itemNumber = i + index + 1;
+        try {
+          const dataPoint = this.parseItemToDataPoint(item, i + index, columnMapping, this.embeddingIssueReporter(itemNumber, issues));
+
+          if (this.acceptDataPoint(dataPoint, itemNumber, issues, skipValidation)) {
+            results.push(dataPoint);
+          }
+        } catch (error: any) {
+          issues.push({ kind: 'skipped_row', line: itemNumber, message: error.message || 'Could not read item' });
         }
-      }
+      });
 
+      // Update progress
+      const progress = 30 + ((i + chunkSize) / data.length) * 60;
       onProgress?.({
-        stage: 'complete',
-        progress: 100,
-        current: results.length,
-        total: results.length,
-        message: `Successfully loaded ${results.length} items`
+        stage: 'processing',
+        progress: Math.min(progress, 90),
+        current: i + chunkSize,
+        total: data.length,
+        message: `Processed ${Math.min(i + chunkSize, data.length)}/${data.length} items`
       });
 
-      const processingTime = Date.now() - startTime;
-      console.log(`JSON processing completed in ${processingTime}ms: ${results.length} items`);
-      
-      return results;
-
-    } catch (error: any) {
-      throw new Error(`JSON parsing failed: ${error.message}`);
+      // Allow UI to update for large datasets
+      if (results.length % 1000 === 0) {
+        await new Promise(resolve => setTimeout(resolve, 1));
+      }
     }
+
+    onProgress?.({
+      stage: 'complete',
+      progress: 100,
+      current: results.length,
+      total: results.length,
+      message: `Successfully loaded ${results.length} items`
+    });
+
+    const processingTime = Date.now() - startTime;
+    console.log(`Record processing completed in ${processingTime}ms: ${results.length} items`);
+    
+    return results;
   }
 
   /**
@@ -445,6 +786,7 @@ export class DataProcessor {
     minSimilarity: number = 0.5
   ): { node: GraphNode; similarity: number }[] {
     if (!targetNode.embedding) return [];
+    this.assertCompatibleEmbeddings([targetNode, ...allNodes]);
 
     const similarities: { node: GraphNode; similarity: number }[] = [];
 
@@ -476,6 +818,8 @@ export class DataProcessor {
       return { nodes: [], links: [] };
     }
 
+    this.assertCompatibleEmbeddings(pointsWithEmbeddings);
+
     // Create enhanced nodes
     const nodes: GraphNode[] = pointsWithEmbeddings.map(point => ({
       ...point,
@@ -502,51 +846,7 @@ export class DataProcessor {
       }
 
       similarities.sort((a, b) => b.similarity - a.similarity);
-
-      let selectedConnections: typeof similarities = [];
-
-      switch (strategy) {
-        case 'top3':
-          selectedConnections = similarities.slice(0, 3);
-          break;
-          
-        case 'top5':
-          selectedConnections = similarities.slice(0, 5);
-          break;
-
-        case 'top10':
-          selectedConnections = similarities.slice(0, 10);
-          break;
-          
-        case 'threshold':
-          selectedConnections = similarities.filter(s => s.similarity >= threshold);
-          break;
-
-        case 'adaptive':
-          // Adaptive strategy: more connections for nodes with high similarity variance
-          const avgSimilarity = similarities.slice(0, 10).reduce((sum, s) => sum + s.similarity, 0) / Math.min(10, similarities.length);
-          const connectionCount = avgSimilarity > 0.7 ? 3 : avgSimilarity > 0.5 ? 5 : 7;
-          selectedConnections = similarities.slice(0, connectionCount).filter(s => s.similarity > 0.3);
-          break;
-
-        case 'category_based':
-          // Connect within category + best cross-category connections
-          const sameCategory = similarities.filter(s => {
-            const targetPoint = pointsWithEmbeddings[s.index];
-            return targetPoint.category === sourcePoint.category;
-          }).slice(0, 3);
-          
-          const differentCategory = similarities.filter(s => {
-            const targetPoint = pointsWithEmbeddings[s.index];
-            return targetPoint.category !== sourcePoint.category;
-          }).slice(0, 2);
-          
-          selectedConnections = [...sameCategory, ...differentCategory];
-          break;
-
-        default:
-          selectedConnections = similarities.slice(0, 5);
-      }
+      const selectedConnections = this.selectConnections(sourcePoint, similarities, pointsWithEmbeddings, strategy, threshold);
 
       // Create links
       selectedConnections.forEach(conn => {
@@ -560,15 +860,192 @@ export class DataProcessor {
             source: sourcePoint.id,
             target: conn.targetId,
             similarity: conn.similarity,
-            distance: 30 + (1 - conn.similarity) * 120
+            distance: 30 + (1 - conn.similarity) * 120,
+            type: 'semantic'
           });
         }
       });
     }
 
+    this.addAuthoredLinks(pointsWithEmbeddings, links);
+
     return { nodes, links };
   }
 
+  /**
+   * Add points to an existing graph without rebuilding it. Only the
+   * similarities of the new points against all points are computed; the new
+   * points pick their connections with the same strategy, existing nodes keep
+   * their links. Existing node objects are reused, so a running layout keeps
+   * its positions, and new nodes start next to their closest neighbour.
+   */
+  static extendGraph(
+    graph: GraphData,
+    newPoints: DataPoint[],
+    strategy: ConnectionStrategy = 'adaptive',
+    threshold: number = 0.7
+  ): GraphData {
+    const nodeIds = new Set(graph.nodes.map(node => node.id));
+    const added = newPoints.filter(point => point.embedding && !nodeIds.has(point.id));
+    if (added.length === 0) {
+      return graph;
+    }
+
+    this.assertCompatibleEmbeddings([...graph.nodes, ...added]);
+
+    const newNodes: GraphNode[] = added.map(point => ({
+      ...point,
+      size: this.calculateNodeSize(point),
+      color: this.getNodeColor(point)
+    }));
+    const nodes = [...graph.nodes, ...newNodes];
+    const nodesById = new Map(nodes.map(node => [node.id, node]));
+
+    // The layout replaces link ends with node objects; links are kept by id here
+    const linkEnd = (end: any): string => (typeof end === 'string' ? end : end.id);
+    const links: GraphLink[] = graph.links.map(link => ({ ...link, source: linkEnd(link.source), target: linkEnd(link.target) }));
+    const pairKey = (a: string, b: string) => (a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`);
+    const linkedPairs = new Set(links.map(link => pairKey(link.source, link.target)));
+
+    newNodes.forEach(sourceNode => {
+      const similarities: { index: number; similarity: number; targetId: string }[] = [];
+      nodes.forEach((targetNode, index) => {
+        if (targetNode.id === sourceNode.id) return;
+        similarities.push({
+          index,
+          similarity: this.calculateCosineSimilarity(sourceNode.embedding!, targetNode.embedding!),
+          targetId: targetNode.id
+        });
+      });
+      similarities.sort((a, b) => b.similarity - a.similarity);
+
+      this.selectConnections(sourceNode, similarities, nodes, strategy, threshold).forEach(conn => {
+        const key = pairKey(sourceNode.id, conn.targetId);
+        if (linkedPairs.has(key) || conn.similarity <= 0.05) return;
+
+        linkedPairs.add(key);
+        links.push({
+          source: sourceNode.id,
+          target: conn.targetId,
+          similarity: conn.similarity,
+          distance: 30 + (1 - conn.similarity) * 120,
+          type: 'semantic'
+        });
+      });
+
+      // Start next to the most similar node that already has a position
+      const anchor = similarities
+        .map(conn => nodesById.get(conn.targetId)!)
+        .find(node => node.x !== undefined && node.y !== undefined);
+      if (anchor) {
+        sourceNode.x = anchor.x! + (Math.random() - 0.5) * 20;
+        sourceNode.y = anchor.y! + (Math.random() - 0.5) * 20;
+      }
+    });
+
+    this.addAuthoredLinks(nodes, links);
+
+    return { nodes, links };
+  }
+
+  /**
+   * Add incoming points that are not in the dataset yet. Points whose id is
+   * already present are left out, so overlapping exports can be appended.
+   */
+  static appendDataPoints(existing: DataPoint[], incoming: DataPoint[]): { data: DataPoint[]; added: DataPoint[]; duplicates: number } {
+    const ids = new Set(existing.map(point => point.id));
+    const added: DataPoint[] = [];
+    incoming.forEach(point => {
+      if (ids.has(point.id)) return;
+      ids.add(point.id);
+      added.push(point);
+    });
+    return { data: [...existing, ...added], added, duplicates: incoming.length - added.length };
+  }
+
+  /**
+   * Connections of one point under a strategy, from its similarities to
+   * `candidates` sorted best first
+   */
+  private static selectConnections(
+    sourcePoint: DataPoint,
+    similarities: { index: number; similarity: number; targetId: string }[],
+    candidates: DataPoint[],
+    strategy: ConnectionStrategy,
+    threshold: number
+  ): { index: number; similarity: number; targetId: string }[] {
+    switch (strategy) {
+      case 'top3':
+        return similarities.slice(0, 3);
+
+      case 'top5':
+        return similarities.slice(0, 5);
+
+      case 'top10':
+        return similarities.slice(0, 10);
+
+      case 'threshold':
+        return similarities.filter(s => s.similarity >= threshold);
+
+      case 'adaptive': {
+        // Adaptive strategy: more connections for nodes with high similarity variance
+        const avgSimilarity = similarities.slice(0, 10).reduce((sum, s) => sum + s.similarity, 0) / Math.min(10, similarities.length);
+        const connectionCount = avgSimilarity > 0.7 ? 3 : avgSimilarity > 0.5 ? 5 : 7;
+        return similarities.slice(0, connectionCount).filter(s => s.similarity > 0.3);
+      }
+
+      case 'category_based': {
+        // Connect within category + best cross-category connections
+        const sameCategory = similarities.filter(s => candidates[s.index].category === sourcePoint.category).slice(0, 3);
+        const differentCategory = similarities.filter(s => candidates[s.index].category !== sourcePoint.category).slice(0, 2);
+        return [...sameCategory, ...differentCategory];
+      }
+
+      default:
+        return similarities.slice(0, 5);
+    }
+  }
+
+  /**
+   * Add the links a dataset declares itself (metadata.links, e.g. Markdown
+   * wikilinks) next to the semantic ones. A pair linked both ways is kept
+   * once and marked 'both'.
+   */
+  private static addAuthoredLinks(points: DataPoint[], links: GraphLink[]): void {
+    const pointsById = new Map(points.map(point => [point.id, point]));
+    const linksByPair = new Map<string, GraphLink>();
+    const pairKey = (a: string, b: string) => (a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`);
+    links.forEach(link => linksByPair.set(pairKey(link.source, link.target), link));
+
+    points.forEach(point => {
+      const targets = point.metadata?.links;
+      if (!Array.isArray(targets)) return;
+
+      targets.forEach((targetId: string) => {
+        const target = pointsById.get(targetId);
+        if (!target || targetId === point.id) return;
+
+        const key = pairKey(point.id, targetId);
+        const existing = linksByPair.get(key);
+        if (existing) {
+          if (existing.type === 'semantic') existing.type = 'both';
+          return;
+        }
+
+        const similarity = this.calculateCosineSimilarity(point.embedding!, target.embedding!);
+        const link: GraphLink = {
+          source: point.id,
+          target: targetId,
+          similarity,
+          distance: 30 + (1 - Math.max(similarity, 0)) * 120,
+          type: 'authored'
+        };
+        links.push(link);
+        linksByPair.set(key, link);
+      });
+    });
+  }
+
   /**
    * Calculate adaptive node size based on content and connections
    */
@@ -591,21 +1068,55 @@ export class DataProcessor {
   }
 
   /**
-   * Enhanced data validation
+   * Whether a parsed row is kept; rows without usable text are recorded as
+   * skipped. A malformed embedding is dropped and recorded, but the row stays.
    */
-  private static validateDataPoints(dataPoints: DataPoint[]): DataPoint[] {
-    return dataPoints.filter(point => {
-      if (!point.id || !point.text) return false;
-      if (point.text.length < 3) return false; // Minimum text length
-      if (point.embedding && !Array.isArray(point.embedding)) return false;
-      return true;
+  private static acceptDataPoint(point: DataPoint, line: number, issues: ImportIssue[], skipValidation: boolean): boolean {
+    if (!point.text) {
+      issues.push({ kind: 'skipped_row', line, id: point.id, message: 'No text' });
+      return false;
+    }
+    if (!skipValidation) {
+      if (!point.id) {
+        issues.push({ kind: 'skipped_row', line, message: 'Missing id' });
+        return false;
+      }
+      if (point.text.length < 3) {
+        issues.push({ kind: 'skipped_row', line, id: point.id, message: 'Text shorter than 3 characters' });
+        return false;
+      }
+    }
+    if (point.embedding !== undefined && !(Array.isArray(point.embedding) && point.embedding.every(value => typeof value === 'number'))) {
+      issues.push({ kind: 'invalid_embedding', line, id: point.id, message: 'Embedding is not a list of numbers' });
+      delete point.embedding;
+      delete point.embeddingInfo;
+    }
+    return true;
+  }
+
+  private static reportRowErrors(errors: Papa.ParseError[], line: number, issues: ImportIssue[]): void {
+    errors.forEach(error => {
+      issues.push({ kind: 'malformed_row', line, message: error.message });
     });
   }
 
+  private static embeddingIssueReporter(line: number, issues: ImportIssue[]): (message: string) => void {
+    return message => issues.push({ kind: 'invalid_embedding', line, message });
+  }
+
   /**
    * Parse CSV row to DataPoint
    */
-  private static parseRowToDataPoint(row: any, index: number): DataPoint {
+  private static parseRowToDataPoint(
+    row: any,
+    index: number,
+    mapping?: ColumnMapping,
+    onInvalidEmbedding?: (message: string) => void
+  ): DataPoint {
+    if (mapping) {
+      return this.applyColumnMapping(row, index, mapping, onInvalidEmbedding);
+    }
+
     const point: DataPoint = {
       id: row.id || `item_${index + 1}`,
       text: (row.text || row.title || row.description || row.content || '').trim(),
@@ -616,13 +1127,17 @@ export class DataProcessor {
     if (row.embedding && typeof row.embedding === 'string') {
       try {
         point.embedding = JSON.parse(row.embedding);
-      } catch (e) {
-        console.warn(`Failed to parse embedding for item ${index}:`, e);
+      } catch (e: any) {
+        onInvalidEmbedding?.(`Embedding is not valid JSON: ${e.message}`);
       }
     } else if (Array.isArray(row.embedding)) {
       point.embedding = row.embedding;
     }
 
+    if (point.embedding) {
+      point.embeddingInfo = this.parseEmbeddingInfo(row.embedding_info ?? row.embeddingInfo);
+    }
+
     // Parse metadata
     if (row.metadata && typeof row.metadata === 'string') {
       try {
@@ -637,12 +1152,131 @@ export class DataProcessor {
     return point;
   }
 
+  /**
+   * Parse a JSON (or JSONL) item to DataPoint
+   */
+  private static parseItemToDataPoint(
+    item: any,
+    index: number,
+    mapping?: ColumnMapping,
+    onInvalidEmbedding?: (message: string) => void
+  ): DataPoint {
+    if (mapping) {
+      return this.applyColumnMapping(item, index, mapping, onInvalidEmbedding);
+    }
+
+    if (item.embedding !== undefined && item.embedding !== null && !Array.isArray(item.embedding)) {
+      onInvalidEmbedding?.('Embedding is not a list of numbers');
+    }
+
+    return {
+      id: item.id || `item_${index + 1}`,
+      text: item.text || item.title || item.description || item.content || '',
+      category: item.category || item.label || item.class || undefined,
+      embedding: Array.isArray(item.embedding) ? item.embedding : undefined,
+      embeddingInfo: Array.isArray(item.embedding) ? this.parseEmbeddingInfo(item.embeddingInfo) : undefined,
+      metadata: item.metadata || this.extractMetadata(item)
+    };
+  }
+
+  /**
+   * Build a DataPoint from a CSV row or JSON item using a column mapping
+   */
+  static applyColumnMapping(
+    row: Record<string, any>,
+    index: number,
+    mapping: ColumnMapping,
+    onInvalidEmbedding?: (message: string) => void
+  ): DataPoint {
+    const stringValue = (column?: string): string => {
+      const value = column ? row[column] : undefined;
+      if (value === undefined || value === null) return '';
+      return (typeof value === 'object' ? JSON.stringify(value) : String(value)).trim();
+    };
+
+    const point: DataPoint = {
+      id: stringValue(mapping.id) || `item_${index + 1}`,
+      text: mapping.text.map(column => stringValue(column)).filter(Boolean).join(mapping.textSeparator),
+      category: stringValue(mapping.category) || undefined
+    };
+
+    const embedding = mapping.embedding ? row[mapping.embedding] : undefined;
+    if (typeof embedding === 'string' && embedding.trim()) {
+      try {
+        point.embedding = JSON.parse(embedding);
+      } catch (e: any) {
+        onInvalidEmbedding?.(`Embedding is not valid JSON: ${e.message}`);
+      }
+    } else if (Array.isArray(embedding)) {
+      point.embedding = embedding;
+    }
+
+    if (point.embedding) {
+      point.embeddingInfo = this.parseEmbeddingInfo(row.embedding_info ?? row.embeddingInfo);
+    }
+
+    const metadata: Record<string, any> = {};
+    mapping.metadata.forEach(column => {
+      const value = row[column];
+      if (value === undefined || value === null || value === '') return;
+
+      // A `metadata` column holding a JSON object is merged in, as without a mapping
+      if (column === 'metadata') {
+        const parsed = typeof value === 'string' ? this.tryParseJSON(value) : value;
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+          Object.assign(metadata, parsed);
+          return;
+        }
+      }
+      metadata[column] = value;
+    });
+    if (Object.keys(metadata).length > 0) {
+      point.metadata = metadata;
+    }
+
+    return point;
+  }
+
+  private static tryParseJSON(value: string): any {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Parse stored embedding provenance (object or JSON string); invalid values are dropped
+   */
+  private static parseEmbeddingInfo(value: any): EmbeddingInfo | undefined {
+    let info = value;
+    if (typeof value === 'string' && value.trim()) {
+      try {
+        info = JSON.parse(value);
+      } catch {
+        return undefined;
+      }
+    }
+
+    if (info && typeof info.model === 'string' && typeof info.dimensions === 'number') {
+      return {
+        provider: typeof info.provider === 'string' ? info.provider : 'unknown',
+        model: info.model,
+        dimensions: info.dimensions,
+        createdAt: typeof info.createdAt === 'string' ? info.createdAt : '',
+        templateHash: typeof info.templateHash === 'string' ? info.templateHash : undefined
+      };
+    }
+
+    return undefined;
+  }
+
   /**
    * Extract metadata from unknown object structure
    */
   private static extractMetadata(item: any): Record<string, any> {
     const metadata: Record<string, any> = {};
-    const excludeFields = ['id', 'text', 'title', 'description', 'content', 'category', 'label', 'class', 'embedding', 'metadata'];
+    const excludeFields = ['id', 'text', 'title', 'description', 'content', 'category', 'label', 'class', 'embedding', 'embedding_info', 'embeddingInfo', 'metadata'];
     
     Object.keys(item).forEach(key => {
       if (!excludeFields.includes(key) && item[key] !== undefined && item[key] !== '') {
@@ -653,6 +1287,88 @@ export class DataProcessor {
     return Object.keys(metadata).length > 0 ? metadata : undefined;
   }
 
+  /**
+   * Count embeddings per producing model. Vectors without provenance
+   * (e.g. embeddings read from CSV or JSON columns) are grouped by dimension.
+   */
+  static summarizeEmbeddingModels(dataPoints: DataPoint[]): { label: string; dimensions: number; count: number }[] {
+    const groups = new Map<string, { label: string; dimensions: number; count: number }>();
+
+    dataPoints.forEach(point => {
+      if (!point.embedding) return;
+
+      const dimensions = point.embedding.length;
+      const label = point.embeddingInfo ? point.embeddingInfo.model : 'unknown model';
+      const key = `${label}:${dimensions}`;
+      const group = groups.get(key) || { label, dimensions, count: 0 };
+      group.count++;
+      groups.set(key, group);
+    });
+
+    return Array.from(groups.values()).sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * Refuse to compare vectors from different models or of different sizes, or
+   * made from texts rendered with different templates.
+   * Vectors without provenance are accepted alongside one known model of the same size.
+   */
+  static assertCompatibleEmbeddings(dataPoints: DataPoint[]): void {
+    const groups = this.summarizeEmbeddingModels(dataPoints);
+    const knownModels = groups.filter(group => group.label !== 'unknown model');
+    const dimensions = new Set(groups.map(group => group.dimensions));
+
+    if (knownModels.length > 1 || dimensions.size > 1) {
+      const summary = groups
+        .map(group => `${group.label} (${group.dimensions}d): ${group.count} items`)
+        .join(', ');
+      throw new Error(
+        `Embeddings from different models cannot be compared - ${summary}. ` +
+        'Regenerate all embeddings with one model or remove the mismatched rows.'
+      );
+    }
+
+    const templateHashes = new Set(
+      dataPoints
+        .filter(point => point.embedding && point.embeddingInfo?.templateHash !== undefined)
+        .map(point => point.embeddingInfo!.templateHash)
+    );
+    if (templateHashes.size > 1) {
+      throw new Error(
+        `Embeddings were generated from ${templateHashes.size} different text templates and cannot be compared. ` +
+        'Regenerate all embeddings with the current template.'
+      );
+    }
+  }
+
+  /**
+   * Refuse to add vectors from `target` to a dataset embedded with another
+   * provider, model or size. Checked before a partial run so no tokens are spent
+   * on vectors that could not join the graph. A target size of 0 means the
+   * endpoint reports its size only once it answers.
+   */
+  static assertCanExtendEmbeddings(
+    dataPoints: DataPoint[],
+    target: Pick<EmbeddingInfo, 'provider' | 'model' | 'dimensions'>
+  ): void {
+    const mismatch = dataPoints.find(point => {
+      if (!point.embedding) return false;
+      if (target.dimensions > 0 && point.embedding.length !== target.dimensions) return true;
+      return Boolean(point.embeddingInfo) &&
+        (point.embeddingInfo!.provider !== target.provider || point.embeddingInfo!.model !== target.model);
+    });
+    if (!mismatch) return;
+
+    const existing = mismatch.embeddingInfo
+      ? `${mismatch.embeddingInfo.model} (${mismatch.embedding!.length}d)`
+      : `${mismatch.embedding!.length}d vectors`;
+    throw new Error(
+      `The current embeddings come from ${existing}, but ${target.model}` +
+      `${target.dimensions > 0 ? ` (${target.dimensions}d)` : ''} is selected. ` +
+      'Select the same model or regenerate all embeddings.'
+    );
+  }
+
   /**
    * Calculate cosine similarity between two embeddings
    */
@@ -681,6 +1397,70 @@ export class DataProcessor {
     return dotProduct / (magnitude1 * magnitude2);
   }
 
+  /**
+   * Merge data points loaded from several files into one dataset. Each point
+   * records its file in metadata.sourceFile; ids used by more than one file
+   * are prefixed with the file path in every file. metadata.links follow the
+   * renames: a link points into its own file, or else into the files of the
+   * same group (e.g. the notes of a vault, which link to each other). Returns
+   * the number of renamed ids per source.
+   */
+  static mergeSources(
+    sources: Array<{ name: string; data: DataPoint[]; group?: string }>
+  ): { data: DataPoint[]; renamedIds: number[] } {
+    const filesById = new Map<string, Set<string>>();
+    sources.forEach(({ name, data }) => {
+      data.forEach(point => {
+        const files = filesById.get(point.id) ?? new Set<string>();
+        files.add(name);
+        filesById.set(point.id, files);
+      });
+    });
+
+    const usedIds = new Set<string>();
+    const idMaps = sources.map(() => new Map<string, string>());
+    const newIds = sources.map(({ name, data }, sourceIndex) => data.map(point => {
+      let id = point.id;
+      if ((filesById.get(id)?.size ?? 0) > 1) {
+        id = `${name}:${point.id}`;
+      }
+      // A prefixed id can still clash with an id another file already uses
+      for (let suffix = 2; usedIds.has(id) && id !== point.id; suffix++) {
+        id = `${name}:${point.id}#${suffix}`;
+      }
+      usedIds.add(id);
+      if (!idMaps[sourceIndex].has(point.id)) idMaps[sourceIndex].set(point.id, id);
+      return id;
+    }));
+
+    const resolveLink = (targetId: string, sourceIndex: number): string => {
+      const own = idMaps[sourceIndex].get(targetId);
+      if (own !== undefined) return own;
+
+      const group = sources[sourceIndex].group;
+      if (group === undefined) return targetId;
+      const groupIndex = sources.findIndex((source, index) => source.group === group && idMaps[index].has(targetId));
+      return groupIndex === -1 ? targetId : idMaps[groupIndex].get(targetId)!;
+    };
+
+    const merged: DataPoint[] = [];
+    sources.forEach(({ name, data }, sourceIndex) => {
+      data.forEach((point, index) => {
+        const metadata: Record<string, any> = { ...point.metadata, sourceFile: name };
+        if (Array.isArray(metadata.links)) {
+          metadata.links = metadata.links.map((targetId: string) => resolveLink(targetId, sourceIndex));
+        }
+        merged.push({ ...point, id: newIds[sourceIndex][index], metadata });
+      });
+    });
+
+    const renamedIds = sources.map(({ data }, sourceIndex) =>
+      data.filter((point, index) => newIds[sourceIndex][index] !== point.id).length
+    );
+
+    return { data: merged, renamedIds };
+  }
+
   /**
    * Get enhanced statistics about the dataset
    */
@@ -724,9 +1504,15 @@ export class DataProcessor {
   }
 
   /**
-   * Combine text fields for embedding generation
+   * Combine text fields for embedding generation. With a template (see
+   * TextTemplates) the text is rendered from it; otherwise the legacy
+   * combination of category, text and common metadata fields is used.
    */
-  static combineTextForEmbedding(dataPoint: DataPoint): string {
+  static combineTextForEmbedding(dataPoint: DataPoint, template?: string): string {
+    if (template) {
+      return TextTemplates.render(template, dataPoint);
+    }
+
     let text = dataPoint.text || '';
     
     if (dataPoint.category) {
@@ -750,7 +1536,7 @@ export class DataProcessor {
    */
   static exportData(
     dataPoints: DataPoint[], 
-    format: 'json' | 'csv' = 'json',
+    format: ExportFormat = 'json',
     includeEmbeddings: boolean = true
   ): string {
     const dataToExport = includeEmbeddings 
@@ -759,9 +1545,14 @@ export class DataProcessor {
     
     if (format === 'json') {
       return JSON.stringify(dataToExport, null, 2);
+    } else if (format === 'jsonl') {
+      // One compact object per line, embeddings included as arrays
+      return dataToExport
+        .map(point => JSON.stringify(includeEmbeddings ? point : { ...point, embedding: undefined, embeddingInfo: undefined }))
+        .join('\n') + '\n';
     } else {
       const headers = ['id', 'text', 'category'];
-      if (includeEmbeddings) headers.push('embedding');
+      if (includeEmbeddings) headers.push('embedding', 'embedding_info');
       headers.push('metadata');
       
       const rows = [headers.join(',')];
@@ -775,6 +1566,7 @@ export class DataProcessor {
         
         if (includeEmbeddings) {
           row.push(`"${JSON.stringify(point.embedding || [])}"`);
+          row.push(`"${point.embeddingInfo ? JSON.stringify(point.embeddingInfo).replace(/"/g, '""') : ''}"`);
         }
         
         row.push(`"${JSON.stringify(point.metadata || {})}"`);
@@ -784,4 +1576,12 @@ export class DataProcessor {
       return rows.join('\n');
     }
   }
-}
\ No newline at end of file
+
+  static getExportMimeType(format: ExportFormat): string {
+    switch (format) {
+      case 'json': return 'application/json';
+      case 'jsonl': return 'application/x-ndjson';
+      case 'csv': return 'text/csv';
+    }
+  }
+}
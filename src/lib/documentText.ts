@@ -0,0 +1,176 @@
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { DataPoint, ProcessingProgress } from '@/types';
+
+// Page furniture and non-content elements dropped from HTML before extraction
+const HTML_BOILERPLATE = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'form', 'button',
+  'nav', 'header', 'footer', 'aside',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]', '[aria-hidden="true"]'
+].join(',');
+
+const HTML_BLOCK_TAGS = new Set([
+  'address', 'article', 'blockquote', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'hr', 'li', 'main', 'ol', 'p', 'pre', 'section', 'table', 'td', 'th', 'tr', 'ul'
+]);
+
+/**
+ * Readable text from HTML and PDF documents, ready for the TXT chunker.
+ * HTML is parsed with DOMParser and stripped of navigation and boilerplate;
+ * PDF text is extracted page by page with pdf.js, and the page offsets are
+ * kept so chunks can be traced back to their pages.
+ */
+export class DocumentText {
+  static isHTML(fileName: string): boolean {
+    return /\.(html?|xhtml)$/i.test(fileName);
+  }
+
+  static isPDF(fileName: string): boolean {
+    return fileName.toLowerCase().endsWith('.pdf');
+  }
+
+  static extractHTML(html: string): { title: string; text: string } {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const title = doc.title.trim() || doc.querySelector('h1')?.textContent?.trim() || '';
+
+    doc.querySelectorAll(HTML_BOILERPLATE).forEach(element => element.remove());
+    const articles = doc.querySelectorAll('article');
+    const root = doc.querySelector('main, [role="main"]') ?? (articles.length === 1 ? articles[0] : doc.body);
+
+    return { title, text: root ? this.blockText(root) : '' };
+  }
+
+  /**
+   * Text of every page, joined by blank lines. pageStarts[i] is the offset of
+   * page i + 1 in the text.
+   */
+  static async extractPDF(
+    file: File,
+    onProgress?: (progress: ProcessingProgress) => void
+  ): Promise<{ title: string; text: string; pageStarts: number[] }> {
+    // pdf.js touches browser globals on import, so it is only loaded when a PDF arrives
+    const pdfjs = await import('pdfjs-dist');
+    if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+      pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+    }
+
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    const pages: string[] = [];
+    let title = '';
+
+    try {
+      const metadata = await pdf.getMetadata().catch(() => null);
+      title = String((metadata?.info as Record<string, any> | undefined)?.Title ?? '').trim();
+
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        pages.push(this.pageText(content.items.filter((item): item is TextItem => 'str' in item)));
+        page.cleanup();
+
+        onProgress?.({
+          stage: 'parsing',
+          progress: 5 + (pageNumber / pdf.numPages) * 5,
+          current: pageNumber,
+          total: pdf.numPages,
+          message: `Extracting text from page ${pageNumber}/${pdf.numPages}...`
+        });
+      }
+    } finally {
+      await pdf.destroy();
+    }
+
+    if (pages.every(page => page.length === 0)) {
+      throw new Error(`${file.name} has no text layer (scanned PDF?); run OCR on it first`);
+    }
+
+    const pageStarts: number[] = [];
+    let text = '';
+    pages.forEach(page => {
+      if (text) text += '\n\n';
+      pageStarts.push(text.length);
+      text += page;
+    });
+    return { title, text, pageStarts };
+  }
+
+  /**
+   * Set metadata.page (and pageEnd for chunks running onto the next pages)
+   * from the chunk offsets written by the TXT chunker
+   */
+  static addPageNumbers(points: DataPoint[], pageStarts: number[]): DataPoint[] {
+    const pageAt = (offset: number) => {
+      let page = 0;
+      while (page + 1 < pageStarts.length && pageStarts[page + 1] <= offset) page++;
+      return page + 1;
+    };
+
+    return points.map(point => {
+      const start = point.metadata?.startPosition;
+      const end = point.metadata?.endPosition;
+      if (typeof start !== 'number' || start < 0) return point;
+
+      const page = pageAt(start);
+      const pageEnd = typeof end === 'number' ? pageAt(Math.max(start, end - 1)) : page;
+      return {
+        ...point,
+        metadata: { ...point.metadata, page, pageEnd: pageEnd !== page ? pageEnd : undefined }
+      };
+    });
+  }
+
+  // Text with paragraph breaks at block elements, whitespace collapsed as a browser renders it
+  private static blockText(root: Element): string {
+    const parts: string[] = [];
+    const walk = (node: Node) => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        parts.push((node.textContent ?? '').replace(/\s+/g, ' '));
+        return;
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+      const tag = (node as Element).tagName.toLowerCase();
+      if (tag === 'br') {
+        parts.push('\n');
+        return;
+      }
+      const block = HTML_BLOCK_TAGS.has(tag);
+      if (block) parts.push('\n\n');
+      if (tag === 'li') parts.push('• ');
+      node.childNodes.forEach(walk);
+      if (block) parts.push('\n\n');
+    };
+    walk(root);
+
+    return parts.join('')
+      .replace(/ *\n */g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  // Lines of a page; a vertical gap larger than a line starts a new paragraph
+  private static pageText(items: TextItem[]): string {
+    let text = '';
+    let lineY: number | null = null;
+    let lineHeight = 0;
+
+    items.forEach(item => {
+      const y = item.transform[5];
+      if (lineY !== null && text.endsWith('\n') && Math.abs(lineY - y) > Math.max(lineHeight, item.height) * 1.8) {
+        text += '\n';
+      }
+      text += item.str;
+      if (item.hasEOL) {
+        text += '\n';
+        lineY = y;
+        lineHeight = item.height || lineHeight;
+      }
+    });
+
+    return text
+      .replace(/(\p{L})-\n(\p{Ll})/gu, '$1$2') // words hyphenated across lines
+      .replace(/([^\n])\n(?!\n)/g, '$1 ')
+      .replace(/[ \t]+/g, ' ')
+      .replace(/ *\n */g, '\n')
+      .trim();
+  }
+}
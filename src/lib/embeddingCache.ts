@@ -0,0 +1,164 @@
+import { EmbeddingCacheScope, EmbeddingCacheStats } from '@/types';
+import { openDatabase, requestToPromise, transactionDone, isIndexedDBAvailable, STORES } from './indexedDb';
+
+interface CacheEntry {
+  key: string;
+  model: string;
+  dimensions: number;
+  embedding: Float32Array;
+  createdAt: number;
+}
+
+/**
+ * Persistent content-addressed embedding cache stored in IndexedDB.
+ * Entries are keyed by hash(provider + endpoint + model + dimensions + text),
+ * so unchanged rows never need to be re-embedded. Texts over the provider's
+ * token limit also key on how they were shortened, since truncation and
+ * pooling differ.
+ */
+export class EmbeddingCache {
+  /**
+   * Whether the cache can be used in the current environment
+   */
+  static isAvailable(): boolean {
+    return isIndexedDBAvailable();
+  }
+
+  /**
+   * Build the content-addressed cache key for a text. `longTextHandling` names
+   * the strategy and token limit applied to an over-length text.
+   */
+  static async createKey(scope: EmbeddingCacheScope, text: string, longTextHandling?: string): Promise<string> {
+    const input = [scope.provider, scope.endpoint ?? '', scope.model, scope.dimensions, longTextHandling ?? '', text].join('\u0000');
+
+    if (typeof crypto !== 'undefined' && crypto.subtle) {
+      const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+      return Array.from(new Uint8Array(digest))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('');
+    }
+
+    // Fallback for insecure contexts where SubtleCrypto is unavailable
+    return fallbackHash(input);
+  }
+
+  /**
+   * Look up embeddings by key; missing keys map to undefined
+   */
+  static async getMany(keys: string[]): Promise<(number[] | undefined)[]> {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.embeddingCache, 'readonly');
+    const store = transaction.objectStore(STORES.embeddingCache);
+
+    const entries = await Promise.all(
+      keys.map(key => requestToPromise<CacheEntry | undefined>(store.get(key)))
+    );
+
+    return entries.map(entry => entry ? Array.from(entry.embedding) : undefined);
+  }
+
+  /**
+   * Store newly generated embeddings
+   */
+  static async putMany(
+    items: { key: string; embedding: number[] }[],
+    model: string,
+    dimensions: number
+  ): Promise<void> {
+    if (items.length === 0) return;
+
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.embeddingCache, 'readwrite');
+    const store = transaction.objectStore(STORES.embeddingCache);
+    const createdAt = Date.now();
+
+    items.forEach(({ key, embedding }) => {
+      const entry: CacheEntry = {
+        key,
+        model,
+        dimensions,
+        embedding: Float32Array.from(embedding),
+        createdAt
+      };
+      store.put(entry);
+    });
+
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Summarize cache contents per model
+   */
+  static async getStats(): Promise<EmbeddingCacheStats> {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.embeddingCache, 'readonly');
+    const store = transaction.objectStore(STORES.embeddingCache);
+
+    const stats: EmbeddingCacheStats = { totalEntries: 0, approximateBytes: 0, models: [] };
+    const byModel = new Map<string, EmbeddingCacheStats['models'][number]>();
+
+    await new Promise<void>((resolve, reject) => {
+      const request = store.openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+
+        const entry = cursor.value as CacheEntry;
+        const modelKey = `${entry.model}:${entry.dimensions}`;
+        const modelStats = byModel.get(modelKey) || {
+          model: entry.model,
+          dimensions: entry.dimensions,
+          entries: 0,
+          oldestEntry: entry.createdAt,
+          newestEntry: entry.createdAt
+        };
+
+        modelStats.entries++;
+        modelStats.oldestEntry = Math.min(modelStats.oldestEntry, entry.createdAt);
+        modelStats.newestEntry = Math.max(modelStats.newestEntry, entry.createdAt);
+        byModel.set(modelKey, modelStats);
+
+        stats.totalEntries++;
+        stats.approximateBytes += entry.embedding.byteLength + entry.key.length;
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    stats.models = Array.from(byModel.values()).sort((a, b) => b.entries - a.entries);
+    return stats;
+  }
+
+  /**
+   * Remove cached embeddings, optionally only those of a single model
+   */
+  static async clear(model?: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.embeddingCache, 'readwrite');
+    const store = transaction.objectStore(STORES.embeddingCache);
+
+    if (!model) {
+      store.clear();
+    } else {
+      const keys = await requestToPromise(store.index('model').getAllKeys(IDBKeyRange.only(model)));
+      keys.forEach(key => store.delete(key));
+    }
+
+    await transactionDone(transaction);
+  }
+}
+
+// Two independent 32-bit FNV-1a passes combined into a 64-bit hex key
+function fallbackHash(text: string): string {
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 0x01000193);
+    h2 = Math.imul(h2 ^ code, 0x5bd1e995);
+  }
+  return (h1 >>> 0).toString(16).padStart(8, '0') + (h2 >>> 0).toString(16).padStart(8, '0');
+}
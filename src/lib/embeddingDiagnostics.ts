@@ -0,0 +1,472 @@
+import {
+  CategoryOutlier,
+  DataPoint,
+  DiagnosticSeverity,
+  EmbeddingDiagnosticIssue,
+  EmbeddingDiagnosticsReport,
+  SimilarityPair
+} from '@/types';
+
+interface DiagnosticsOptions {
+  nearDuplicateThreshold?: number; // cosine similarity at which two different vectors count as near-duplicates
+  anisotropyThreshold?: number; // mean pairwise cosine above which the space is flagged as anisotropic
+  outlierDeviations?: number; // robust z-score (median/MAD) below the category median that marks an outlier
+  minCategorySize?: number; // smaller categories have no meaningful centroid
+  exactPairLimit?: number; // compare all pairs up to this many vectors, hash above it
+}
+
+interface ValidVector {
+  id: string;
+  category?: string;
+  unit: Float32Array;
+  duplicateGroup: number; // index into exact duplicate groups, -1 when unique
+}
+
+const MAX_LISTED_IDS = 100;
+const MAX_NEAR_DUPLICATES = 1000;
+
+// Random-projection hashing for near-duplicate candidates on large datasets
+const LSH_TABLES = 16;
+const LSH_BITS = 14;
+const LSH_COORDINATES = 32; // non-zero coordinates per (sparse) hyperplane
+const LSH_MAX_COMPARISONS = 1_000_000;
+
+/**
+ * Health checks for a set of embeddings: unusable vectors (NaN, zero, wrong
+ * size), exact and near duplicates, anisotropy and points that sit far from
+ * their category centroid. Intended to catch bad imports before a graph is
+ * built on them.
+ */
+export class EmbeddingDiagnostics {
+  static analyze(dataPoints: DataPoint[], options: DiagnosticsOptions = {}): EmbeddingDiagnosticsReport {
+    const startTime = Date.now();
+    const nearDuplicateThreshold = options.nearDuplicateThreshold ?? 0.98;
+    const anisotropyThreshold = options.anisotropyThreshold ?? 0.5;
+    const outlierDeviations = options.outlierDeviations ?? 3.5;
+    const minCategorySize = options.minCategorySize ?? 5;
+    const exactPairLimit = options.exactPairLimit ?? 2000;
+
+    const withEmbeddings = dataPoints.filter(point => point.embedding && point.embedding.length > 0);
+
+    // The most common length is taken as the dataset's dimensionality
+    const dimensionCounts: Record<number, number> = {};
+    withEmbeddings.forEach(point => {
+      const length = point.embedding!.length;
+      dimensionCounts[length] = (dimensionCounts[length] || 0) + 1;
+    });
+    const dimensions = Number(
+      Object.entries(dimensionCounts).sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0
+    );
+
+    const invalidIds: string[] = [];
+    const zeroIds: string[] = [];
+    const dimensionMismatchIds: string[] = [];
+    const valid: ValidVector[] = [];
+    const rawVectors: number[][] = [];
+    const norm = { min: Infinity, max: 0, mean: 0 };
+
+    withEmbeddings.forEach(point => {
+      const embedding = point.embedding!;
+      if (embedding.length !== dimensions) {
+        dimensionMismatchIds.push(point.id);
+        return;
+      }
+
+      let sumSquares = 0;
+      for (let i = 0; i < embedding.length; i++) {
+        sumSquares += embedding[i] * embedding[i];
+      }
+      if (!Number.isFinite(sumSquares)) {
+        invalidIds.push(point.id);
+        return;
+      }
+
+      const magnitude = Math.sqrt(sumSquares);
+      if (magnitude === 0) {
+        zeroIds.push(point.id);
+        return;
+      }
+
+      norm.min = Math.min(norm.min, magnitude);
+      norm.max = Math.max(norm.max, magnitude);
+      norm.mean += magnitude;
+
+      const unit = new Float32Array(dimensions);
+      for (let i = 0; i < dimensions; i++) {
+        unit[i] = embedding[i] / magnitude;
+      }
+      valid.push({ id: point.id, category: point.category, unit, duplicateGroup: -1 });
+      rawVectors.push(embedding);
+    });
+
+    norm.mean = valid.length > 0 ? norm.mean / valid.length : 0;
+    if (valid.length === 0) norm.min = 0;
+
+    const exactDuplicateGroups = this.findExactDuplicates(valid, rawVectors);
+    const nearDuplicatesApproximate = valid.length > exactPairLimit;
+    const nearDuplicates = nearDuplicatesApproximate
+      ? this.findNearDuplicatesHashed(valid, nearDuplicateThreshold)
+      : this.findNearDuplicatesExact(valid, nearDuplicateThreshold);
+    const meanPairwiseCosine = this.meanPairwiseCosine(valid);
+    const outliers = this.findCategoryOutliers(valid, minCategorySize, outlierDeviations);
+
+    const issues = this.collectIssues({
+      invalidIds,
+      zeroIds,
+      dimensionMismatchIds,
+      dimensions,
+      dimensionCounts,
+      exactDuplicateGroups,
+      nearDuplicates,
+      nearDuplicateThreshold,
+      nearDuplicatesApproximate,
+      meanPairwiseCosine,
+      anisotropyThreshold,
+      outliers,
+      norm
+    });
+
+    const severities: DiagnosticSeverity[] = ['error', 'warning', 'info'];
+    const status = severities.find(severity => issues.some(issue => issue.severity === severity)) ?? 'ok';
+
+    return {
+      status,
+      issues,
+      totalPoints: dataPoints.length,
+      withEmbeddings: withEmbeddings.length,
+      dimensions,
+      dimensionCounts,
+      invalidIds,
+      zeroIds,
+      dimensionMismatchIds,
+      exactDuplicateGroups,
+      nearDuplicates,
+      nearDuplicateThreshold,
+      nearDuplicatesApproximate,
+      meanPairwiseCosine,
+      norm,
+      outliers,
+      durationMs: Date.now() - startTime
+    };
+  }
+
+  /**
+   * Whether a report has problems that make a graph built on the data misleading
+   */
+  static hasBlockingIssues(report: EmbeddingDiagnosticsReport): boolean {
+    return report.status === 'error';
+  }
+
+  /**
+   * Groups of points with bit-identical vectors
+   */
+  private static findExactDuplicates(valid: ValidVector[], rawVectors: number[][]): string[][] {
+    const buckets = new Map<number, number[]>();
+    rawVectors.forEach((vector, index) => {
+      const hash = hashVector(vector);
+      const bucket = buckets.get(hash);
+      if (bucket) bucket.push(index);
+      else buckets.set(hash, [index]);
+    });
+
+    const groups: string[][] = [];
+    buckets.forEach(indices => {
+      if (indices.length < 2) return;
+
+      // Hash collisions are split by comparing the actual values
+      const remaining = [...indices];
+      while (remaining.length > 1) {
+        const first = remaining.shift()!;
+        const same = remaining.filter(index => vectorsEqual(rawVectors[first], rawVectors[index]));
+        if (same.length === 0) continue;
+
+        const groupIndex = groups.length;
+        [first, ...same].forEach(index => {
+          valid[index].duplicateGroup = groupIndex;
+        });
+        groups.push([first, ...same].map(index => valid[index].id));
+        same.forEach(index => remaining.splice(remaining.indexOf(index), 1));
+      }
+    });
+
+    return groups;
+  }
+
+  private static findNearDuplicatesExact(valid: ValidVector[], threshold: number): SimilarityPair[] {
+    const pairs: SimilarityPair[] = [];
+
+    for (let i = 0; i < valid.length; i++) {
+      for (let j = i + 1; j < valid.length; j++) {
+        this.checkNearDuplicate(valid[i], valid[j], threshold, pairs);
+      }
+    }
+
+    return this.topPairs(pairs);
+  }
+
+  /**
+   * Candidate pairs from sign-random-projection hashing (on centered vectors,
+   * so anisotropic spaces do not fall into a few buckets), verified exactly
+   */
+  private static findNearDuplicatesHashed(valid: ValidVector[], threshold: number): SimilarityPair[] {
+    const dimensions = valid[0].unit.length;
+    const mean = new Float32Array(dimensions);
+    valid.forEach(({ unit }) => {
+      for (let i = 0; i < dimensions; i++) mean[i] += unit[i] / valid.length;
+    });
+
+    const random = mulberry32(42);
+    const coordinates = Math.min(LSH_COORDINATES, dimensions);
+    const pairs: SimilarityPair[] = [];
+    const seen = new Set<number>();
+    let comparisons = 0;
+
+    for (let table = 0; table < LSH_TABLES && comparisons < LSH_MAX_COMPARISONS; table++) {
+      const planes = Array.from({ length: LSH_BITS }, () => ({
+        indices: Array.from({ length: coordinates }, () => Math.floor(random() * dimensions)),
+        signs: Array.from({ length: coordinates }, () => random() < 0.5 ? -1 : 1)
+      }));
+
+      const buckets = new Map<number, number[]>();
+      valid.forEach(({ unit }, index) => {
+        let hash = 0;
+        planes.forEach(({ indices, signs }, bit) => {
+          let projection = 0;
+          for (let k = 0; k < indices.length; k++) {
+            projection += signs[k] * (unit[indices[k]] - mean[indices[k]]);
+          }
+          if (projection > 0) hash |= 1 << bit;
+        });
+
+        const bucket = buckets.get(hash);
+        if (bucket) bucket.push(index);
+        else buckets.set(hash, [index]);
+      });
+
+      buckets.forEach(bucket => {
+        for (let a = 0; a < bucket.length && comparisons < LSH_MAX_COMPARISONS; a++) {
+          for (let b = a + 1; b < bucket.length; b++) {
+            const key = bucket[a] * valid.length + bucket[b];
+            if (seen.has(key)) continue;
+            seen.add(key);
+            comparisons++;
+            this.checkNearDuplicate(valid[bucket[a]], valid[bucket[b]], threshold, pairs);
+          }
+        }
+      });
+    }
+
+    return this.topPairs(pairs);
+  }
+
+  private static checkNearDuplicate(a: ValidVector, b: ValidVector, threshold: number, pairs: SimilarityPair[]): void {
+    // Identical vectors are reported as exact duplicates
+    if (a.duplicateGroup !== -1 && a.duplicateGroup === b.duplicateGroup) return;
+
+    const similarity = dot(a.unit, b.unit);
+    if (similarity >= threshold) {
+      pairs.push({ id1: a.id, id2: b.id, similarity });
+    }
+  }
+
+  private static topPairs(pairs: SimilarityPair[]): SimilarityPair[] {
+    return pairs.sort((a, b) => b.similarity - a.similarity).slice(0, MAX_NEAR_DUPLICATES);
+  }
+
+  /**
+   * Mean cosine over all distinct pairs, from the sum of unit vectors:
+   * (|Σu|² - n) / (n(n - 1))
+   */
+  private static meanPairwiseCosine(valid: ValidVector[]): number {
+    const n = valid.length;
+    if (n < 2) return 0;
+
+    const sum = new Float64Array(valid[0].unit.length);
+    valid.forEach(({ unit }) => {
+      for (let i = 0; i < unit.length; i++) sum[i] += unit[i];
+    });
+
+    let squaredNorm = 0;
+    for (let i = 0; i < sum.length; i++) squaredNorm += sum[i] * sum[i];
+
+    return (squaredNorm - n) / (n * (n - 1));
+  }
+
+  /**
+   * Points whose similarity to their category centroid is far below the
+   * category median (robust z-score using the median absolute deviation)
+   */
+  private static findCategoryOutliers(valid: ValidVector[], minCategorySize: number, deviations: number): CategoryOutlier[] {
+    const byCategory = new Map<string, ValidVector[]>();
+    valid.forEach(vector => {
+      if (!vector.category) return;
+      const members = byCategory.get(vector.category);
+      if (members) members.push(vector);
+      else byCategory.set(vector.category, [vector]);
+    });
+
+    const outliers: CategoryOutlier[] = [];
+
+    byCategory.forEach((members, category) => {
+      if (members.length < minCategorySize) return;
+
+      const centroid = new Float32Array(members[0].unit.length);
+      members.forEach(({ unit }) => {
+        for (let i = 0; i < unit.length; i++) centroid[i] += unit[i];
+      });
+      const centroidNorm = Math.sqrt(dot(centroid, centroid));
+      if (centroidNorm === 0) return;
+
+      const similarities = members.map(({ unit }) => dot(unit, centroid) / centroidNorm);
+      const median = medianOf(similarities);
+      const mad = medianOf(similarities.map(value => Math.abs(value - median))) * 1.4826;
+      if (mad === 0) return;
+
+      similarities.forEach((similarity, index) => {
+        if ((median - similarity) / mad > deviations) {
+          outliers.push({ id: members[index].id, category, similarity, categoryMedian: median });
+        }
+      });
+    });
+
+    return outliers.sort((a, b) => (a.similarity - a.categoryMedian) - (b.similarity - b.categoryMedian));
+  }
+
+  private static collectIssues(report: {
+    invalidIds: string[];
+    zeroIds: string[];
+    dimensionMismatchIds: string[];
+    dimensions: number;
+    dimensionCounts: Record<number, number>;
+    exactDuplicateGroups: string[][];
+    nearDuplicates: SimilarityPair[];
+    nearDuplicateThreshold: number;
+    nearDuplicatesApproximate: boolean;
+    meanPairwiseCosine: number;
+    anisotropyThreshold: number;
+    outliers: CategoryOutlier[];
+    norm: { min: number; max: number; mean: number };
+  }): EmbeddingDiagnosticIssue[] {
+    const issues: EmbeddingDiagnosticIssue[] = [];
+    const listed = (ids: string[]) => ids.slice(0, MAX_LISTED_IDS);
+
+    if (report.invalidIds.length > 0) {
+      issues.push({
+        type: 'invalid_values',
+        severity: 'error',
+        message: `${report.invalidIds.length} embeddings contain NaN or infinite values`,
+        pointIds: listed(report.invalidIds)
+      });
+    }
+
+    if (report.zeroIds.length > 0) {
+      issues.push({
+        type: 'zero_vector',
+        severity: 'error',
+        message: `${report.zeroIds.length} embeddings are all zeros`,
+        pointIds: listed(report.zeroIds)
+      });
+    }
+
+    if (report.dimensionMismatchIds.length > 0) {
+      const sizes = Object.keys(report.dimensionCounts).filter(size => Number(size) !== report.dimensions);
+      issues.push({
+        type: 'dimension_mismatch',
+        severity: 'error',
+        message: `${report.dimensionMismatchIds.length} embeddings have ${sizes.join('/')} dimensions instead of ${report.dimensions}`,
+        pointIds: listed(report.dimensionMismatchIds)
+      });
+    }
+
+    if (report.exactDuplicateGroups.length > 0) {
+      const points = report.exactDuplicateGroups.reduce((sum, group) => sum + group.length, 0);
+      issues.push({
+        type: 'exact_duplicate',
+        severity: 'warning',
+        message: `${points} points share ${report.exactDuplicateGroups.length} identical vectors (duplicated rows or a broken join)`,
+        pointIds: listed(report.exactDuplicateGroups.flat())
+      });
+    }
+
+    if (report.nearDuplicates.length > 0) {
+      issues.push({
+        type: 'near_duplicate',
+        severity: 'warning',
+        message: `${report.nearDuplicates.length}${report.nearDuplicates.length >= MAX_NEAR_DUPLICATES ? '+' : ''} pairs have cosine similarity ≥ ${report.nearDuplicateThreshold}` +
+          (report.nearDuplicatesApproximate ? ' (sampled by hashing; some pairs may be missed)' : ''),
+        pointIds: listed(report.nearDuplicates.flatMap(pair => [pair.id1, pair.id2]))
+      });
+    }
+
+    if (report.meanPairwiseCosine >= report.anisotropyThreshold) {
+      issues.push({
+        type: 'anisotropy',
+        severity: 'warning',
+        message: `Mean pairwise cosine is ${report.meanPairwiseCosine.toFixed(3)}: vectors crowd into a narrow cone, so fixed similarity thresholds connect almost everything`,
+        pointIds: []
+      });
+    }
+
+    if (report.outliers.length > 0) {
+      issues.push({
+        type: 'category_outlier',
+        severity: 'info',
+        message: `${report.outliers.length} points are far from their category centroid (possible mislabels or off-topic text)`,
+        pointIds: listed(report.outliers.map(outlier => outlier.id))
+      });
+    }
+
+    if (report.norm.min > 0 && report.norm.max / report.norm.min > 1.05) {
+      issues.push({
+        type: 'unnormalized',
+        severity: 'info',
+        message: `Vector lengths range from ${report.norm.min.toFixed(3)} to ${report.norm.max.toFixed(3)}; cosine similarity is unaffected, but mixed lengths can mean vectors from different sources`,
+        pointIds: []
+      });
+    }
+
+    return issues;
+  }
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function medianOf(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// FNV-1a over the float64 bit patterns
+function hashVector(vector: number[]): number {
+  const words = new Uint32Array(Float64Array.from(vector).buffer);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < words.length; i++) {
+    hash ^= words[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function vectorsEqual(a: number[], b: number[]): boolean {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+// Small seeded PRNG so hashing, and therefore the report, is reproducible
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
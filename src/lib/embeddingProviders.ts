@@ -0,0 +1,371 @@
+import {
+  EmbeddingProvider,
+  EmbeddingProviderConfig,
+  EmbeddingProviderFactory,
+  EmbeddingProviderPricing,
+  EmbeddingBatchResult,
+  EndpointAuthScheme,
+  RateLimitInfo
+} from '@/types';
+import { LocalEmbeddingProvider } from './localEmbedder';
+import { parseRateLimitHeaders } from './rateLimiter';
+
+interface OpenAIEmbeddingResponse {
+  object: string;
+  data: Array<{
+    object: string;
+    embedding: number[];
+    index: number;
+  }>;
+  model: string;
+  usage: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+}
+
+interface OpenAIModelInfo {
+  dimensions: number; // native size
+  costPer1KTokens: number;
+  dimensionOptions?: number[]; // sizes offered for the `dimensions` parameter (v3 models only)
+}
+
+export const OPENAI_EMBEDDING_MODELS: Record<string, OpenAIModelInfo> = {
+  'text-embedding-3-small': { dimensions: 1536, costPer1KTokens: 0.00002, dimensionOptions: [1536, 1024, 512, 256] },
+  'text-embedding-3-large': { dimensions: 3072, costPer1KTokens: 0.00013, dimensionOptions: [3072, 1536, 1024, 256] },
+  'text-embedding-ada-002': { dimensions: 1536, costPer1KTokens: 0.0001 }
+};
+
+/**
+ * Whether a model accepts `dimensions` as a shortened output size
+ */
+export function isValidOpenAIDimensions(model: string, dimensions: number): boolean {
+  const modelInfo = OPENAI_EMBEDDING_MODELS[model];
+  if (!modelInfo) return false;
+  if (dimensions === modelInfo.dimensions) return true;
+  return Boolean(modelInfo.dimensionOptions) && Number.isInteger(dimensions) && dimensions > 0 && dimensions < modelInfo.dimensions;
+}
+
+/**
+ * HTTP error from an embedding endpoint, carrying what the scheduler needs to back off
+ */
+export class EmbeddingRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfterMs?: number,
+    readonly rateLimit?: RateLimitInfo
+  ) {
+    super(message);
+    this.name = 'EmbeddingRequestError';
+  }
+}
+
+const OPENAI_EMBEDDINGS_URL = 'https://api.openai.com/v1/embeddings';
+
+// Same-origin route handler that adds the server's OPENAI_API_KEY
+export const EMBEDDING_PROXY_URL = '/api/embeddings';
+
+export const DEFAULT_AZURE_API_VERSION = '2024-02-01';
+
+/**
+ * Parse extra request headers written one "Name: value" per line
+ */
+export function parseExtraHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  text.split('\n').forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    const separator = trimmed.indexOf(':');
+    const name = separator > 0 ? trimmed.slice(0, separator).trim() : '';
+    if (!/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name)) {
+      throw new Error(`Invalid header on line ${index + 1}: expected "Name: value"`);
+    }
+    headers[name] = trimmed.slice(separator + 1).trim();
+  });
+
+  return headers;
+}
+
+/**
+ * Build the embeddings URL for a base URL. With an Azure deployment the path
+ * is /openai/deployments/{deployment}/embeddings; otherwise /embeddings is
+ * appended unless the URL already ends with it.
+ */
+export function buildEmbeddingsUrl(baseUrl: string, deployment?: string, apiVersion?: string): string {
+  const base = baseUrl.trim().replace(/\/+$/, '');
+  if (!base) {
+    throw new Error('Endpoint base URL is required');
+  }
+
+  const path = deployment
+    ? `${base.replace(/\/openai$/, '')}/openai/deployments/${encodeURIComponent(deployment)}/embeddings`
+    : base.endsWith('/embeddings') ? base : `${base}/embeddings`;
+
+  const version = apiVersion || (deployment ? DEFAULT_AZURE_API_VERSION : '');
+  return version ? `${path}${path.includes('?') ? '&' : '?'}api-version=${encodeURIComponent(version)}` : path;
+}
+
+/**
+ * Canonical form of an endpoint URL, so that spellings of the same endpoint
+ * share cached vectors: lower-case scheme and host, no default port and no
+ * trailing slash. Relative URLs (the server proxy) are only trimmed.
+ */
+export function normalizeEndpointUrl(url: string): string {
+  const trimmed = url.trim();
+  try {
+    const parsed = new URL(trimmed);
+    return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+  } catch {
+    return trimmed.replace(/\/+$/, '');
+  }
+}
+
+/**
+ * OpenAI embeddings API provider. The request target is configurable:
+ * - `endpoint`: full URL (e.g. the server proxy), no auth by default
+ * - `baseUrl` (+ optional Azure `deployment`/`apiVersion`): any OpenAI-compatible server
+ * - `authScheme`: `bearer` (Authorization header), `api-key` (Azure) or `none`
+ * - `headers`: extra headers sent with every request
+ * Models outside OPENAI_EMBEDDING_MODELS report their size from the first response.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string = 'openai';
+  readonly name: string = 'OpenAI';
+  readonly model: string;
+  readonly maxBatchSize: number;
+  readonly maxTokens: number;
+  readonly maxTokensPerRequest = 300000;
+  readonly pricing: EmbeddingProviderPricing;
+  readonly cacheable: boolean;
+  readonly endpoint: string;
+  dimensions: number;
+
+  private apiKey: string;
+  private url: string;
+  private authScheme: EndpointAuthScheme;
+  private extraHeaders: Record<string, string>;
+  private deployment: string;
+  private sendDimensions: boolean;
+
+  constructor(config: EmbeddingProviderConfig) {
+    this.apiKey = config.apiKey || '';
+    this.deployment = config.deployment || '';
+    this.url = config.baseUrl
+      ? buildEmbeddingsUrl(config.baseUrl, this.deployment, config.apiVersion)
+      : config.endpoint || OPENAI_EMBEDDINGS_URL;
+    this.endpoint = normalizeEndpointUrl(this.url);
+    this.authScheme = config.authScheme || (config.baseUrl || !config.endpoint ? 'bearer' : 'none');
+    this.extraHeaders = config.headers || {};
+    this.model = config.model || this.deployment || 'text-embedding-3-small'; // Cheaper and faster
+    this.maxBatchSize = config.maxBatchSize || 50; // OpenAI API limit
+    this.maxTokens = config.maxTokens || 8191;
+
+    if (this.authScheme !== 'none' && !this.apiKey) {
+      throw new Error(`An API key is required for ${this.authScheme === 'api-key' ? 'api-key' : 'Bearer'} authentication`);
+    }
+
+    const modelInfo = OPENAI_EMBEDDING_MODELS[this.model];
+    if (modelInfo) {
+      if (config.dimensions && !isValidOpenAIDimensions(this.model, config.dimensions)) {
+        throw new Error(`${this.model} does not support ${config.dimensions} dimensions`);
+      }
+      this.dimensions = config.dimensions || modelInfo.dimensions;
+      this.sendDimensions = this.dimensions !== modelInfo.dimensions;
+    } else {
+      // Unknown model on a compatible server: pass `dimensions` through as given
+      this.dimensions = config.dimensions || 0;
+      this.sendDimensions = Boolean(config.dimensions);
+    }
+
+    // The cache is keyed by size, so wait until it is known
+    this.cacheable = this.dimensions > 0;
+    this.pricing = { costPer1KTokens: config.costPer1KTokens ?? modelInfo?.costPer1KTokens ?? 0 };
+  }
+
+  async embedBatch(texts: string[], signal?: AbortSignal): Promise<EmbeddingBatchResult> {
+    try {
+      const headers: Record<string, string> = { ...this.extraHeaders, 'Content-Type': 'application/json' };
+      if (this.authScheme === 'bearer') {
+        headers['Authorization'] = `Bearer ${this.apiKey}`;
+      } else if (this.authScheme === 'api-key') {
+        headers['api-key'] = this.apiKey;
+      }
+
+      const response = await fetch(this.url, {
+        method: 'POST',
+        signal,
+        headers,
+        body: JSON.stringify({
+          // Azure takes the model from the deployment path
+          ...(this.deployment ? {} : { model: this.model }),
+          input: texts,
+          encoding_format: 'float',
+          ...(this.sendDimensions ? { dimensions: this.dimensions } : {})
+        }),
+      });
+
+      const rateLimit = parseRateLimitHeaders(response.headers);
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        const fail = (message: string) => {
+          throw new EmbeddingRequestError(message, response.status, rateLimit.retryAfterMs, rateLimit);
+        };
+
+        if (response.status === 429) {
+          fail('Rate limit exceeded. Please try again in a moment.');
+        } else if (response.status === 401) {
+          fail(`Invalid API key. Please check your ${this.name} API key.`);
+        } else if (response.status === 404) {
+          fail(`Endpoint not found (404): check the base URL${this.deployment ? ', deployment name and API version' : ''}`);
+        } else if (response.status === 400) {
+          fail(`Bad request: ${errorData.error?.message || 'Invalid request format'}`);
+        } else if (response.status >= 500) {
+          fail(`Server error (${response.status}): ${errorData.error?.message || 'Please try again later'}`);
+        } else {
+          fail(`API error (${response.status}): ${errorData.error?.message || 'Unknown error'}`);
+        }
+      }
+
+      const data: OpenAIEmbeddingResponse = await response.json();
+
+      if (!data.data || !Array.isArray(data.data)) {
+        throw new Error(`Invalid response format from ${this.name} API`);
+      }
+
+      // Sort by index to maintain order
+      const sortedData = data.data.sort((a, b) => a.index - b.index);
+      const embeddings = sortedData.map(item => item.embedding);
+
+      if (embeddings.length > 0) {
+        if (!this.dimensions) {
+          this.dimensions = embeddings[0].length;
+        } else if (embeddings[0].length !== this.dimensions) {
+          throw new Error(`${this.name} returned ${embeddings[0].length}-dimensional embeddings, expected ${this.dimensions}`);
+        }
+      }
+
+      return {
+        embeddings,
+        totalTokens: data.usage?.total_tokens,
+        rateLimit
+      };
+
+    } catch (error: any) {
+      if (error.name === 'TypeError' && error.message.includes('fetch')) {
+        throw new Error(`Network error. Please check your internet connection${this.url === OPENAI_EMBEDDINGS_URL ? '' : ' and that the endpoint allows requests from this origin (CORS)'}.`);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Any OpenAI-compatible embeddings endpoint: Azure OpenAI deployments,
+ * gateways such as LiteLLM, or local servers (llama.cpp, vLLM, Ollama)
+ */
+export class OpenAICompatibleEmbeddingProvider extends OpenAIEmbeddingProvider {
+  readonly id = 'openai-compatible';
+  readonly name = 'OpenAI-compatible endpoint';
+
+  constructor(config: EmbeddingProviderConfig) {
+    if (!config.baseUrl) {
+      throw new Error('Endpoint base URL is required');
+    }
+    super(config);
+  }
+}
+
+/**
+ * OpenAI embeddings through the app's own /api/embeddings route, so the API
+ * key stays on the server
+ */
+export class OpenAIProxyEmbeddingProvider extends OpenAIEmbeddingProvider {
+  readonly id = 'openai-proxy';
+  readonly name = 'OpenAI (server proxy)';
+
+  constructor(config: EmbeddingProviderConfig) {
+    super({ ...config, apiKey: undefined, authScheme: 'none', baseUrl: undefined, endpoint: config.endpoint || EMBEDDING_PROXY_URL });
+  }
+}
+
+/**
+ * Registry of available embedding providers. Additional backends can be
+ * registered at startup and then selected by id.
+ */
+export class EmbeddingProviderRegistry {
+  private static providers = new Map<string, {
+    name: string;
+    factory: EmbeddingProviderFactory;
+    requiresApiKey: boolean | ((config: EmbeddingProviderConfig) => boolean);
+    fitsCorpus: boolean;
+  }>();
+
+  static register(
+    id: string,
+    name: string,
+    factory: EmbeddingProviderFactory,
+    options: { requiresApiKey?: boolean | ((config: EmbeddingProviderConfig) => boolean); fitsCorpus?: boolean } = {}
+  ): void {
+    this.providers.set(id, { name, factory, requiresApiKey: options.requiresApiKey ?? true, fitsCorpus: options.fitsCorpus ?? false });
+  }
+
+  static create(id: string, config: EmbeddingProviderConfig = {}): EmbeddingProvider {
+    const entry = this.providers.get(id);
+    if (!entry) {
+      throw new Error(`Unknown embedding provider: ${id}`);
+    }
+    return entry.factory(config);
+  }
+
+  static has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  /**
+   * Whether the provider needs an API key; some decide from their config (e.g. auth scheme)
+   */
+  static requiresApiKey(id: string, config: EmbeddingProviderConfig = {}): boolean {
+    const requiresApiKey = this.providers.get(id)?.requiresApiKey ?? true;
+    return typeof requiresApiKey === 'function' ? requiresApiKey(config) : requiresApiKey;
+  }
+
+  /**
+   * Whether the provider is fitted on the texts of a run (see EmbeddingProvider.prepare),
+   * so vectors from separate runs are not comparable
+   */
+  static fitsCorpus(id: string): boolean {
+    return this.providers.get(id)?.fitsCorpus ?? false;
+  }
+
+  static list(): { id: string; name: string; requiresApiKey: boolean }[] {
+    return Array.from(this.providers.keys()).map(id => ({
+      id,
+      name: this.providers.get(id)!.name,
+      requiresApiKey: this.requiresApiKey(id)
+    }));
+  }
+}
+
+EmbeddingProviderRegistry.register('openai', 'OpenAI', config => new OpenAIEmbeddingProvider(config));
+EmbeddingProviderRegistry.register(
+  'openai-proxy',
+  'OpenAI (server proxy)',
+  config => new OpenAIProxyEmbeddingProvider(config),
+  { requiresApiKey: false }
+);
+EmbeddingProviderRegistry.register(
+  'openai-compatible',
+  'OpenAI-compatible / Azure',
+  config => new OpenAICompatibleEmbeddingProvider(config),
+  { requiresApiKey: config => config.authScheme !== 'none' }
+);
+EmbeddingProviderRegistry.register(
+  'local',
+  'Local (offline TF-IDF)',
+  config => new LocalEmbeddingProvider(config),
+  { requiresApiKey: false, fitsCorpus: true }
+);
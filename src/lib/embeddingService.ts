@@ -1,59 +1,131 @@
-import { DataPoint, ProgressCallback, ProcessingProgress } from '@/types';
+import {
+  BudgetSettings,
+  CostEstimate,
+  CostLedgerEntry,
+  DataPoint,
+  EmbeddingBatchResult,
+  EmbeddingInfo,
+  EmbeddingJob,
+  EmbeddingProvider,
+  EmbeddingProviderConfig,
+  EmbeddingSessionCheckpoint,
+  LongTextStrategy,
+  ProgressCallback,
+  ProcessingProgress,
+  SessionSpend
+} from '@/types';
 import { DataProcessor } from './dataProcessor';
+import { EmbeddingProviderRegistry, EmbeddingRequestError } from './embeddingProviders';
+import { EmbeddingCache } from './embeddingCache';
+import { TokenCounter } from './tokenizer';
+import { AdaptiveRateLimiter } from './rateLimiter';
+import { SessionCheckpointStore } from './sessionCheckpoints';
+import { CostLedger } from './costLedger';
+import { EmbeddingDiagnostics } from './embeddingDiagnostics';
+import { TextTemplates } from './textTemplates';
+
+export interface EmbeddingServiceOptions {
+  useCache?: boolean; // consult the persistent IndexedDB cache (default: true)
+  longTextStrategy?: LongTextStrategy; // texts over the per-input token limit (default: 'truncate')
+  providerConfig?: EmbeddingProviderConfig; // config the provider was created from; enables session checkpoints
+  budget?: BudgetSettings; // spending caps enforced per session and per calendar month
+  textTemplate?: string; // how data points become embedding input (default: legacy field combination)
+}
+
+export interface SessionOptions {
+  resume?: EmbeddingSessionCheckpoint; // continue a checkpointed session
+  dataset?: DataPoint[]; // full dataset to restore on resume, when only part of it is embedded
+  datasetName?: string; // shown in the cost ledger
+}
 
-interface OpenAIEmbeddingResponse {
-  object: string;
-  data: Array<{
-    object: string;
-    embedding: number[];
-    index: number;
-  }>;
-  model: string;
-  usage: {
-    prompt_tokens: number;
-    total_tokens: number;
-  };
+// One request input: a whole job, or one token window of an over-length job
+interface EmbeddingSegment {
+  job: EmbeddingJob;
+  text: string;
+  tokens: number;
+  embedding?: number[];
 }
 
 interface ProcessingSession {
   id: string;
   totalItems: number;
   processedItems: number;
-  embeddings: number[][];
-  errors: string[];
+  jobs: EmbeddingJob[];
   startTime: number;
   estimatedCost: number;
 }
 
 export class EmbeddingService {
-  private apiKey: string;
-  private readonly MODEL = 'text-embedding-3-small'; // Cheaper and faster
-  private readonly MAX_BATCH_SIZE = 50; // OpenAI API limit
+  private provider: EmbeddingProvider;
+  private useCache: boolean;
+  private longTextStrategy: LongTextStrategy;
+  private rateLimiter: AdaptiveRateLimiter;
+  private providerConfig: EmbeddingProviderConfig | null;
+  private budget: BudgetSettings;
+  private textTemplate: string | undefined;
+  private spend: SessionSpend | null = null;
+  private ledgerEntry: CostLedgerEntry | null = null;
   private readonly MAX_RETRIES = 3;
-  private readonly RATE_LIMIT_DELAY = 200; // ms between requests
-  private readonly MAX_CONCURRENT_REQUESTS = 3; // Parallel processing limit
+  private readonly MAX_RATE_LIMIT_RETRIES = 10; // 429s wait for Retry-After instead of using up MAX_RETRIES
+  private readonly MAX_CONCURRENT_REQUESTS = 3; // Initial parallelism; adapted by the rate limiter
   private readonly MEMORY_THRESHOLD = 0.8; // 80% memory usage threshold
+  private readonly CHARS_PER_TOKEN = 4; // fallback when the tokenizer cannot be loaded
   
   // Session management for large datasets
   private currentSession: ProcessingSession | null = null;
+  private lastJobs: EmbeddingJob[] = [];
+  private abortController: AbortController | null = null;
+  private pausePromise: Promise<void> | null = null;
+  private resumePaused: (() => void) | null = null;
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+  /**
+   * Accepts any registered embedding provider; a plain API key is kept
+   * for compatibility and creates the default OpenAI provider.
+   */
+  constructor(providerOrApiKey: EmbeddingProvider | string, options: EmbeddingServiceOptions = {}) {
+    this.provider = typeof providerOrApiKey === 'string'
+      ? EmbeddingProviderRegistry.create('openai', { apiKey: providerOrApiKey })
+      : providerOrApiKey;
+    this.useCache = options.useCache ?? true;
+    this.longTextStrategy = options.longTextStrategy ?? 'truncate';
+    this.rateLimiter = new AdaptiveRateLimiter({ initialConcurrency: this.MAX_CONCURRENT_REQUESTS });
+    this.providerConfig = options.providerConfig ?? null;
+    this.budget = options.budget ?? {};
+    this.textTemplate = options.textTemplate;
+  }
+
+  /**
+   * The provider used for embedding requests
+   */
+  getProvider(): EmbeddingProvider {
+    return this.provider;
   }
 
   /**
-   * Enhanced processing for DataPoints with session management
+   * Enhanced processing for DataPoints with session management.
+   * If the session is cancelled, resolves with the rows embedded so far;
+   * rows without a new vector keep the one they had. Per-item outcomes are available afterwards from getLastJobs().
+   * Finished batches are checkpointed so an interrupted run can be resumed
+   * by passing its checkpoint as `session.resume`.
    */
   async processDataPointsWithEmbeddings(
     dataPoints: DataPoint[],
-    onProgress?: (progress: ProcessingProgress) => void
+    onProgress?: (progress: ProcessingProgress) => void,
+    session: SessionOptions = {}
   ): Promise<DataPoint[]> {
     if (dataPoints.length === 0) {
       return [];
     }
+    // A provider fitted on the corpus (e.g. local TF-IDF) would fit on the subset alone, in a different vector space
+    if (this.provider.prepare && session.dataset && dataPoints.length < session.dataset.length) {
+      throw new Error(`${this.provider.name} is fitted on the whole dataset, so part of it cannot be embedded on its own - embed all items instead`);
+    }
 
-    const sessionId = `session_${Date.now()}`;
+    const sessionId = session.resume?.id ?? `session_${Date.now()}`;
+    const checkpointing = this.providerConfig !== null && SessionCheckpointStore.isAvailable();
     const startTime = Date.now();
+    this.abortController = new AbortController();
+    const signal = this.abortController.signal;
 
     try {
       // Initialize session
@@ -61,8 +133,7 @@ export class EmbeddingService {
         id: sessionId,
         totalItems: dataPoints.length,
         processedItems: 0,
-        embeddings: [],
-        errors: [],
+        jobs: [],
         startTime,
         estimatedCost: 0
       };
@@ -75,11 +146,96 @@ export class EmbeddingService {
         message: 'Initializing embedding generation...'
       });
 
-      // Estimate cost
-      const texts = dataPoints.map(point => DataProcessor.combineTextForEmbedding(point));
-      const costEstimate = await this.estimateCost(texts.length, texts.slice(0, 10));
+      // One job per data point; embeddings are matched back through the job, never by position
+      const texts = dataPoints.map(point => DataProcessor.combineTextForEmbedding(point, this.textTemplate));
+      const jobs: EmbeddingJob[] = dataPoints.map((point, index) => ({
+        id: point.id,
+        text: texts[index],
+        status: 'pending'
+      }));
+      this.currentSession.jobs = jobs;
+      this.lastJobs = jobs;
+
+      jobs.forEach(job => {
+        if (this.cleanText(job.text).length === 0) {
+          job.status = 'error';
+          job.error = 'No text to embed';
+        }
+      });
+
+      // Let corpus-aware providers (e.g. the local TF-IDF embedder) fit on the full dataset
+      if (this.provider.prepare) {
+        onProgress?.({
+          stage: 'processing',
+          progress: 7,
+          current: 0,
+          total: dataPoints.length,
+          message: `Preparing ${this.provider.name} embedder...`
+        });
+        await this.provider.prepare(texts);
+      }
+
+      // Pick up embeddings checkpointed before the interruption
+      let resumedCount = 0;
+      if (session.resume) {
+        const saved = await this.loadCheckpointEmbeddings(sessionId);
+        jobs.forEach(job => {
+          const embedding = saved.get(job.id);
+          if (job.status === 'pending' && embedding) {
+            job.status = 'completed';
+            job.embedding = embedding;
+            resumedCount++;
+          }
+        });
+      }
+
+      // Consult the persistent cache so unchanged rows are not re-sent
+      const { cacheKeys, cachedEmbeddings } = await this.lookupCache(texts);
+      let cacheHits = 0;
+      jobs.forEach((job, index) => {
+        if (job.status === 'pending' && cachedEmbeddings[index]) {
+          job.status = 'completed';
+          job.embedding = cachedEmbeddings[index];
+          cacheHits++;
+        }
+      });
+
+      const pendingJobs = jobs.filter(job => job.status === 'pending');
+      const cacheSummary = (session.resume ? `resumed: ${resumedCount}, ` : '') +
+        `cache: ${cacheHits} hits, ${pendingJobs.length} misses`;
+
+      // Estimate cost; a resumed session keeps the estimate it was started with
+      const costEstimate = session.resume
+        ? { cost: session.resume.estimatedCost }
+        : await this.estimateCost(pendingJobs.length, pendingJobs.map(job => job.text));
       this.currentSession.estimatedCost = costEstimate.cost;
 
+      if (checkpointing && !session.resume) {
+        await this.createCheckpoint(sessionId, dataPoints, session, costEstimate.cost);
+      }
+
+      // Budget allowance and ledger entry for this run
+      const monthSpent = await this.getMonthSpend();
+      this.spend = { tokens: 0, cost: 0, reserved: 0, limit: this.getBudgetLimit(monthSpent), capReached: false };
+      this.ledgerEntry = {
+        id: `${sessionId}_${startTime}`,
+        startedAt: startTime,
+        provider: this.provider.name,
+        model: this.provider.model,
+        dimensions: this.provider.dimensions,
+        datasetName: session.datasetName || session.resume?.datasetName || 'Untitled dataset',
+        items: dataPoints.length,
+        embedded: 0,
+        tokens: 0,
+        cost: 0,
+        status: 'running'
+      };
+      await this.recordLedger();
+
+      if (this.spend.limit < costEstimate.cost) {
+        console.warn(`Estimated cost $${costEstimate.cost.toFixed(4)} exceeds the remaining budget of $${this.spend.limit.toFixed(4)}; the run will stop at the cap`);
+      }
+
       // Warn for large datasets
       if (dataPoints.length > 1000) {
         console.log(`Processing large dataset: ${dataPoints.length} items, estimated cost: $${costEstimate.cost.toFixed(4)}`);
@@ -90,11 +246,15 @@ export class EmbeddingService {
         progress: 10,
         current: 0,
         total: dataPoints.length,
-        message: `Generating embeddings (estimated cost: $${costEstimate.cost.toFixed(4)})...`
+        message: `Generating embeddings (${cacheSummary}, estimated cost: $${costEstimate.cost.toFixed(4)})...`
       });
 
-      // Generate embeddings with advanced chunking
-      const embeddings = await this.generateEmbeddingsAdvanced(texts, (progress, status) => {
+      // Generate embeddings with advanced chunking, checkpointing each finished batch
+      const onJobsCompleted = checkpointing
+        ? (completed: EmbeddingJob[]) => this.checkpointJobs(sessionId, completed)
+        : undefined;
+
+      await this.generateEmbeddingsAdvanced(pendingJobs, signal, (progress, status) => {
         const mappedProgress = 10 + (progress * 0.80); // Map to 10-90%
         this.currentSession!.processedItems = Math.floor((progress / 100) * dataPoints.length);
         
@@ -103,9 +263,20 @@ export class EmbeddingService {
           progress: mappedProgress,
           current: this.currentSession!.processedItems,
           total: dataPoints.length,
-          message: status
+          message: `${status} (${cacheSummary})`,
+          throughput: this.rateLimiter.getThroughput()
         });
-      });
+      }, onJobsCompleted);
+
+      if (cacheKeys) {
+        const newEntries: { key: string; embedding: number[] }[] = [];
+        jobs.forEach((job, index) => {
+          if (job.status === 'completed' && job.embedding && !cachedEmbeddings[index]) {
+            newEntries.push({ key: cacheKeys[index], embedding: job.embedding });
+          }
+        });
+        await this.storeInCache(newEntries);
+      }
 
       onProgress?.({
         stage: 'processing',
@@ -115,29 +286,54 @@ export class EmbeddingService {
         message: 'Assigning embeddings to data points...'
       });
 
-      // Assign embeddings to data points
-      const result: DataPoint[] = dataPoints.map((point, index) => ({
-        ...point,
-        embedding: index < embeddings.length ? embeddings[index] : undefined
-      }));
+      // Assign embeddings and their provenance to data points
+      // Rows left without a new vector (cancelled, failed or over budget) keep their previous one
+      const createdAt = new Date().toISOString();
+      const result: DataPoint[] = dataPoints.map((point, index) => {
+        const embedding = jobs[index].status === 'completed' ? jobs[index].embedding : undefined;
+        return embedding
+          ? { ...point, embedding, embeddingInfo: this.getEmbeddingInfo(embedding.length, createdAt) }
+          : point;
+      });
 
       // Validate results
-      const successCount = result.filter(point => point.embedding).length;
+      const successCount = jobs.filter(job => job.status === 'completed' && job.embedding).length;
       const failureCount = dataPoints.length - successCount;
 
-      if (failureCount > 0) {
-        console.warn(`${failureCount} items failed to get embeddings`);
+      const errorCount = jobs.filter(job => job.status === 'error').length;
+      if (errorCount > 0) {
+        console.warn(`${errorCount} items failed to get embeddings`);
+      }
+
+      const cancelled = signal.aborted;
+      const capReached = this.spend.capReached;
+
+      // The run ended normally (or was cancelled on purpose): nothing left to resume.
+      // A run stopped by the budget stays resumable once the cap is raised.
+      if (checkpointing && !capReached) {
+        await this.deleteCheckpoint(sessionId);
       }
 
+      this.ledgerEntry.status = capReached ? 'budget_exceeded' : cancelled ? 'cancelled' : 'completed';
+      this.ledgerEntry.embedded = successCount;
+      this.ledgerEntry.finishedAt = Date.now();
+      await this.recordLedger();
+
       const processingTime = Date.now() - startTime;
-      const actualCost = (successCount / 1000) * 0.00002; // Rough calculation
+      const actualCost = this.spend.cost;
 
       onProgress?.({
         stage: 'complete',
         progress: 100,
         current: successCount,
         total: dataPoints.length,
-        message: `Complete! Generated ${successCount} embeddings in ${(processingTime / 1000).toFixed(1)}s`
+        message: capReached
+          ? `Stopped at budget cap ($${this.spend.limit.toFixed(4)}). Kept ${successCount} of ${dataPoints.length} embeddings, spent $${actualCost.toFixed(4)} (${cacheSummary})`
+          : cancelled
+          ? `Cancelled. Kept ${successCount} of ${dataPoints.length} embeddings (${cacheSummary})`
+          : errorCount > 0
+            ? `Finished with ${errorCount} failed items. Generated ${successCount} embeddings in ${(processingTime / 1000).toFixed(1)}s (${cacheSummary})`
+            : `Complete! Generated ${successCount} embeddings in ${(processingTime / 1000).toFixed(1)}s (${cacheSummary})`
       });
 
       // Log session summary
@@ -145,7 +341,9 @@ export class EmbeddingService {
         sessionId,
         totalItems: dataPoints.length,
         successfulEmbeddings: successCount,
+        cacheHits,
         failedEmbeddings: failureCount,
+        cancelled,
         processingTimeMs: processingTime,
         estimatedCost: costEstimate.cost,
         actualCost
@@ -155,44 +353,313 @@ export class EmbeddingService {
 
     } catch (error: any) {
       console.error('Embedding generation failed:', error);
+
+      if (this.ledgerEntry) {
+        this.ledgerEntry.status = 'failed';
+        this.ledgerEntry.finishedAt = Date.now();
+        await this.recordLedger();
+      }
       
       // Handle specific error types
       if (error.name === 'QuotaExceededError' || error.message.includes('memory')) {
         throw new Error(`Out of memory: Dataset too large for browser. Try reducing file size or splitting into smaller files.`);
       } else if (error.message.includes('Rate limit')) {
-        throw new Error(`OpenAI API rate limit exceeded. Please wait a moment and try again.`);
+        throw new Error(`${this.provider.name} API rate limit exceeded. Please wait a moment and try again.`);
       } else if (error.message.includes('API key')) {
-        throw new Error(`Invalid OpenAI API key. Please check your API key and try again.`);
+        throw new Error(`Invalid ${this.provider.name} API key. Please check your API key and try again.`);
       } else {
         throw new Error(`Embedding generation failed: ${error.message}`);
       }
     } finally {
       this.currentSession = null;
+      this.abortController = null;
+      this.ledgerEntry = null;
+      this.resumeSession();
+    }
+  }
+
+  /**
+   * Token usage and cost of the most recent (or current) session
+   */
+  getSessionSpend(): SessionSpend | null {
+    return this.spend;
+  }
+
+  private costOf(tokens: number): number {
+    return (tokens / 1000) * this.provider.pricing.costPer1KTokens;
+  }
+
+  /**
+   * Remaining allowance: the session cap and whatever is left of the monthly cap
+   */
+  private getBudgetLimit(monthSpent: number): number {
+    const limits: number[] = [];
+    if (this.budget.sessionLimit && this.budget.sessionLimit > 0) {
+      limits.push(this.budget.sessionLimit);
+    }
+    if (this.budget.monthlyLimit && this.budget.monthlyLimit > 0) {
+      limits.push(Math.max(0, this.budget.monthlyLimit - monthSpent));
+    }
+    return limits.length > 0 ? Math.min(...limits) : Infinity;
+  }
+
+  private async getMonthSpend(): Promise<number> {
+    if (!this.budget.monthlyLimit || !CostLedger.isAvailable()) return 0;
+
+    try {
+      return await CostLedger.getMonthTotal();
+    } catch (error) {
+      console.warn('Failed to read the cost ledger for the monthly budget:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Reserve the estimated cost of a request; refuses (and stops the session)
+   * when it would take spending past the cap
+   */
+  private reserveBudget(tokens: number): number | null {
+    if (!this.spend) return 0;
+
+    const cost = this.costOf(tokens);
+    if (this.spend.capReached || this.spend.cost + this.spend.reserved + cost > this.spend.limit) {
+      this.spend.capReached = true;
+      return null;
+    }
+
+    this.spend.reserved += cost;
+    return cost;
+  }
+
+  /**
+   * Replace a reservation with the provider-reported usage (0 for failed requests)
+   */
+  private async settleBudget(reservedCost: number, usedTokens: number): Promise<void> {
+    if (!this.spend) return;
+
+    this.spend.reserved = Math.max(0, this.spend.reserved - reservedCost);
+    this.spend.tokens += usedTokens;
+    this.spend.cost += this.costOf(usedTokens);
+
+    if (this.ledgerEntry && usedTokens > 0) {
+      this.ledgerEntry.tokens = this.spend.tokens;
+      this.ledgerEntry.cost = this.spend.cost;
+      await this.recordLedger();
+    }
+  }
+
+  private async recordLedger(): Promise<void> {
+    if (!this.ledgerEntry || !CostLedger.isAvailable()) return;
+
+    try {
+      await CostLedger.record({ ...this.ledgerEntry });
+    } catch (error) {
+      console.warn('Failed to update the cost ledger:', error);
+    }
+  }
+
+  /**
+   * Record a new session so it can be resumed after a reload; the API key and
+   * other credentials are never stored
+   */
+  private async createCheckpoint(
+    sessionId: string,
+    dataPoints: DataPoint[],
+    session: SessionOptions,
+    estimatedCost: number
+  ): Promise<void> {
+    const { dataset, datasetName } = session;
+    const providerConfig = EmbeddingService.withoutCredentials(this.providerConfig || {});
+    const now = Date.now();
+
+    try {
+      await SessionCheckpointStore.create({
+        id: sessionId,
+        createdAt: now,
+        updatedAt: now,
+        providerId: this.provider.id,
+        providerConfig,
+        longTextStrategy: this.longTextStrategy,
+        textTemplate: this.textTemplate,
+        dataset: dataset || dataPoints,
+        targetIds: dataset ? dataPoints.map(point => point.id) : undefined,
+        datasetName,
+        totalItems: dataPoints.length,
+        completedItems: 0,
+        estimatedCost
+      });
+    } catch (error) {
+      console.warn('Failed to create session checkpoint, continuing without it:', error);
+    }
+  }
+
+  /**
+   * Provider config without the API key, custom headers (which often carry
+   * tokens) or user info embedded in endpoint URLs
+   */
+  private static withoutCredentials(config: EmbeddingProviderConfig): EmbeddingProviderConfig {
+    const { apiKey, headers, ...rest } = config;
+    const safe: EmbeddingProviderConfig = { ...rest };
+
+    for (const field of ['baseUrl', 'endpoint']) {
+      if (typeof safe[field] !== 'string') continue;
+      try {
+        const url = new URL(safe[field]);
+        if (!url.username && !url.password) continue;
+        url.username = '';
+        url.password = '';
+        safe[field] = url.toString();
+      } catch {
+        // Relative URLs (e.g. the proxy route) carry no user info
+      }
+    }
+
+    return safe;
+  }
+
+  private async checkpointJobs(sessionId: string, jobs: EmbeddingJob[]): Promise<void> {
+    try {
+      await SessionCheckpointStore.addEmbeddings(
+        sessionId,
+        jobs.map(job => ({ id: job.id, embedding: job.embedding! }))
+      );
+    } catch (error) {
+      console.warn('Failed to checkpoint embeddings:', error);
+    }
+  }
+
+  private async loadCheckpointEmbeddings(sessionId: string): Promise<Map<string, number[]>> {
+    try {
+      return await SessionCheckpointStore.getEmbeddings(sessionId);
+    } catch (error) {
+      console.warn('Failed to load checkpointed embeddings, starting from scratch:', error);
+      return new Map();
+    }
+  }
+
+  private async deleteCheckpoint(sessionId: string): Promise<void> {
+    try {
+      await SessionCheckpointStore.delete(sessionId);
+    } catch (error) {
+      console.warn('Failed to delete session checkpoint:', error);
+    }
+  }
+
+  /**
+   * Provenance recorded alongside each generated embedding
+   */
+  private getEmbeddingInfo(dimensions: number, createdAt: string): EmbeddingInfo {
+    return {
+      provider: this.provider.id,
+      model: this.provider.model,
+      dimensions,
+      createdAt,
+      templateHash: TextTemplates.hash(this.textTemplate)
+    };
+  }
+
+  /**
+   * Look up texts in the persistent embedding cache. Falls back to all misses
+   * when the cache is disabled, unavailable or the provider is not cacheable.
+   */
+  private async lookupCache(texts: string[]): Promise<{
+    cacheKeys: string[] | null;
+    cachedEmbeddings: (number[] | undefined)[];
+  }> {
+    const allMisses = { cacheKeys: null, cachedEmbeddings: new Array(texts.length).fill(undefined) };
+
+    if (!this.useCache || this.provider.cacheable === false || !EmbeddingCache.isAvailable()) {
+      return allMisses;
+    }
+
+    try {
+      const { id, endpoint, model, dimensions, maxTokens } = this.provider;
+      await this.loadTokenizer();
+      // Over-length texts are embedded according to the long-text strategy and limit
+      const longTextHandling = `${this.longTextStrategy}:${maxTokens}`;
+      const cacheKeys = await Promise.all(texts.map(text => EmbeddingCache.createKey(
+        { provider: id, endpoint, model, dimensions },
+        text,
+        this.countTokens(this.cleanText(text)) > maxTokens ? longTextHandling : undefined
+      )));
+      const cachedEmbeddings = await EmbeddingCache.getMany(cacheKeys);
+      return { cacheKeys, cachedEmbeddings };
+    } catch (error) {
+      console.warn('Embedding cache lookup failed, continuing without cache:', error);
+      return allMisses;
     }
   }
 
   /**
-   * Advanced embedding generation with parallel processing and better error handling
+   * Persist newly generated embeddings; cache failures never fail a run
+   */
+  private async storeInCache(entries: { key: string; embedding: number[] }[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    try {
+      await EmbeddingCache.putMany(entries, this.provider.model, this.provider.dimensions);
+    } catch (error) {
+      console.warn('Failed to write embeddings to cache:', error);
+    }
+  }
+
+  /**
+   * Advanced embedding generation with parallel processing and better error handling.
+   * Requests are packed up to the provider's item and token limits; over-length
+   * texts are truncated or split into windows according to the long-text strategy.
+   * Updates each job in place: completed jobs receive their embedding, failed
+   * jobs an error message; jobs left pending were cancelled before processing.
    */
   private async generateEmbeddingsAdvanced(
-    texts: string[],
-    onProgress?: ProgressCallback
-  ): Promise<number[][]> {
-    if (texts.length === 0) {
-      return [];
+    jobs: EmbeddingJob[],
+    signal: AbortSignal,
+    onProgress?: ProgressCallback,
+    onJobsCompleted?: (jobs: EmbeddingJob[]) => Promise<void>
+  ): Promise<void> {
+    if (jobs.length === 0) {
+      return;
     }
 
-    const results: number[][] = new Array(texts.length);
-    const optimalBatchSize = this.getOptimalBatchSize(texts.length);
-    const batches = this.createBatches(texts, optimalBatchSize);
+    await this.loadTokenizer();
+
+    const segments = this.createSegments(jobs);
+    const segmentsByJob = new Map<EmbeddingJob, EmbeddingSegment[]>();
+    segments.forEach(segment => {
+      const jobSegments = segmentsByJob.get(segment.job) || [];
+      jobSegments.push(segment);
+      segmentsByJob.set(segment.job, jobSegments);
+    });
+
+    const optimalBatchSize = this.getOptimalBatchSize(segments.length);
+    const batches = this.packBatches(segments, optimalBatchSize, this.provider.maxTokensPerRequest);
     const totalBatches = batches.length;
+    const splitCount = Array.from(segmentsByJob.values()).filter(jobSegments => jobSegments.length > 1).length;
     
-    console.log(`Processing ${texts.length} texts in ${totalBatches} batches (batch size: ${optimalBatchSize})`);
+    console.log(
+      `Processing ${jobs.length} texts (${segments.length} segments, ${splitCount} split) in ${totalBatches} batches (max batch size: ${optimalBatchSize})`
+    );
     
     onProgress?.(0, 'Starting embedding generation...');
 
-    // Process batches with controlled concurrency
-    const concurrentLimit = Math.min(this.MAX_CONCURRENT_REQUESTS, totalBatches);
+    // A job completes once every one of its segments has an embedding
+    const completeJobs = (batch: EmbeddingSegment[]): EmbeddingJob[] => {
+      const completed: EmbeddingJob[] = [];
+      new Set(batch.map(segment => segment.job)).forEach(job => {
+        const jobSegments = segmentsByJob.get(job)!;
+        if (job.status !== 'processing' || jobSegments.some(segment => !segment.embedding)) return;
+
+        job.status = 'completed';
+        job.embedding = jobSegments.length === 1
+          ? jobSegments[0].embedding
+          : this.poolEmbeddings(jobSegments);
+        job.error = undefined;
+        completed.push(job);
+      });
+      return completed;
+    };
+
+    // Start as many workers as the scheduler may ever allow; it gates how many run at once
+    const concurrentLimit = Math.min(this.rateLimiter.getMaxConcurrency(), totalBatches);
     const batchQueues: Promise<void>[] = [];
     let completedBatches = 0;
     let batchIndex = 0;
@@ -200,26 +667,47 @@ export class EmbeddingService {
     // Create worker functions for concurrent processing
     const processBatchWorker = async (): Promise<void> => {
       while (batchIndex < totalBatches) {
+        await this.waitWhilePaused();
+        // Other workers may have taken the remaining batches meanwhile
+        if (signal.aborted || this.spend?.capReached || batchIndex >= totalBatches) break;
+
         const currentBatchIndex = batchIndex++;
         const batch = batches[currentBatchIndex];
-        const startIndex = currentBatchIndex * this.MAX_BATCH_SIZE;
+        batch.forEach(segment => {
+          if (segment.job.status === 'pending') {
+            segment.job.status = 'processing';
+          }
+        });
         
+        const batchTokens = batch.reduce((sum, segment) => sum + segment.tokens, 0);
         let retries = 0;
-        let batchResults: number[][] = [];
+        let rateLimitRetries = 0;
 
         while (retries < this.MAX_RETRIES) {
+          // Stop before the request that would exceed the budget; the batch stays pending
+          const reservedCost = this.reserveBudget(batchTokens);
+          if (reservedCost === null) {
+            onProgress?.((completedBatches / totalBatches) * 90, 'Budget cap reached - stopping');
+            break;
+          }
+
           try {
             onProgress?.(
               (completedBatches / totalBatches) * 90,
               `Processing batch ${currentBatchIndex + 1}/${totalBatches} (${batch.length} items)`
             );
 
-            batchResults = await this.processBatch(batch);
+            const batchResult = await this.processBatch(batch.map(segment => segment.text), signal, batchTokens);
+            await this.settleBudget(reservedCost, batchResult.totalTokens ?? batchTokens);
             
-            // Store results in correct positions
-            batchResults.forEach((embedding, localIndex) => {
-              results[startIndex + localIndex] = embedding;
+            // Attach results to their segments
+            batch.forEach((segment, localIndex) => {
+              segment.embedding = batchResult.embeddings[localIndex];
             });
+            const completed = completeJobs(batch);
+            if (completed.length > 0) {
+              await onJobsCompleted?.(completed);
+            }
 
             // Check memory pressure after processing batch
             await this.checkMemoryPressure();
@@ -227,35 +715,44 @@ export class EmbeddingService {
             break; // Success!
 
           } catch (error: any) {
+            await this.settleBudget(reservedCost, 0);
+
+            // Cancelled: leave the batch unprocessed
+            if (signal.aborted) {
+              break;
+            }
+
+            if (this.isRateLimitError(error) && rateLimitRetries++ < this.MAX_RATE_LIMIT_RETRIES) {
+              onProgress?.(
+                (completedBatches / totalBatches) * 90,
+                `Rate limited - retrying batch ${currentBatchIndex + 1} in ${Math.ceil(this.rateLimiter.getBlockedMs() / 1000)}s...`
+              );
+              continue;
+            }
+
             retries++;
             
             if (retries >= this.MAX_RETRIES) {
               console.error(`Batch ${currentBatchIndex + 1} failed after ${this.MAX_RETRIES} retries:`, error);
-              
-              // Fill with null embeddings for failed items
-              for (let i = 0; i < batch.length; i++) {
-                results[startIndex + i] = [];
-              }
+              batch.forEach(segment => {
+                segment.job.status = 'error';
+                segment.job.error = error.message || 'Embedding request failed';
+              });
               break;
             }
 
-            // Exponential backoff
-            const delay = Math.pow(2, retries) * 1000;
+            // Honour Retry-After when the server sent one, otherwise back off exponentially
+            const delay = error.retryAfterMs ?? Math.pow(2, retries) * 1000;
             onProgress?.(
               (completedBatches / totalBatches) * 90,
               `Retrying batch ${currentBatchIndex + 1} (attempt ${retries + 1}/${this.MAX_RETRIES})...`
             );
             
-            await this.delay(delay);
+            await this.delay(delay, signal);
           }
         }
 
         completedBatches++;
-        
-        // Rate limiting between batches
-        if (batchIndex < totalBatches) {
-          await this.delay(this.RATE_LIMIT_DELAY);
-        }
       }
     };
 
@@ -267,112 +764,211 @@ export class EmbeddingService {
     // Wait for all workers to complete
     await Promise.all(batchQueues);
 
-    onProgress?.(100, 'Embedding generation complete!');
-    
-    // Filter out failed embeddings
-    return results.filter(embedding => embedding.length > 0);
+    // Jobs interrupted by a cancel (possibly with only some windows embedded) stay pending
+    jobs.forEach(job => {
+      if (job.status === 'processing') {
+        job.status = 'pending';
+      }
+    });
+
+    onProgress?.(100, signal.aborted ? 'Embedding generation cancelled' : 'Embedding generation complete!');
   }
 
   /**
-   * Process a single batch with enhanced error handling
+   * Turn jobs into request inputs, applying the per-input token limit
    */
-  private async processBatch(texts: string[]): Promise<number[][]> {
-    // Clean and validate texts
-    const cleanTexts = texts
-      .map(text => text.replace(/\n/g, ' ').trim())
-      .filter(text => text.length > 0)
-      .map(text => text.substring(0, 8000)); // Truncate very long texts
+  private createSegments(jobs: EmbeddingJob[]): EmbeddingSegment[] {
+    const maxTokens = this.provider.maxTokens;
+    const segments: EmbeddingSegment[] = [];
+
+    jobs.forEach(job => {
+      const text = this.cleanText(job.text);
+      const tokens = this.countTokens(text);
+
+      if (tokens <= maxTokens) {
+        segments.push({ job, text, tokens });
+      } else if (this.longTextStrategy === 'truncate') {
+        segments.push({ job, text: this.truncateTokens(text, maxTokens), tokens: maxTokens });
+      } else {
+        this.splitTokens(text, maxTokens).forEach(window => {
+          segments.push({ job, text: window, tokens: this.countTokens(window) });
+        });
+      }
+    });
 
-    if (cleanTexts.length === 0) {
-      return [];
+    return segments;
+  }
+
+  /**
+   * Group segments into requests bounded by item count and, when the provider
+   * has one, the per-request token budget
+   */
+  private packBatches(segments: EmbeddingSegment[], maxItems: number, maxTokens?: number): EmbeddingSegment[][] {
+    const batches: EmbeddingSegment[][] = [];
+    let current: EmbeddingSegment[] = [];
+    let currentTokens = 0;
+
+    segments.forEach(segment => {
+      const overBudget = maxTokens !== undefined && currentTokens + segment.tokens > maxTokens;
+      if (current.length > 0 && (current.length >= maxItems || overBudget)) {
+        batches.push(current);
+        current = [];
+        currentTokens = 0;
+      }
+      current.push(segment);
+      currentTokens += segment.tokens;
+    });
+
+    if (current.length > 0) {
+      batches.push(current);
     }
 
-    try {
-      const response = await fetch('https://api.openai.com/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: this.MODEL,
-          input: cleanTexts,
-          encoding_format: 'float'
-        }),
-      });
+    return batches;
+  }
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        
-        if (response.status === 429) {
-          throw new Error('Rate limit exceeded. Please try again in a moment.');
-        } else if (response.status === 401) {
-          throw new Error('Invalid API key. Please check your OpenAI API key.');
-        } else if (response.status === 400) {
-          throw new Error(`Bad request: ${errorData.error?.message || 'Invalid request format'}`);
-        } else if (response.status >= 500) {
-          throw new Error(`Server error (${response.status}): Please try again later`);
+  /**
+   * Combine window embeddings into one unit-length vector. Mean pooling
+   * weights each window by its token count.
+   */
+  private poolEmbeddings(segments: EmbeddingSegment[]): number[] {
+    const dimensions = segments[0].embedding!.length;
+    const pooled = new Array(dimensions).fill(this.longTextStrategy === 'max' ? -Infinity : 0);
+
+    segments.forEach(segment => {
+      const embedding = segment.embedding!;
+      for (let i = 0; i < dimensions; i++) {
+        if (this.longTextStrategy === 'max') {
+          pooled[i] = Math.max(pooled[i], embedding[i]);
         } else {
-          throw new Error(`API error (${response.status}): ${errorData.error?.message || 'Unknown error'}`);
+          pooled[i] += embedding[i] * segment.tokens;
         }
       }
+    });
 
-      const data: OpenAIEmbeddingResponse = await response.json();
-      
-      if (!data.data || !Array.isArray(data.data)) {
-        throw new Error('Invalid response format from OpenAI API');
-      }
+    const norm = Math.sqrt(pooled.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? pooled.map(value => value / norm) : pooled;
+  }
 
-      // Sort by index to maintain order
-      const sortedData = data.data.sort((a, b) => a.index - b.index);
-      return sortedData.map(item => item.embedding);
+  /**
+   * Process a single batch through the rate limiter, feeding it the
+   * response's rate-limit headers
+   */
+  private async processBatch(texts: string[], signal?: AbortSignal, tokens: number = 0): Promise<EmbeddingBatchResult> {
+    // Clean texts without dropping any so results stay aligned with their inputs
+    const cleanTexts = texts.map(text => this.cleanText(text));
 
-    } catch (error: any) {
-      if (error.name === 'TypeError' && error.message.includes('fetch')) {
-        throw new Error('Network error. Please check your internet connection.');
+    if (cleanTexts.length === 0) {
+      return { embeddings: [] };
+    }
+
+    if (!(await this.rateLimiter.acquire(tokens, signal))) {
+      throw new Error('Embedding request cancelled');
+    }
+
+    try {
+      const result = await this.provider.embedBatch(cleanTexts, signal);
+
+      if (result.embeddings.length !== cleanTexts.length) {
+        throw new Error(`${this.provider.name} returned ${result.embeddings.length} embeddings for ${cleanTexts.length} inputs`);
+      }
+
+      this.rateLimiter.onSuccess(cleanTexts.length, result.totalTokens ?? tokens, result.rateLimit);
+      return result;
+    } catch (error) {
+      if (this.isRateLimitError(error)) {
+        this.rateLimiter.onRateLimited(error.retryAfterMs, error.rateLimit);
       }
       throw error;
+    } finally {
+      this.rateLimiter.release();
     }
   }
 
+  private isRateLimitError(error: unknown): error is EmbeddingRequestError {
+    return error instanceof EmbeddingRequestError && error.status === 429;
+  }
+
   /**
-   * Enhanced cost estimation with better accuracy
+   * Normalize whitespace; length limits are applied in tokens by createSegments
    */
-  async estimateCost(textCount: number, sampleTexts?: string[]): Promise<{
-    tokens: number;
-    cost: number;
-    costPerItem: number;
-    processingTime: number;
-  }> {
-    // Use sample texts for better estimation, or use conservative defaults
+  private cleanText(text: string): string {
+    return text.replace(/\n/g, ' ').trim();
+  }
+
+  /**
+   * Whether the provider enforces token limits that require counting
+   */
+  private usesTokenLimits(): boolean {
+    return Number.isFinite(this.provider.maxTokens) || this.provider.maxTokensPerRequest !== undefined;
+  }
+
+  /**
+   * Load the BPE tokenizer; on failure counts fall back to a characters-per-token estimate
+   */
+  private async loadTokenizer(): Promise<void> {
+    if (!this.usesTokenLimits() || TokenCounter.isReady()) return;
+
+    try {
+      await TokenCounter.ready();
+    } catch (error) {
+      console.warn('Tokenizer unavailable, estimating token counts from text length:', error);
+    }
+  }
+
+  private countTokens(text: string): number {
+    if (!this.usesTokenLimits()) return 0;
+    return TokenCounter.isReady()
+      ? TokenCounter.count(text)
+      : Math.ceil(text.length / this.CHARS_PER_TOKEN);
+  }
+
+  private truncateTokens(text: string, maxTokens: number): string {
+    return TokenCounter.isReady()
+      ? TokenCounter.truncate(text, maxTokens)
+      : text.substring(0, maxTokens * this.CHARS_PER_TOKEN);
+  }
+
+  private splitTokens(text: string, maxTokens: number): string[] {
+    if (TokenCounter.isReady()) {
+      return TokenCounter.splitIntoWindows(text, maxTokens);
+    }
+
+    const windowLength = maxTokens * this.CHARS_PER_TOKEN;
+    const windows: string[] = [];
+    for (let i = 0; i < text.length; i += windowLength) {
+      windows.push(text.substring(i, i + windowLength));
+    }
+    return windows;
+  }
+
+  /**
+   * Cost estimation from BPE token counts. When sample texts cover every item
+   * the estimate is exact; otherwise the sample average is extrapolated.
+   */
+  async estimateCost(textCount: number, sampleTexts?: string[]): Promise<CostEstimate> {
     let avgTokensPerText = 75; // Conservative default
     
     if (sampleTexts && sampleTexts.length > 0) {
-      // More accurate estimation using sample texts
-      const sampleWordCounts = sampleTexts
-        .slice(0, Math.min(20, sampleTexts.length))
-        .map(text => text.split(/\s+/).length);
-      
-      const avgWords = sampleWordCounts.reduce((sum, count) => sum + count, 0) / sampleWordCounts.length;
-      
-      // Better token estimation: ~0.75 tokens per word for English
-      avgTokensPerText = Math.ceil(avgWords * 0.75);
+      await this.loadTokenizer();
+
+      // Truncated texts are only billed up to the per-input limit; split texts in full
+      const maxTokens = this.longTextStrategy === 'truncate' ? this.provider.maxTokens : Infinity;
+      const sampleTokens = sampleTexts.reduce(
+        (sum, text) => sum + Math.min(this.countTokens(this.cleanText(text)), maxTokens),
+        0
+      );
       
-      // Account for longer texts having slightly fewer tokens per word
-      if (avgWords > 100) {
-        avgTokensPerText = Math.ceil(avgTokensPerText * 0.9);
-      }
+      avgTokensPerText = sampleTokens / sampleTexts.length;
     }
 
-    const totalTokens = textCount * avgTokensPerText;
+    const totalTokens = Math.round(textCount * avgTokensPerText);
     
-    // text-embedding-3-small pricing: $0.00002 per 1K tokens
-    const costPer1KTokens = 0.00002;
+    const costPer1KTokens = this.provider.pricing.costPer1KTokens;
     const totalCost = (totalTokens / 1000) * costPer1KTokens;
-    const costPerItem = totalCost / textCount;
+    const costPerItem = textCount > 0 ? totalCost / textCount : 0;
 
     // Estimate processing time (rough calculation)
-    const estimatedProcessingTime = Math.ceil((textCount / this.MAX_BATCH_SIZE) * 2); // ~2 seconds per batch
+    const estimatedProcessingTime = Math.ceil((textCount / this.provider.maxBatchSize) * 2); // ~2 seconds per batch
 
     return {
       tokens: totalTokens,
@@ -403,8 +999,16 @@ export class EmbeddingService {
       return [];
     }
 
+    await this.loadTokenizer();
+
     const results: number[][] = [];
-    const batches = this.createBatches(texts, this.MAX_BATCH_SIZE);
+    const limitedTexts = texts.map(text => {
+      const cleaned = this.cleanText(text);
+      return this.countTokens(cleaned) > this.provider.maxTokens
+        ? this.truncateTokens(cleaned, this.provider.maxTokens)
+        : cleaned;
+    });
+    const batches = this.createBatches(limitedTexts, this.provider.maxBatchSize);
     
     onProgress?.(0, 'Starting embedding generation...');
 
@@ -416,36 +1020,45 @@ export class EmbeddingService {
         `Processing batch ${i + 1}/${batches.length} (${batch.length} items)`
       );
 
+      const batchTokens = batch.reduce((sum, text) => sum + this.countTokens(text), 0);
       let retries = 0;
+      let rateLimitRetries = 0;
       let batchResults: number[][] = [];
 
       while (retries < this.MAX_RETRIES) {
         try {
-          batchResults = await this.processBatch(batch);
+          batchResults = (await this.processBatch(batch, undefined, batchTokens)).embeddings;
           break;
         } catch (error: any) {
+          if (this.isRateLimitError(error) && rateLimitRetries++ < this.MAX_RATE_LIMIT_RETRIES) {
+            continue;
+          }
+
           retries++;
           
           if (retries >= this.MAX_RETRIES) {
             throw new Error(`Failed to process batch ${i + 1} after ${this.MAX_RETRIES} retries: ${error.message}`);
           }
 
-          const delay = Math.pow(2, retries) * 1000;
+          const delay = error.retryAfterMs ?? Math.pow(2, retries) * 1000;
           await this.delay(delay);
         }
       }
 
       results.push(...batchResults);
-
-      if (i < batches.length - 1) {
-        await this.delay(this.RATE_LIMIT_DELAY);
-      }
     }
 
     onProgress?.(100, 'Embedding generation complete!');
     return results;
   }
 
+  /**
+   * Per-item status of the most recent (or current) session
+   */
+  getLastJobs(): EmbeddingJob[] {
+    return this.lastJobs;
+  }
+
   /**
    * Get session information (useful for monitoring large processing jobs)
    */
@@ -454,47 +1067,73 @@ export class EmbeddingService {
   }
 
   /**
-   * Cancel current processing session
+   * Cancel current processing session, aborting in-flight requests.
+   * The pending processDataPointsWithEmbeddings call resolves with partial results.
    */
   cancelSession(): void {
     if (this.currentSession) {
       console.log(`Canceling session ${this.currentSession.id}`);
-      this.currentSession = null;
     }
+    this.abortController?.abort();
+    this.resumeSession();
   }
 
   /**
-   * Get embedding statistics for a dataset
+   * Pause the current session; in-flight batches finish, no new ones start
    */
-  getEmbeddingStats(dataPoints: DataPoint[]) {
-    const withEmbeddings = dataPoints.filter(point => point.embedding);
-    const dimensions = withEmbeddings.length > 0 ? withEmbeddings[0].embedding?.length || 0 : 0;
+  pauseSession(): void {
+    if (!this.currentSession || this.pausePromise) return;
+    this.pausePromise = new Promise(resolve => {
+      this.resumePaused = resolve;
+    });
+  }
+
+  /**
+   * Resume a paused session
+   */
+  resumeSession(): void {
+    this.resumePaused?.();
+    this.pausePromise = null;
+    this.resumePaused = null;
+  }
+
+  isPaused(): boolean {
+    return this.pausePromise !== null;
+  }
+
+  private async waitWhilePaused(): Promise<void> {
+    while (this.pausePromise) {
+      await this.pausePromise;
+    }
+  }
 
-    // Calculate quality metrics
-    const avgEmbeddingMagnitude = withEmbeddings.length > 0 
-      ? withEmbeddings.reduce((sum, point) => {
-          const magnitude = Math.sqrt(point.embedding!.reduce((s, v) => s + v * v, 0));
-          return sum + magnitude;
-        }, 0) / withEmbeddings.length
-      : 0;
+  /**
+   * Get embedding statistics for a dataset; `health` is the status of the
+   * full EmbeddingDiagnostics report
+   */
+  getEmbeddingStats(dataPoints: DataPoint[]) {
+    const report = EmbeddingDiagnostics.analyze(dataPoints);
+    const withEmbeddings = report.withEmbeddings;
 
     return {
       total: dataPoints.length,
-      withEmbeddings: withEmbeddings.length,
-      withoutEmbeddings: dataPoints.length - withEmbeddings.length,
-      dimensions,
-      completionRate: dataPoints.length > 0 ? Math.round((withEmbeddings.length / dataPoints.length) * 100) : 0,
-      isComplete: withEmbeddings.length === dataPoints.length && dataPoints.length > 0,
-      avgMagnitude: Math.round(avgEmbeddingMagnitude * 1000) / 1000,
-      qualityScore: avgEmbeddingMagnitude > 0.1 ? 'Good' : avgEmbeddingMagnitude > 0.05 ? 'Fair' : 'Poor'
+      withEmbeddings,
+      withoutEmbeddings: dataPoints.length - withEmbeddings,
+      dimensions: report.dimensions,
+      completionRate: dataPoints.length > 0 ? Math.round((withEmbeddings / dataPoints.length) * 100) : 0,
+      isComplete: withEmbeddings === dataPoints.length && dataPoints.length > 0,
+      avgMagnitude: Math.round(report.norm.mean * 1000) / 1000,
+      health: report.status,
+      issues: report.issues
     };
   }
 
   /**
-   * Validate API key format and test connection
+   * Check that an API key can be sent in a request header. Key formats differ
+   * between OpenAI, Azure and gateways, so only header-safe characters are required.
    */
   static validateApiKey(apiKey: string): boolean {
-    return apiKey.startsWith('sk-') && apiKey.length > 20;
+    return /^[\x21-\x7e]+$/.test(apiKey.trim());
   }
 
   /**
@@ -505,7 +1144,7 @@ export class EmbeddingService {
       const testEmbedding = await this.generateEmbeddings(['test connection']);
       return {
         success: true,
-        model: this.MODEL
+        model: this.provider.model
       };
     } catch (error: any) {
       return {
@@ -527,14 +1166,21 @@ export class EmbeddingService {
   }
 
   /**
-   * Delay utility for rate limiting
+   * Delay utility for rate limiting; resolves early when the signal aborts
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve();
+      }, { once: true });
+    });
   }
 
   /**
-   * Monitor memory usage and adjust batch sizes accordingly
+   * Monitor memory usage and adjust batch sizes accordingly, never above the
+   * provider's own limit
    */
   private getOptimalBatchSize(dataLength: number): number {
     // Check if performance.memory is available (Chrome)
@@ -544,18 +1190,18 @@ export class EmbeddingService {
       
       if (memoryUsage > this.MEMORY_THRESHOLD) {
         // Reduce batch size if memory usage is high
-        return Math.max(10, Math.floor(this.MAX_BATCH_SIZE * 0.5));
+        return Math.min(this.provider.maxBatchSize, Math.max(10, Math.floor(this.provider.maxBatchSize * 0.5)));
       }
     }
     
     // Adjust batch size based on dataset size
     if (dataLength > 10000) {
-      return Math.max(20, Math.floor(this.MAX_BATCH_SIZE * 0.6));
+      return Math.min(this.provider.maxBatchSize, Math.max(20, Math.floor(this.provider.maxBatchSize * 0.6)));
     } else if (dataLength > 5000) {
-      return Math.max(30, Math.floor(this.MAX_BATCH_SIZE * 0.8));
+      return Math.min(this.provider.maxBatchSize, Math.max(30, Math.floor(this.provider.maxBatchSize * 0.8)));
     }
     
-    return this.MAX_BATCH_SIZE;
+    return this.provider.maxBatchSize;
   }
 
   /**
@@ -0,0 +1,192 @@
+import {
+  BudgetSettings,
+  CostEstimate,
+  DataPoint,
+  EmbeddingJob,
+  EmbeddingProviderConfig,
+  EmbeddingWorkerRequest,
+  EmbeddingWorkerResponse,
+  LongTextStrategy,
+  ProcessingProgress,
+  SessionSpend
+} from '@/types';
+import type { SessionOptions } from './embeddingService';
+import { packedBuffers, packEmbeddings, unpackEmbeddings } from './packedEmbeddings';
+
+interface EmbeddingWorkerClientOptions {
+  longTextStrategy: LongTextStrategy;
+  budget: BudgetSettings;
+  textTemplate?: string;
+  useCache?: boolean;
+}
+
+interface PendingRun {
+  dataPoints: DataPoint[];
+  onProgress?: (progress: ProcessingProgress) => void;
+  resolve: (points: DataPoint[]) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Page-side handle to an embedding worker. Mirrors the session API of
+ * EmbeddingService (estimate, process, pause, resume, cancel) while batching,
+ * requests and response parsing run in a dedicated worker; embeddings come
+ * back as a transferred Float32Array. Call dispose() when the run is over.
+ */
+export class EmbeddingWorkerClient {
+  private worker: Worker;
+  private nextRequestId = 0;
+  private estimates = new Map<number, { resolve: (estimate: CostEstimate) => void; reject: (error: Error) => void }>();
+  private run: PendingRun | null = null;
+  private paused = false;
+  private lastJobs: EmbeddingJob[] = [];
+  private sessionSpend: SessionSpend | null = null;
+
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  constructor(providerId: string, providerConfig: EmbeddingProviderConfig, options: EmbeddingWorkerClientOptions) {
+    this.worker = new Worker(new URL('../workers/embedding.worker.ts', import.meta.url));
+    this.worker.onmessage = (event: MessageEvent<EmbeddingWorkerResponse>) => this.handleMessage(event.data);
+    this.worker.onerror = (event: ErrorEvent) => this.failAll(new Error(`Embedding worker crashed: ${event.message || 'unknown error'}`));
+
+    this.send({ type: 'init', providerId, providerConfig, ...options });
+  }
+
+  async estimateCost(textCount: number, sampleTexts?: string[]): Promise<CostEstimate> {
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.estimates.set(requestId, { resolve, reject });
+      this.send({ type: 'estimate', requestId, textCount, sampleTexts });
+    });
+  }
+
+  /**
+   * Embed data points in the worker; resolves with the points and their new
+   * embeddings (partial results when cancelled or stopped by the budget, where
+   * points not reached keep their previous embedding)
+   */
+  async processDataPointsWithEmbeddings(
+    dataPoints: DataPoint[],
+    onProgress?: (progress: ProcessingProgress) => void,
+    session: SessionOptions = {}
+  ): Promise<DataPoint[]> {
+    if (this.run) {
+      throw new Error('An embedding session is already running in this worker');
+    }
+    if (dataPoints.length === 0) {
+      return [];
+    }
+
+    // Vectors of the rest of the dataset are transferred packed instead of copied point by point
+    const datasetEmbeddings = session.dataset && packEmbeddings(session.dataset);
+
+    return new Promise((resolve, reject) => {
+      this.run = { dataPoints, onProgress, resolve, reject };
+      this.send({
+        type: 'start',
+        // Only text and metadata are needed; old embeddings are not copied to the worker
+        dataPoints: dataPoints.map(withoutEmbedding),
+        // The worker only reads the id and totals of a checkpoint, not its dataset
+        resume: session.resume && { ...session.resume, dataset: [] },
+        dataset: session.dataset?.map(withoutEmbedding),
+        datasetEmbeddings,
+        datasetName: session.datasetName
+      }, datasetEmbeddings ? packedBuffers(datasetEmbeddings) : []);
+    });
+  }
+
+  getLastJobs(): EmbeddingJob[] {
+    return this.lastJobs;
+  }
+
+  getSessionSpend(): SessionSpend | null {
+    return this.sessionSpend;
+  }
+
+  pauseSession(): void {
+    if (!this.run || this.paused) return;
+    this.paused = true;
+    this.send({ type: 'pause' });
+  }
+
+  resumeSession(): void {
+    this.paused = false;
+    this.send({ type: 'resume' });
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Abort in-flight requests; the pending run resolves with partial results
+   */
+  cancelSession(): void {
+    this.paused = false;
+    this.send({ type: 'cancel' });
+  }
+
+  /**
+   * Stop the worker; pending calls are rejected
+   */
+  dispose(): void {
+    this.worker.terminate();
+    this.failAll(new Error('Embedding worker was stopped'));
+  }
+
+  private send(message: EmbeddingWorkerRequest, transfer: Transferable[] = []): void {
+    this.worker.postMessage(message, transfer);
+  }
+
+  private handleMessage(message: EmbeddingWorkerResponse): void {
+    switch (message.type) {
+      case 'estimate': {
+        const pending = this.estimates.get(message.requestId);
+        this.estimates.delete(message.requestId);
+        if (message.estimate) {
+          pending?.resolve(message.estimate);
+        } else {
+          pending?.reject(new Error(message.error || 'Cost estimation failed'));
+        }
+        break;
+      }
+
+      case 'progress':
+        this.run?.onProgress?.(message.progress);
+        break;
+
+      case 'result': {
+        const run = this.run;
+        this.run = null;
+        this.paused = false;
+        this.lastJobs = message.jobs;
+        this.sessionSpend = message.spend;
+        // Points without a new embedding keep the old one, as with EmbeddingService
+        run?.resolve(unpackEmbeddings(run.dataPoints, message));
+        break;
+      }
+
+      case 'error': {
+        const run = this.run;
+        this.run = null;
+        this.paused = false;
+        run?.reject(new Error(message.message));
+        break;
+      }
+    }
+  }
+
+  private failAll(error: Error): void {
+    this.estimates.forEach(pending => pending.reject(error));
+    this.estimates.clear();
+    this.run?.reject(error);
+    this.run = null;
+    this.paused = false;
+  }
+}
+
+function withoutEmbedding({ embedding, embeddingInfo, ...point }: DataPoint): DataPoint {
+  return point;
+}
@@ -0,0 +1,71 @@
+import {
+  DataPoint,
+  DataProcessingOptions,
+  FileImportWorkerRequest,
+  FileImportWorkerResponse,
+  ImportIssue,
+  ProcessingProgress,
+  StreamingImportFormat
+} from '@/types';
+import { DataProcessor } from './dataProcessor';
+
+/**
+ * Loads CSV and JSONL files through DataProcessor's streaming parsers in a
+ * dedicated worker, collecting the parsed rows on the page. Browsers without
+ * workers stream on the main thread instead.
+ */
+export class FileImportClient {
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  static async load(
+    file: File,
+    format: StreamingImportFormat,
+    options: DataProcessingOptions = {},
+    onProgress?: (progress: ProcessingProgress) => void
+  ): Promise<{ data: DataPoint[]; issues: ImportIssue[] }> {
+    const data: DataPoint[] = [];
+    const collect = (batch: DataPoint[]) => {
+      for (const point of batch) data.push(point);
+    };
+
+    if (!this.isSupported()) {
+      const { issues } = format === 'jsonl'
+        ? await DataProcessor.streamJSONLFile(file, collect, options, onProgress)
+        : await DataProcessor.streamCSVFile(file, collect, options, onProgress);
+      return { data, issues };
+    }
+
+    const worker = new Worker(new URL('../workers/fileImport.worker.ts', import.meta.url));
+
+    try {
+      const issues = await new Promise<ImportIssue[]>((resolve, reject) => {
+        worker.onmessage = (event: MessageEvent<FileImportWorkerResponse>) => {
+          const message = event.data;
+          switch (message.type) {
+            case 'progress':
+              onProgress?.(message.progress);
+              break;
+            case 'rows':
+              collect(message.points);
+              break;
+            case 'done':
+              resolve(message.issues);
+              break;
+            case 'error':
+              reject(new Error(message.message));
+              break;
+          }
+        };
+        worker.onerror = (event: ErrorEvent) => reject(new Error(`File import worker crashed: ${event.message || 'unknown error'}`));
+
+        const request: FileImportWorkerRequest = { type: 'parse', format, file, options };
+        worker.postMessage(request);
+      });
+      return { data, issues };
+    } finally {
+      worker.terminate();
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { DataPoint, ImportIssue, ImportIssueKind, ImportValidationReport } from '@/types';
+
+/**
+ * Report shown after an import, before the data is loaded: the rows the
+ * parsers skipped or flagged, plus checks that need the whole dataset
+ * (duplicate ids, embeddings whose length differs from the rest).
+ */
+export class ImportValidation {
+  static buildReport(data: DataPoint[], parseIssues: ImportIssue[]): ImportValidationReport {
+    const issues = [...parseIssues];
+
+    const idCounts = new Map<string, DataPoint[]>();
+    data.forEach(point => {
+      const points = idCounts.get(point.id);
+      if (points) points.push(point);
+      else idCounts.set(point.id, [point]);
+    });
+    idCounts.forEach((points, id) => {
+      if (points.length < 2) return;
+      issues.push({
+        kind: 'duplicate_id',
+        id,
+        file: points[0].metadata?.sourceFile,
+        message: `Id appears ${points.length} times`
+      });
+    });
+
+    // The most common length is taken as the dataset's dimensionality, as in EmbeddingDiagnostics
+    const dimensionCounts = new Map<number, number>();
+    data.forEach(point => {
+      if (!point.embedding?.length) return;
+      dimensionCounts.set(point.embedding.length, (dimensionCounts.get(point.embedding.length) ?? 0) + 1);
+    });
+    const embeddingDimensions = Array.from(dimensionCounts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+    if (dimensionCounts.size > 1) {
+      data.forEach(point => {
+        const length = point.embedding?.length;
+        if (!length || length === embeddingDimensions) return;
+        issues.push({
+          kind: 'dimension_mismatch',
+          id: point.id,
+          file: point.metadata?.sourceFile,
+          message: `Embedding has ${length} dimensions, expected ${embeddingDimensions}`
+        });
+      });
+    }
+
+    const counts: Record<ImportIssueKind, number> = {
+      skipped_row: 0,
+      malformed_row: 0,
+      invalid_embedding: 0,
+      duplicate_id: 0,
+      dimension_mismatch: 0
+    };
+    issues.forEach(issue => {
+      counts[issue.kind]++;
+    });
+
+    return { imported: data.length, issues, counts, embeddingDimensions };
+  }
+
+  static hasIssues(report: ImportValidationReport): boolean {
+    return report.issues.length > 0;
+  }
+
+  static toCSV(report: ImportValidationReport): string {
+    const headers = ['file', 'line', 'id', 'kind', 'message'];
+    const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+    const rows = report.issues.map(issue => [
+      quote(issue.file ?? ''),
+      issue.line ?? '',
+      quote(issue.id ?? ''),
+      issue.kind,
+      quote(issue.message)
+    ].join(','));
+
+    return [headers.join(','), ...rows].join('\n');
+  }
+}
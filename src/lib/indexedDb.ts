@@ -0,0 +1,100 @@
+/**
+ * Minimal promise wrappers around IndexedDB shared by the persistent stores
+ * (embedding cache, session checkpoints, ...).
+ */
+
+const DB_NAME = 'data-viz-graph';
+const DB_VERSION = 3;
+
+interface StoreDefinition {
+  name: string;
+  keyPath: string;
+  indexes?: { name: string; keyPath: string }[];
+}
+
+export const STORES = {
+  embeddingCache: 'embeddingCache',
+  sessionCheckpoints: 'sessionCheckpoints',
+  sessionEmbeddings: 'sessionEmbeddings',
+  costLedger: 'costLedger'
+} as const;
+
+const STORE_DEFINITIONS: StoreDefinition[] = [
+  {
+    name: STORES.embeddingCache,
+    keyPath: 'key',
+    indexes: [{ name: 'model', keyPath: 'model' }]
+  },
+  {
+    name: STORES.sessionCheckpoints,
+    keyPath: 'id'
+  },
+  {
+    name: STORES.sessionEmbeddings,
+    keyPath: 'key',
+    indexes: [{ name: 'sessionId', keyPath: 'sessionId' }]
+  },
+  {
+    name: STORES.costLedger,
+    keyPath: 'id',
+    indexes: [{ name: 'startedAt', keyPath: 'startedAt' }]
+  }
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!isIndexedDBAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const transaction = request.transaction!;
+
+        STORE_DEFINITIONS.forEach(definition => {
+          const store = db.objectStoreNames.contains(definition.name)
+            ? transaction.objectStore(definition.name)
+            : db.createObjectStore(definition.name, { keyPath: definition.keyPath });
+
+          definition.indexes?.forEach(index => {
+            if (!store.indexNames.contains(index.name)) {
+              store.createIndex(index.name, index.keyPath);
+            }
+          });
+        });
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(new Error(`Failed to open IndexedDB: ${request.error?.message || 'unknown error'}`));
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+}
@@ -0,0 +1,269 @@
+import {
+  EmbeddingProvider,
+  EmbeddingProviderConfig,
+  EmbeddingProviderPricing,
+  EmbeddingBatchResult
+} from '@/types';
+
+type SparseVector = Map<number, number>;
+
+/**
+ * Offline embedding provider that runs entirely in the browser.
+ *
+ * Texts are turned into hashed word (uni/bigram) and character n-gram
+ * features weighted by TF-IDF. When `reducedDimensions` is set, the
+ * hashed vectors are projected onto the top singular vectors of the
+ * corpus (LSA), computed with seeded subspace iteration so results are
+ * deterministic for the same input.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id = 'local';
+  readonly name = 'Local (TF-IDF)';
+  model: string;
+  readonly maxBatchSize = 500;
+  readonly maxTokens = Number.POSITIVE_INFINITY;
+  readonly pricing: EmbeddingProviderPricing = { costPer1KTokens: 0 };
+  readonly cacheable = false; // vectors depend on the fitted corpus
+  dimensions: number;
+
+  private readonly hashDimensions: number;
+  private readonly reducedDimensions: number;
+  private readonly charNgramRange: [number, number];
+  private readonly seed: number;
+
+  private idf: Float64Array | null = null;
+  private components: Float64Array | null = null; // hashDimensions x dimensions, row-major
+
+  constructor(config: EmbeddingProviderConfig = {}) {
+    this.hashDimensions = config.hashDimensions || 2048;
+    this.reducedDimensions = config.reducedDimensions || 0;
+    this.charNgramRange = config.charNgramRange || [3, 4];
+    this.seed = config.seed ?? 42;
+    this.dimensions = this.reducedDimensions > 0 ? this.reducedDimensions : this.hashDimensions;
+    this.model = this.modelId(this.reducedDimensions);
+  }
+
+  /**
+   * Fit document frequencies (and the SVD projection) on the full corpus.
+   * The SVD needs at least two texts and keeps at most one component per
+   * text; dimensions and the model id are set to what was actually fitted.
+   */
+  async prepare(texts: string[]): Promise<void> {
+    const documentFrequency = new Float64Array(this.hashDimensions);
+    const termCounts = texts.map(text => this.countFeatures(text));
+
+    termCounts.forEach(counts => {
+      counts.forEach((_, index) => {
+        documentFrequency[index]++;
+      });
+    });
+
+    const idf = new Float64Array(this.hashDimensions);
+    for (let i = 0; i < this.hashDimensions; i++) {
+      idf[i] = Math.log((1 + texts.length) / (1 + documentFrequency[i])) + 1;
+    }
+    this.idf = idf;
+    this.components = null;
+    this.dimensions = this.hashDimensions;
+
+    if (this.reducedDimensions > 0 && texts.length > 1) {
+      const rows = termCounts.map(counts => this.weight(counts));
+      this.components = await this.fitComponents(rows);
+      this.dimensions = this.components.length / this.hashDimensions;
+    }
+    this.model = this.modelId(this.components ? this.dimensions : 0);
+  }
+
+  private modelId(reducedDimensions: number): string {
+    return reducedDimensions > 0
+      ? `local-tfidf-${this.hashDimensions}-svd${reducedDimensions}`
+      : `local-tfidf-${this.hashDimensions}`;
+  }
+
+  async embedBatch(texts: string[]): Promise<EmbeddingBatchResult> {
+    return {
+      embeddings: texts.map(text => this.embed(text))
+    };
+  }
+
+  private embed(text: string): number[] {
+    const vector = this.weight(this.countFeatures(text));
+
+    if (!this.components) {
+      const dense = new Array(this.hashDimensions).fill(0);
+      vector.forEach((value, index) => {
+        dense[index] = value;
+      });
+      return dense;
+    }
+
+    const k = this.dimensions;
+    const projected = new Array(k).fill(0);
+    vector.forEach((value, index) => {
+      const offset = index * k;
+      for (let j = 0; j < k; j++) {
+        projected[j] += value * this.components![offset + j];
+      }
+    });
+
+    return normalize(projected);
+  }
+
+  /**
+   * Hashed feature counts; the sign bit reduces bias from hash collisions
+   */
+  private countFeatures(text: string): SparseVector {
+    const counts: SparseVector = new Map();
+    const words = text.toLowerCase().match(/[a-z0-9\u00c0-\uffff]+/g) || [];
+    const [minN, maxN] = this.charNgramRange;
+
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      const index = hash % this.hashDimensions;
+      const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+      counts.set(index, (counts.get(index) || 0) + sign * weight);
+    };
+
+    for (let i = 0; i < words.length; i++) {
+      add(`w:${words[i]}`, 1);
+      if (i + 1 < words.length) {
+        add(`b:${words[i]} ${words[i + 1]}`, 1);
+      }
+
+      const padded = `<${words[i]}>`;
+      for (let n = minN; n <= maxN; n++) {
+        for (let start = 0; start + n <= padded.length; start++) {
+          add(`c:${padded.substring(start, start + n)}`, 0.5);
+        }
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Sublinear TF-IDF weighting followed by L2 normalization
+   */
+  private weight(counts: SparseVector): SparseVector {
+    const weighted: SparseVector = new Map();
+    let norm = 0;
+
+    counts.forEach((count, index) => {
+      if (count === 0) return;
+      const tf = Math.sign(count) * (1 + Math.log(Math.abs(count) + 1));
+      const value = tf * (this.idf ? this.idf[index] : 1);
+      weighted.set(index, value);
+      norm += value * value;
+    });
+
+    norm = Math.sqrt(norm);
+    if (norm > 0) {
+      weighted.forEach((value, index) => weighted.set(index, value / norm));
+    }
+
+    return weighted;
+  }
+
+  /**
+   * Top right singular vectors of the (sparse) document-term matrix via
+   * seeded subspace iteration
+   */
+  private async fitComponents(rows: SparseVector[], iterations: number = 4): Promise<Float64Array> {
+    const d = this.hashDimensions;
+    const k = Math.min(this.reducedDimensions, rows.length, d);
+    const random = mulberry32(this.seed);
+
+    let basis = new Float64Array(d * k);
+    for (let i = 0; i < basis.length; i++) {
+      basis[i] = random() * 2 - 1;
+    }
+    orthonormalizeColumns(basis, d, k);
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      // projected = X * basis (n x k)
+      const projected = new Float64Array(rows.length * k);
+      rows.forEach((row, i) => {
+        const rowOffset = i * k;
+        row.forEach((value, index) => {
+          const basisOffset = index * k;
+          for (let j = 0; j < k; j++) {
+            projected[rowOffset + j] += value * basis[basisOffset + j];
+          }
+        });
+      });
+
+      // next = X^T * projected (d x k)
+      const next = new Float64Array(d * k);
+      rows.forEach((row, i) => {
+        const rowOffset = i * k;
+        row.forEach((value, index) => {
+          const nextOffset = index * k;
+          for (let j = 0; j < k; j++) {
+            next[nextOffset + j] += value * projected[rowOffset + j];
+          }
+        });
+      });
+
+      orthonormalizeColumns(next, d, k);
+      basis = next;
+
+      // Allow UI to update between iterations
+      await new Promise(resolve => setTimeout(resolve, 1));
+    }
+
+    return basis;
+  }
+}
+
+/**
+ * Modified Gram-Schmidt on the columns of a row-major (rows x cols) matrix
+ */
+function orthonormalizeColumns(matrix: Float64Array, rows: number, cols: number): void {
+  for (let j = 0; j < cols; j++) {
+    for (let p = 0; p < j; p++) {
+      let dot = 0;
+      for (let i = 0; i < rows; i++) {
+        dot += matrix[i * cols + j] * matrix[i * cols + p];
+      }
+      for (let i = 0; i < rows; i++) {
+        matrix[i * cols + j] -= dot * matrix[i * cols + p];
+      }
+    }
+
+    let norm = 0;
+    for (let i = 0; i < rows; i++) {
+      norm += matrix[i * cols + j] * matrix[i * cols + j];
+    }
+    norm = Math.sqrt(norm);
+    for (let i = 0; i < rows; i++) {
+      matrix[i * cols + j] = norm > 0 ? matrix[i * cols + j] / norm : 0;
+    }
+  }
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+// 32-bit FNV-1a string hash
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Small seeded PRNG for reproducible projections
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,296 @@
+import { DataPoint, MarkdownNote } from '@/types';
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const HEADING = /^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+const WIKILINK = /(!?)\[\[([^\]|#]*)(?:#([^\]|]*))?(?:\|([^\]]*))?\]\]/g;
+const MARKDOWN_LINK = /(!?)\[([^\]]*)\]\(<?([^)\s>]+)>?(?:\s+"[^"]*")?\)/g;
+const INLINE_TAG = /(^|\s)#([\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/gu;
+const URL_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+const MARKDOWN_EXTENSION = /\.(md|markdown)$/i;
+
+const DEFAULT_CATEGORY = 'Untagged';
+
+interface NoteSection {
+  heading: string;
+  level: number;
+  lines: string[];
+}
+
+interface LinkTarget {
+  note: string; // target as written, without extension; empty for the same note
+  heading?: string;
+  relativeTo?: string; // folder of the linking note, for [text](path.md) links
+}
+
+interface ParsedNote {
+  key: string; // path without extension
+  frontMatter: Record<string, any>;
+  tags: string[];
+  sections: Array<{ id: string; heading: string; level: number; text: string; tags: string[]; targets: LinkTarget[] }>;
+}
+
+/**
+ * Importer for Markdown / Obsidian-style vaults. Each note is split into one
+ * data point per heading section; front-matter becomes metadata, tags become
+ * categories, and [[wikilinks]] and [text](note.md) links are resolved across
+ * the vault into metadata.links, which generateGraph adds as authored edges.
+ */
+export class MarkdownVault {
+  static isMarkdown(fileName: string): boolean {
+    return MARKDOWN_EXTENSION.test(fileName);
+  }
+
+  /**
+   * Parse all notes of a vault together so links between them resolve.
+   * Returns the data points of each note, in the order of the notes given.
+   */
+  static parseVault(notes: MarkdownNote[]): DataPoint[][] {
+    const parsed = notes.map(note => this.parseNote(note));
+
+    // A dropped vault folder prefixes every path with its own name; links are written relative to it
+    const folders = parsed.map(note => note.key.split('/').slice(0, -1));
+    const rootDepth = folders.length === 0 ? 0 : folders.reduce((depth, parts) => {
+      let shared = 0;
+      while (shared < depth && parts[shared] === folders[0][shared]) shared++;
+      return shared;
+    }, folders[0].length);
+    const rootPrefix = folders[0]?.slice(0, rootDepth).map(part => `${part}/`).join('') ?? '';
+
+    // Notes are found by path, by file name (shortest path wins, as in Obsidian) and by alias
+    const byPath = new Map<string, ParsedNote>();
+    const byName = new Map<string, ParsedNote>();
+    const byAlias = new Map<string, ParsedNote>();
+    [...parsed]
+      .sort((a, b) => a.key.split('/').length - b.key.split('/').length || a.key.localeCompare(b.key))
+      .forEach(note => {
+        const key = note.key.toLowerCase();
+        byPath.set(key, note);
+        byPath.set(key.slice(rootPrefix.length), note);
+        const name = key.split('/').pop() as string;
+        if (!byName.has(name)) byName.set(name, note);
+        this.toList(note.frontMatter.aliases ?? note.frontMatter.alias).forEach(alias => {
+          if (!byAlias.has(alias.toLowerCase())) byAlias.set(alias.toLowerCase(), note);
+        });
+      });
+
+    const findNote = (target: LinkTarget, from: ParsedNote): ParsedNote | undefined => {
+      if (!target.note) return from;
+      const name = target.note.toLowerCase();
+      if (target.relativeTo !== undefined) {
+        const path = target.note.startsWith('/') ? rootPrefix + target.note : this.joinPath(target.relativeTo, target.note);
+        return byPath.get(this.joinPath('', path).toLowerCase()) ?? byName.get(name.split('/').pop() as string);
+      }
+      return byPath.get(name) ?? byName.get(name.split('/').pop() as string) ?? byAlias.get(name);
+    };
+
+    return parsed.map(note => note.sections.map((section, index) => {
+      const links = new Set<string>();
+      const unresolvedLinks = new Set<string>();
+
+      section.targets.forEach(target => {
+        const targetNote = findNote(target, note);
+        if (!targetNote || targetNote.sections.length === 0) {
+          unresolvedLinks.add(target.note);
+          return;
+        }
+        const slug = target.heading ? this.slugify(target.heading) : '';
+        const targetSection = (slug && targetNote.sections.find(candidate => this.slugify(candidate.heading) === slug))
+          || targetNote.sections[0];
+        if (targetSection.id !== section.id) {
+          links.add(targetSection.id);
+        }
+      });
+
+      const { tags: _tags, aliases: _aliases, ...frontMatter } = note.frontMatter;
+      const tags = Array.from(new Set([...section.tags, ...note.tags]));
+
+      return {
+        id: section.id,
+        text: section.text,
+        category: typeof frontMatter.category === 'string' ? frontMatter.category : tags[0] ?? DEFAULT_CATEGORY,
+        metadata: {
+          ...frontMatter,
+          note: note.key,
+          title: frontMatter.title ?? note.key.split('/').pop(),
+          heading: section.heading || undefined,
+          headingLevel: section.level || undefined,
+          section: index + 1,
+          totalSections: note.sections.length,
+          tags,
+          links: Array.from(links),
+          unresolvedLinks: unresolvedLinks.size > 0 ? Array.from(unresolvedLinks) : undefined,
+          source: 'markdown_vault'
+        }
+      };
+    }));
+  }
+
+  private static parseNote({ path, content }: MarkdownNote): ParsedNote {
+    const key = path.replace(/\\/g, '/').replace(/^\.?\//, '').replace(MARKDOWN_EXTENSION, '');
+    const folder = key.includes('/') ? key.slice(0, key.lastIndexOf('/')) : '';
+
+    const frontMatterMatch = content.match(FRONT_MATTER);
+    const frontMatter = frontMatterMatch ? this.parseFrontMatter(frontMatterMatch[1]) : {};
+    const body = frontMatterMatch ? content.slice(frontMatterMatch[0].length) : content;
+
+    // Split at headings outside fenced code blocks
+    const sections: NoteSection[] = [{ heading: '', level: 0, lines: [] }];
+    let inFence = false;
+    body.split(/\r?\n/).forEach(line => {
+      if (FENCE.test(line)) inFence = !inFence;
+      const heading = inFence ? null : line.match(HEADING);
+      if (heading) {
+        sections.push({ heading: heading[2].trim(), level: heading[1].length, lines: [] });
+      } else {
+        sections[sections.length - 1].lines.push(line);
+      }
+    });
+
+    const usedIds = new Set<string>();
+    const parsedSections = sections
+      .map(section => {
+        const raw = section.lines.join('\n').trim();
+        const scanned = this.stripCode(raw);
+        return {
+          section,
+          text: this.toPlainText(section.heading ? `${section.heading}\n\n${raw}` : raw).trim(),
+          hasBody: raw.length > 0,
+          tags: Array.from(scanned.matchAll(INLINE_TAG), match => match[2]),
+          targets: this.findLinks(`${section.heading}\n${scanned}`, folder)
+        };
+      })
+      // Heading-only sections (e.g. a title right above its first subheading) are folded away
+      .filter(({ hasBody }) => hasBody)
+      .map(({ section, text, tags, targets }, index) => {
+        let id = index === 0 ? key : `${key}#${this.slugify(section.heading) || index + 1}`;
+        for (let suffix = 2; usedIds.has(id); suffix++) {
+          id = `${key}#${this.slugify(section.heading)}-${suffix}`;
+        }
+        usedIds.add(id);
+        return { id, heading: section.heading, level: section.level, text, tags, targets };
+      });
+
+    return {
+      key,
+      frontMatter,
+      tags: this.toList(frontMatter.tags ?? frontMatter.tag).map(tag => tag.replace(/^#/, '')),
+      sections: parsedSections
+    };
+  }
+
+  private static findLinks(text: string, folder: string): LinkTarget[] {
+    const targets: LinkTarget[] = [];
+
+    for (const [, , note, heading] of text.matchAll(WIKILINK)) {
+      const name = note.trim();
+      // Embedded attachments (![[image.png]]) are not notes
+      if (/\.\w+$/.test(name) && !MARKDOWN_EXTENSION.test(name)) continue;
+      targets.push({ note: name.replace(MARKDOWN_EXTENSION, ''), heading: heading?.trim() || undefined });
+    }
+
+    for (const [, , , href] of text.matchAll(MARKDOWN_LINK)) {
+      if (URL_SCHEME.test(href)) continue;
+      const [path, heading] = this.decode(href).split('#');
+      if (path && !MARKDOWN_EXTENSION.test(path)) continue;
+      targets.push({
+        note: path.replace(MARKDOWN_EXTENSION, ''),
+        heading: heading || undefined,
+        relativeTo: folder
+      });
+    }
+
+    return targets;
+  }
+
+  /**
+   * Front-matter subset: `key: value`, inline `[a, b]` lists and `- item` lists
+   */
+  private static parseFrontMatter(yaml: string): Record<string, any> {
+    const result: Record<string, any> = {};
+    let listKey: string | null = null;
+
+    yaml.split(/\r?\n/).forEach(line => {
+      if (!line.trim() || line.trim().startsWith('#')) return;
+
+      const item = line.match(/^\s*-\s+(.*)$/);
+      if (item && listKey) {
+        result[listKey].push(this.parseScalar(item[1]));
+        return;
+      }
+
+      const pair = line.match(/^([^\s:][^:]*?)\s*:\s*(.*)$/);
+      if (!pair) {
+        listKey = null;
+        return;
+      }
+      const [, key, value] = pair;
+      if (value === '') {
+        result[key] = [];
+        listKey = key;
+      } else {
+        listKey = null;
+        result[key] = value.startsWith('[') && value.endsWith(']')
+          ? value.slice(1, -1).split(',').map(part => this.parseScalar(part)).filter(part => part !== '')
+          : this.parseScalar(value);
+      }
+    });
+
+    // Keys left without items had an empty value
+    Object.keys(result).forEach(key => {
+      if (Array.isArray(result[key]) && result[key].length === 0) result[key] = null;
+    });
+    return result;
+  }
+
+  private static parseScalar(value: string): any {
+    const text = value.trim().replace(/\s+#.*$/, '');
+    if (/^(['"]).*\1$/.test(text)) return text.slice(1, -1);
+    if (text === 'true' || text === 'false') return text === 'true';
+    if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+    return text;
+  }
+
+  private static toList(value: any): string[] {
+    if (Array.isArray(value)) return value.map(String).filter(Boolean);
+    if (typeof value === 'string') return value.split(/[,\s]+/).filter(Boolean);
+    return [];
+  }
+
+  // Text used for embeddings: link syntax replaced by the text a reader sees
+  private static toPlainText(markdown: string): string {
+    return markdown
+      .replace(/!\[\[[^\]]*\]\]/g, '')
+      .replace(WIKILINK, (_, embed, note, heading, alias) => alias || (note ? note : heading) || '')
+      .replace(MARKDOWN_LINK, (_, embed, text) => (embed ? '' : text))
+      .replace(/<!--[\s\S]*?-->/g, '');
+  }
+
+  // Blank out code, so tags and links are not picked up from it
+  private static stripCode(markdown: string): string {
+    return markdown
+      .replace(/(```|~~~)[\s\S]*?(\1|$)/g, '')
+      .replace(/`[^`\n]*`/g, '');
+  }
+
+  private static joinPath(folder: string, path: string): string {
+    const parts: string[] = [];
+    `${folder}/${path}`.split('/').forEach(part => {
+      if (part === '..') parts.pop();
+      else if (part && part !== '.') parts.push(part);
+    });
+    return parts.join('/');
+  }
+
+  private static decode(href: string): string {
+    try {
+      return decodeURIComponent(href);
+    } catch {
+      return href;
+    }
+  }
+
+  private static slugify(heading: string): string {
+    return heading.toLowerCase().trim().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '');
+  }
+}
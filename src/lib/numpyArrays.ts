@@ -0,0 +1,254 @@
+import { DataPoint, EmbeddingInfo, EmbeddingMatrixJoin, NpyArray } from '@/types';
+
+const NPY_MAGIC = '\x93NUMPY';
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_FILE_HEADER = 0x02014b50;
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+
+// Entry names checked first when an .npz holds several arrays
+const EMBEDDING_ENTRY_NAMES = ['embeddings', 'embedding', 'vectors', 'X'];
+const ID_ENTRY_NAMES = ['ids', 'id', 'keys'];
+
+/**
+ * Reader for NumPy .npy files and .npz archives (stored or deflated, unpacked
+ * with DecompressionStream), and the join of an embedding matrix onto loaded
+ * data points by row order or by an `ids` array saved next to the matrix.
+ */
+export class NumpyArrays {
+  /**
+   * Read every array in an .npy or .npz file
+   */
+  static async readFile(file: File): Promise<NpyArray[]> {
+    const buffer = await file.arrayBuffer();
+    const baseName = file.name.replace(/\.(npy|npz)$/i, '');
+
+    if (file.name.toLowerCase().endsWith('.npz')) {
+      return this.parseNpz(buffer);
+    }
+    return [this.parseNpy(buffer, baseName)];
+  }
+
+  static parseNpy(buffer: ArrayBuffer, name: string): NpyArray {
+    const bytes = new Uint8Array(buffer);
+    if (String.fromCharCode(...Array.from(bytes.subarray(0, 6))) !== NPY_MAGIC) {
+      throw new Error(`${name} is not a NumPy .npy array`);
+    }
+
+    const view = new DataView(buffer);
+    const major = bytes[6];
+    const headerLength = major === 1 ? view.getUint16(8, true) : view.getUint32(8, true);
+    const headerStart = major === 1 ? 10 : 12;
+    const header = new TextDecoder(major >= 3 ? 'utf-8' : 'latin1').decode(bytes.subarray(headerStart, headerStart + headerLength));
+
+    const dtype = header.match(/'descr':\s*'([^']+)'/)?.[1];
+    const shapeText = header.match(/'shape':\s*\(([^)]*)\)/)?.[1];
+    if (!dtype || shapeText === undefined) {
+      throw new Error(`${name}: unreadable .npy header`);
+    }
+    if (/'fortran_order':\s*True/.test(header)) {
+      throw new Error(`${name}: Fortran-ordered arrays are not supported; save with np.ascontiguousarray()`);
+    }
+
+    const shape = shapeText.split(',').map(part => part.trim()).filter(Boolean).map(Number);
+    const count = shape.reduce((product, size) => product * size, 1);
+    const data = buffer.slice(headerStart + headerLength);
+
+    return { name, dtype, shape, values: this.decodeValues(data, dtype, count, name) };
+  }
+
+  static async parseNpz(buffer: ArrayBuffer): Promise<NpyArray[]> {
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+
+    // The end-of-central-directory record sits in the last 64KB (after an optional comment)
+    let endOffset = -1;
+    for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+      if (view.getUint32(i, true) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+        endOffset = i;
+        break;
+      }
+    }
+    if (endOffset < 0) {
+      throw new Error('Not a valid .npz archive');
+    }
+
+    const entryCount = view.getUint16(endOffset + 10, true);
+    let offset = view.getUint32(endOffset + 16, true);
+    const arrays: NpyArray[] = [];
+
+    for (let entry = 0; entry < entryCount; entry++) {
+      if (view.getUint32(offset, true) !== ZIP_CENTRAL_FILE_HEADER) {
+        throw new Error('Corrupt .npz archive (central directory)');
+      }
+      const method = view.getUint16(offset + 10, true);
+      const compressedSize = view.getUint32(offset + 20, true);
+      const nameLength = view.getUint16(offset + 28, true);
+      const extraLength = view.getUint16(offset + 30, true);
+      const commentLength = view.getUint16(offset + 32, true);
+      const localOffset = view.getUint32(offset + 42, true);
+      const fileName = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+      offset += 46 + nameLength + extraLength + commentLength;
+
+      if (!fileName.endsWith('.npy')) continue;
+      if (view.getUint32(localOffset, true) !== ZIP_LOCAL_FILE_HEADER) {
+        throw new Error(`Corrupt .npz archive (entry ${fileName})`);
+      }
+
+      // Sizes come from the central directory; the local header may only carry zip64 placeholders
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const compressed = buffer.slice(dataStart, dataStart + compressedSize);
+      const name = fileName.replace(/\.npy$/, '');
+
+      arrays.push(this.parseNpy(await this.inflate(compressed, method, fileName), name));
+    }
+
+    if (arrays.length === 0) {
+      throw new Error('The .npz archive contains no arrays');
+    }
+    return arrays;
+  }
+
+  /**
+   * The 2-D float array to use as embeddings
+   */
+  static findEmbeddings(arrays: NpyArray[]): NpyArray {
+    const matrices = arrays.filter(array => array.shape.length === 2 && array.values instanceof Float32Array);
+    const matrix = EMBEDDING_ENTRY_NAMES
+      .map(name => matrices.find(array => array.name === name))
+      .find(Boolean) ?? matrices[0];
+
+    if (!matrix) {
+      const shapes = arrays.map(array => `${array.name} (${array.shape.join(' × ') || 'scalar'}, ${array.dtype})`).join(', ');
+      throw new Error(`Expected a 2-D float16/float32 matrix (rows × dimensions), found ${shapes}`);
+    }
+    return matrix;
+  }
+
+  /**
+   * A 1-D array of row ids saved next to the matrix, if any
+   */
+  static findIds(arrays: NpyArray[]): string[] | null {
+    const idArrays = arrays.filter(array => array.shape.length === 1 && Array.isArray(array.values));
+    const ids = ID_ENTRY_NAMES.map(name => idArrays.find(array => array.name === name)).find(Boolean);
+    return ids ? ids.values as string[] : null;
+  }
+
+  /**
+   * Attach matrix rows to data points. Row order needs exactly one row per
+   * point; an id join needs one id per row and reports points left without one.
+   * The vectors are marked as imported from `sourceName`, so the model guard
+   * does not mix them with vectors generated later.
+   */
+  static joinEmbeddings(
+    dataPoints: DataPoint[],
+    matrix: NpyArray,
+    join: EmbeddingMatrixJoin,
+    ids: string[] | null,
+    sourceName: string
+  ): { data: DataPoint[]; matched: number; unmatchedIds: string[] } {
+    const [rows, dimensions] = matrix.shape;
+    const values = matrix.values as Float32Array;
+    const rowVector = (row: number) => Array.from(values.subarray(row * dimensions, (row + 1) * dimensions));
+    const embeddingInfo: EmbeddingInfo = {
+      provider: 'imported',
+      model: `imported:${sourceName}`,
+      dimensions,
+      createdAt: new Date().toISOString()
+    };
+
+    if (join === 'order') {
+      if (rows !== dataPoints.length) {
+        throw new Error(`The matrix has ${rows} rows but ${dataPoints.length} items are loaded (rows without text are skipped on import); join by id instead`);
+      }
+      return {
+        data: dataPoints.map((point, row) => ({ ...point, embedding: rowVector(row), embeddingInfo })),
+        matched: rows,
+        unmatchedIds: []
+      };
+    }
+
+    if (!ids) {
+      throw new Error('Joining by id needs an `ids` array saved in the .npz next to the matrix');
+    }
+    if (ids.length !== rows) {
+      throw new Error(`The ids array has ${ids.length} entries but the matrix has ${rows} rows`);
+    }
+
+    const rowById = new Map(ids.map((id, row) => [id, row]));
+    const unmatchedIds: string[] = [];
+    const data = dataPoints.map(point => {
+      const row = rowById.get(point.id);
+      if (row === undefined) {
+        unmatchedIds.push(point.id);
+        return point;
+      }
+      return { ...point, embedding: rowVector(row), embeddingInfo };
+    });
+
+    if (unmatchedIds.length === dataPoints.length) {
+      throw new Error('No loaded item id matches an id in the file');
+    }
+    return { data, matched: dataPoints.length - unmatchedIds.length, unmatchedIds };
+  }
+
+  private static async inflate(data: ArrayBuffer, method: number, fileName: string): Promise<ArrayBuffer> {
+    if (method === 0) return data;
+    if (method !== 8) {
+      throw new Error(`Unsupported compression in .npz entry ${fileName}`);
+    }
+    if (typeof DecompressionStream === 'undefined') {
+      throw new Error('This browser cannot unpack compressed .npz files; save with np.savez instead of np.savez_compressed');
+    }
+
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Response(stream).arrayBuffer();
+  }
+
+  private static decodeValues(data: ArrayBuffer, dtype: string, count: number, name: string): Float32Array | string[] {
+    const littleEndian = dtype[0] !== '>';
+    const type = dtype.slice(1);
+    const view = new DataView(data);
+
+    switch (type) {
+      case 'f4': {
+        if (littleEndian) return new Float32Array(data, 0, count);
+        return Float32Array.from({ length: count }, (_, i) => view.getFloat32(i * 4, false));
+      }
+      case 'f2':
+        return Float32Array.from({ length: count }, (_, i) => this.halfToFloat(view.getUint16(i * 2, littleEndian)));
+      case 'f8':
+        return Float32Array.from({ length: count }, (_, i) => view.getFloat64(i * 8, littleEndian));
+      case 'i4':
+        return Array.from({ length: count }, (_, i) => String(view.getInt32(i * 4, littleEndian)));
+      case 'i8':
+        return Array.from({ length: count }, (_, i) => String(view.getBigInt64(i * 8, littleEndian)));
+    }
+
+    // Fixed-width unicode strings (UTF-32, e.g. '<U12'), as produced by np.array(list_of_str)
+    const width = type.startsWith('U') ? Number(type.slice(1)) : 0;
+    if (width > 0) {
+      return Array.from({ length: count }, (_, i) => {
+        let text = '';
+        for (let c = 0; c < width; c++) {
+          const code = view.getUint32((i * width + c) * 4, littleEndian);
+          if (code === 0) break;
+          text += String.fromCodePoint(code);
+        }
+        return text;
+      });
+    }
+
+    throw new Error(`${name}: unsupported dtype ${dtype} (use float32 or float16)`);
+  }
+
+  // IEEE 754 half precision to number
+  private static halfToFloat(half: number): number {
+    const sign = half & 0x8000 ? -1 : 1;
+    const exponent = (half >> 10) & 0x1f;
+    const fraction = half & 0x3ff;
+
+    if (exponent === 0) return sign * Math.pow(2, -14) * (fraction / 1024);
+    if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+    return sign * Math.pow(2, exponent - 15) * (1 + fraction / 1024);
+  }
+}
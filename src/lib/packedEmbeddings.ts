@@ -0,0 +1,54 @@
+import { DataPoint, PackedEmbeddings } from '@/types';
+
+/**
+ * Concatenate the embeddings of a point list into one Float32Array so they
+ * can be transferred to or from a worker without copying
+ */
+export function packEmbeddings(points: DataPoint[]): PackedEmbeddings {
+  const indices = Uint32Array.from(
+    points.flatMap((point, index) => point.embedding ? [index] : [])
+  );
+  const embedded = Array.from(indices, index => points[index]);
+  const offsets = new Uint32Array(embedded.length + 1);
+
+  embedded.forEach((point, index) => {
+    offsets[index + 1] = offsets[index] + point.embedding!.length;
+  });
+
+  const vectors = new Float32Array(offsets[embedded.length]);
+  embedded.forEach((point, index) => vectors.set(point.embedding!, offsets[index]));
+
+  return {
+    indices,
+    vectors,
+    offsets,
+    embeddingInfo: embedded.map(point => point.embeddingInfo)
+  };
+}
+
+/**
+ * Put packed embeddings back on their points; points without one are returned unchanged
+ */
+export function unpackEmbeddings(
+  points: DataPoint[],
+  { indices, vectors, offsets, embeddingInfo }: PackedEmbeddings
+): DataPoint[] {
+  const result = [...points];
+
+  indices.forEach((pointIndex, i) => {
+    result[pointIndex] = {
+      ...points[pointIndex],
+      embedding: Array.from(vectors.subarray(offsets[i], offsets[i + 1])),
+      embeddingInfo: embeddingInfo[i]
+    };
+  });
+
+  return result;
+}
+
+/**
+ * Buffers to list as transferables when posting packed embeddings
+ */
+export function packedBuffers({ indices, vectors, offsets }: PackedEmbeddings): ArrayBuffer[] {
+  return [indices.buffer, vectors.buffer, offsets.buffer] as ArrayBuffer[];
+}
@@ -0,0 +1,310 @@
+import { RateLimitInfo, ThroughputStats } from '@/types';
+
+interface AdaptiveRateLimiterOptions {
+  initialConcurrency?: number;
+  minConcurrency?: number;
+  maxConcurrency?: number;
+  defaultRetryAfterMs?: number; // wait after a 429 without a Retry-After header
+}
+
+interface Bucket {
+  capacity: number;
+  level: number;
+  refillPerMs: number;
+  updatedAt: number;
+}
+
+interface CompletionRecord {
+  time: number;
+  items: number;
+  tokens: number;
+}
+
+const THROUGHPUT_WINDOW_MS = 60_000;
+const LOW_HEADROOM = 0.1; // back off when less than 10% of a limit remains
+const HIGH_HEADROOM = 0.5; // only grow concurrency with at least half remaining
+
+/**
+ * Token-bucket scheduler for embedding requests. Request and token budgets are
+ * learned from `x-ratelimit-*` response headers (unthrottled until known),
+ * concurrency grows additively while there is headroom and halves on 429s,
+ * and Retry-After pauses every caller.
+ */
+export class AdaptiveRateLimiter {
+  private requestBucket: Bucket | null = null;
+  private tokenBucket: Bucket | null = null;
+  private concurrency: number;
+  private readonly minConcurrency: number;
+  private readonly maxConcurrency: number;
+  private readonly defaultRetryAfterMs: number;
+
+  private inFlight = 0;
+  private successStreak = 0;
+  private blockedUntil = 0;
+  private slotWaiters: (() => void)[] = [];
+  private completions: CompletionRecord[] = [];
+  private startedAt = Date.now();
+
+  constructor(options: AdaptiveRateLimiterOptions = {}) {
+    this.minConcurrency = options.minConcurrency ?? 1;
+    this.maxConcurrency = options.maxConcurrency ?? 8;
+    this.concurrency = Math.min(this.maxConcurrency, options.initialConcurrency ?? 3);
+    this.defaultRetryAfterMs = options.defaultRetryAfterMs ?? 2000;
+  }
+
+  /**
+   * Upper bound on parallel workers; the effective limit is getConcurrency()
+   */
+  getMaxConcurrency(): number {
+    return this.maxConcurrency;
+  }
+
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  /**
+   * Wait for a concurrency slot and enough request/token budget. Resolves
+   * false (without taking a slot) when the signal aborts.
+   */
+  async acquire(tokens: number, signal?: AbortSignal): Promise<boolean> {
+    while (!signal?.aborted) {
+      if (this.inFlight >= this.concurrency) {
+        await this.waitForSlot(signal);
+        continue;
+      }
+
+      const now = Date.now();
+      const waitMs = Math.max(
+        this.blockedUntil - now,
+        this.bucketWait(this.requestBucket, 1, now),
+        this.bucketWait(this.tokenBucket, tokens, now)
+      );
+
+      if (waitMs <= 0) {
+        this.take(this.requestBucket, 1);
+        this.take(this.tokenBucket, tokens);
+        this.inFlight++;
+        return true;
+      }
+
+      await sleep(waitMs, signal);
+    }
+
+    return false;
+  }
+
+  /**
+   * Release the slot taken by acquire()
+   */
+  release(): void {
+    this.inFlight = Math.max(0, this.inFlight - 1);
+    this.wakeWaiters();
+  }
+
+  /**
+   * Record a successful request and adapt to the reported limits
+   */
+  onSuccess(items: number, tokens: number, info?: RateLimitInfo): void {
+    this.completions.push({ time: Date.now(), items, tokens });
+
+    const headroom = info ? this.updateBuckets(info) : 1;
+
+    if (headroom < LOW_HEADROOM) {
+      this.successStreak = 0;
+      this.setConcurrency(this.concurrency - 1);
+    } else if (headroom >= HIGH_HEADROOM && ++this.successStreak >= this.concurrency * 2) {
+      this.successStreak = 0;
+      this.setConcurrency(this.concurrency + 1);
+    }
+  }
+
+  /**
+   * Handle a 429: pause all callers for Retry-After and halve concurrency
+   */
+  onRateLimited(retryAfterMs?: number, info?: RateLimitInfo): void {
+    if (info) this.updateBuckets(info);
+
+    const waitMs = retryAfterMs ?? info?.resetRequestsMs ?? this.defaultRetryAfterMs;
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + waitMs);
+    this.successStreak = 0;
+    this.setConcurrency(Math.floor(this.concurrency / 2));
+  }
+
+  /**
+   * Milliseconds until callers may send again (0 when not paused by a 429)
+   */
+  getBlockedMs(): number {
+    return Math.max(0, this.blockedUntil - Date.now());
+  }
+
+  /**
+   * Throughput over the last minute
+   */
+  getThroughput(): ThroughputStats {
+    const now = Date.now();
+    this.completions = this.completions.filter(record => now - record.time < THROUGHPUT_WINDOW_MS);
+
+    const windowMs = Math.max(1000, Math.min(THROUGHPUT_WINDOW_MS, now - this.startedAt));
+    const totals = this.completions.reduce(
+      (sum, record) => ({ items: sum.items + record.items, tokens: sum.tokens + record.tokens }),
+      { items: 0, tokens: 0 }
+    );
+
+    return {
+      requestsPerMinute: Math.round(this.completions.length * 60_000 / windowMs),
+      tokensPerMinute: Math.round(totals.tokens * 60_000 / windowMs),
+      itemsPerSecond: Math.round(totals.items * 10_000 / windowMs) / 10,
+      concurrency: this.concurrency,
+      throttled: this.getBlockedMs() > 0
+    };
+  }
+
+  /**
+   * Sync buckets with the server's view; returns the smallest remaining fraction
+   */
+  private updateBuckets(info: RateLimitInfo): number {
+    this.requestBucket = syncBucket(this.requestBucket, info.limitRequests, info.remainingRequests);
+    this.tokenBucket = syncBucket(this.tokenBucket, info.limitTokens, info.remainingTokens);
+
+    // An exhausted budget blocks until the server says it resets
+    if (info.remainingRequests === 0 && info.resetRequestsMs) {
+      this.blockedUntil = Math.max(this.blockedUntil, Date.now() + info.resetRequestsMs);
+    }
+    if (info.remainingTokens === 0 && info.resetTokensMs) {
+      this.blockedUntil = Math.max(this.blockedUntil, Date.now() + info.resetTokensMs);
+    }
+
+    const fractions = [
+      fraction(info.remainingRequests, info.limitRequests),
+      fraction(info.remainingTokens, info.limitTokens)
+    ].filter((value): value is number => value !== null);
+
+    return fractions.length > 0 ? Math.min(...fractions) : 1;
+  }
+
+  private bucketWait(bucket: Bucket | null, amount: number, now: number): number {
+    if (!bucket || amount <= 0) return 0;
+    refill(bucket, now);
+
+    // Requests larger than the whole bucket go through once it is full
+    const needed = Math.min(amount, bucket.capacity);
+    return bucket.level >= needed ? 0 : Math.ceil((needed - bucket.level) / bucket.refillPerMs);
+  }
+
+  private take(bucket: Bucket | null, amount: number): void {
+    if (bucket) {
+      bucket.level -= Math.min(amount, bucket.capacity);
+    }
+  }
+
+  private setConcurrency(value: number): void {
+    this.concurrency = Math.max(this.minConcurrency, Math.min(this.maxConcurrency, value));
+    this.wakeWaiters();
+  }
+
+  private waitForSlot(signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      this.slotWaiters.push(resolve);
+      signal?.addEventListener('abort', () => resolve(), { once: true });
+    });
+  }
+
+  private wakeWaiters(): void {
+    const waiters = this.slotWaiters;
+    this.slotWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
+
+function syncBucket(bucket: Bucket | null, limit?: number, remaining?: number): Bucket | null {
+  if (!limit) return bucket;
+
+  const now = Date.now();
+  if (!bucket || bucket.capacity !== limit) {
+    bucket = { capacity: limit, level: remaining ?? limit, refillPerMs: limit / 60_000, updatedAt: now };
+  } else {
+    refill(bucket, now);
+  }
+
+  // Trust the server when it reports less budget than we think is left
+  if (remaining !== undefined) {
+    bucket.level = Math.min(bucket.level, remaining);
+  }
+
+  return bucket;
+}
+
+function refill(bucket: Bucket, now: number): void {
+  bucket.level = Math.min(bucket.capacity, bucket.level + (now - bucket.updatedAt) * bucket.refillPerMs);
+  bucket.updatedAt = now;
+}
+
+function fraction(remaining?: number, limit?: number): number | null {
+  return remaining !== undefined && limit ? remaining / limit : null;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Parse rate-limit headers (`x-ratelimit-*`, `retry-after`, `retry-after-ms`)
+ */
+export function parseRateLimitHeaders(headers: Headers): RateLimitInfo {
+  const number = (name: string) => {
+    const value = headers.get(name);
+    if (value === null || value.trim() === '') return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  };
+
+  return {
+    limitRequests: number('x-ratelimit-limit-requests'),
+    limitTokens: number('x-ratelimit-limit-tokens'),
+    remainingRequests: number('x-ratelimit-remaining-requests'),
+    remainingTokens: number('x-ratelimit-remaining-tokens'),
+    resetRequestsMs: parseDuration(headers.get('x-ratelimit-reset-requests')),
+    resetTokensMs: parseDuration(headers.get('x-ratelimit-reset-tokens')),
+    retryAfterMs: number('retry-after-ms') ?? parseRetryAfter(headers.get('retry-after'))
+  };
+}
+
+// Durations such as "20ms", "1.5s" or "6m0s"
+function parseDuration(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  let total = 0;
+  let matched = false;
+  const pattern = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(value)) !== null) {
+    matched = true;
+    const amount = parseFloat(match[1]);
+    const unit = match[2];
+    total += unit === 'h' ? amount * 3_600_000
+      : unit === 'm' ? amount * 60_000
+      : unit === 's' ? amount * 1000
+      : amount;
+  }
+
+  return matched ? Math.ceil(total) : undefined;
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,107 @@
+import { EmbeddingSessionCheckpoint } from '@/types';
+import { openDatabase, requestToPromise, transactionDone, isIndexedDBAvailable, STORES } from './indexedDb';
+
+interface SessionEmbeddingEntry {
+  key: string;
+  sessionId: string;
+  pointId: string;
+  embedding: Float32Array;
+}
+
+/**
+ * Checkpoints of in-progress embedding sessions stored in IndexedDB. The
+ * session record is written once; embeddings are appended per finished batch
+ * so a run interrupted by a reload or crash can continue where it stopped.
+ */
+export class SessionCheckpointStore {
+  static isAvailable(): boolean {
+    return isIndexedDBAvailable();
+  }
+
+  /**
+   * Start a new checkpoint; only the latest session is kept
+   */
+  static async create(checkpoint: EmbeddingSessionCheckpoint): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction([STORES.sessionCheckpoints, STORES.sessionEmbeddings], 'readwrite');
+
+    transaction.objectStore(STORES.sessionCheckpoints).clear();
+    transaction.objectStore(STORES.sessionEmbeddings).clear();
+    transaction.objectStore(STORES.sessionCheckpoints).put(checkpoint);
+
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Append the embeddings of a finished batch and update the progress counter
+   */
+  static async addEmbeddings(sessionId: string, items: { id: string; embedding: number[] }[]): Promise<void> {
+    if (items.length === 0) return;
+
+    const db = await openDatabase();
+    const transaction = db.transaction([STORES.sessionCheckpoints, STORES.sessionEmbeddings], 'readwrite');
+    const sessions = transaction.objectStore(STORES.sessionCheckpoints);
+    const embeddings = transaction.objectStore(STORES.sessionEmbeddings);
+
+    items.forEach(({ id, embedding }) => {
+      const entry: SessionEmbeddingEntry = {
+        key: `${sessionId}\u0000${id}`,
+        sessionId,
+        pointId: id,
+        embedding: Float32Array.from(embedding)
+      };
+      embeddings.put(entry);
+    });
+
+    const checkpoint = await requestToPromise<EmbeddingSessionCheckpoint | undefined>(sessions.get(sessionId));
+    if (checkpoint) {
+      checkpoint.completedItems += items.length;
+      checkpoint.updatedAt = Date.now();
+      sessions.put(checkpoint);
+    }
+
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Most recent unfinished session, if any
+   */
+  static async getLatest(): Promise<EmbeddingSessionCheckpoint | null> {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.sessionCheckpoints, 'readonly');
+    const checkpoints = await requestToPromise<EmbeddingSessionCheckpoint[]>(
+      transaction.objectStore(STORES.sessionCheckpoints).getAll()
+    );
+
+    if (checkpoints.length === 0) return null;
+    return checkpoints.reduce((latest, checkpoint) => checkpoint.updatedAt > latest.updatedAt ? checkpoint : latest);
+  }
+
+  /**
+   * Embeddings saved so far for a session, by data point id
+   */
+  static async getEmbeddings(sessionId: string): Promise<Map<string, number[]>> {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.sessionEmbeddings, 'readonly');
+    const entries = await requestToPromise<SessionEmbeddingEntry[]>(
+      transaction.objectStore(STORES.sessionEmbeddings).index('sessionId').getAll(IDBKeyRange.only(sessionId))
+    );
+
+    return new Map(entries.map(entry => [entry.pointId, Array.from(entry.embedding)]));
+  }
+
+  /**
+   * Remove a session and its saved embeddings
+   */
+  static async delete(sessionId: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction([STORES.sessionCheckpoints, STORES.sessionEmbeddings], 'readwrite');
+    const embeddings = transaction.objectStore(STORES.sessionEmbeddings);
+
+    transaction.objectStore(STORES.sessionCheckpoints).delete(sessionId);
+    const keys = await requestToPromise(embeddings.index('sessionId').getAllKeys(IDBKeyRange.only(sessionId)));
+    keys.forEach(key => embeddings.delete(key));
+
+    await transactionDone(transaction);
+  }
+}
@@ -0,0 +1,138 @@
+import { DataPoint } from '@/types';
+
+const TEMPLATE_STORAGE_KEY = 'data-viz-graph:text-templates';
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+// Metadata fields included by the suggested template, in this order
+const SUGGESTED_METADATA_FIELDS = ['title', 'description', 'summary', 'content', 'tags'];
+
+/**
+ * Templates that turn a data point into the text sent for embedding, e.g.
+ * `{{title}}\n{{metadata.body}}`. Placeholders name a data point field (`id`,
+ * `text`, `category`) or a metadata path; a bare name that is not a data point
+ * field is looked up in metadata. Templates are remembered per dataset name.
+ */
+export class TextTemplates {
+  /**
+   * Render a template for one data point. Missing values become empty, and
+   * lines left empty by them are dropped.
+   */
+  static render(template: string, point: DataPoint): string {
+    return template
+      .replace(PLACEHOLDER_PATTERN, (_, path: string) => this.formatValue(this.resolve(point, path)))
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .join('\n');
+  }
+
+  /**
+   * Placeholders that resolve to a value in at least one of the sample points
+   */
+  static getFields(points: DataPoint[], sampleSize: number = 200): string[] {
+    const fields = new Set<string>();
+
+    points.slice(0, sampleSize).forEach(point => {
+      if (point.text) fields.add('text');
+      if (point.category) fields.add('category');
+      Object.entries(point.metadata || {}).forEach(([key, value]) => {
+        if (value !== null && value !== undefined && value !== '') {
+          fields.add(`metadata.${key}`);
+        }
+      });
+    });
+
+    return ['id', ...Array.from(fields)];
+  }
+
+  /**
+   * Default for a dataset: the text plus common descriptive metadata fields.
+   * The category is left out so labels do not leak into the vectors.
+   */
+  static suggest(points: DataPoint[]): string {
+    const fields = this.getFields(points);
+    const metadataLines = SUGGESTED_METADATA_FIELDS
+      .filter(field => fields.includes(`metadata.${field}`))
+      .map(field => `{{metadata.${field}}}`);
+
+    return ['{{text}}', ...metadataLines].join('\n');
+  }
+
+  /**
+   * Placeholders that are empty in every sample point (likely typos)
+   */
+  static findUnknownFields(template: string, points: DataPoint[], sampleSize: number = 200): string[] {
+    const sample = points.slice(0, sampleSize);
+    const paths = new Set(Array.from(template.matchAll(PLACEHOLDER_PATTERN), match => match[1]));
+
+    return Array.from(paths).filter(path =>
+      sample.length > 0 && sample.every(point => this.formatValue(this.resolve(point, path)) === '')
+    );
+  }
+
+  static getForDataset(datasetName: string): string | null {
+    return this.readStore()[datasetName] ?? null;
+  }
+
+  static saveForDataset(datasetName: string, template: string): void {
+    if (typeof localStorage === 'undefined' || !datasetName) return;
+
+    const templates = this.readStore();
+    templates[datasetName] = template;
+    localStorage.setItem(TEMPLATE_STORAGE_KEY, JSON.stringify(templates));
+  }
+
+  /**
+   * Short fingerprint of a template, recorded with each embedding so vectors
+   * made from differently rendered texts are not mixed; the legacy field
+   * combination (no template) hashes as the empty string
+   */
+  static hash(template: string | undefined): string {
+    let hash = 0x811c9dc5;
+    const text = template ?? '';
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+  }
+
+  private static readStore(): Record<string, string> {
+    if (typeof localStorage === 'undefined') return {};
+
+    try {
+      return JSON.parse(localStorage.getItem(TEMPLATE_STORAGE_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private static isPointField(path: string): boolean {
+    return path === 'id' || path === 'text' || path === 'category';
+  }
+
+  private static resolve(point: DataPoint, path: string): unknown {
+    if (this.isPointField(path)) {
+      return point[path as 'id' | 'text' | 'category'];
+    }
+
+    const key = path.startsWith('metadata.') ? path.slice('metadata.'.length) : path;
+    const metadata = point.metadata || {};
+
+    // Column names may themselves contain dots; otherwise walk nested objects
+    if (key in metadata) {
+      return metadata[key];
+    }
+    return key.split('.').reduce<unknown>(
+      (value, part) => value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined,
+      metadata
+    );
+  }
+
+  private static formatValue(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    if (Array.isArray(value)) return value.map(item => this.formatValue(item)).filter(Boolean).join(', ');
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value).trim();
+  }
+}
@@ -0,0 +1,80 @@
+import type { Tiktoken } from 'js-tiktoken/lite';
+
+/**
+ * Local BPE token counter compatible with OpenAI embedding models (cl100k_base).
+ * The rank table is large, so it is loaded lazily on first use via `ready()`.
+ */
+export class TokenCounter {
+  private static encoder: Tiktoken | null = null;
+  private static loading: Promise<void> | null = null;
+
+  /**
+   * Load the BPE ranks; must be awaited before using the sync helpers
+   */
+  static ready(): Promise<void> {
+    if (this.encoder) return Promise.resolve();
+
+    if (!this.loading) {
+      this.loading = Promise.all([
+        import('js-tiktoken/lite'),
+        import('js-tiktoken/ranks/cl100k_base')
+      ]).then(([{ Tiktoken }, ranks]) => {
+        this.encoder = new Tiktoken(ranks.default);
+      }).catch(error => {
+        this.loading = null;
+        throw new Error(`Failed to load tokenizer: ${error.message}`);
+      });
+    }
+
+    return this.loading;
+  }
+
+  static isReady(): boolean {
+    return this.encoder !== null;
+  }
+
+  /**
+   * Encode text into token ids; special-token markers are treated as plain text
+   */
+  static encode(text: string): number[] {
+    return this.getEncoder().encode(text, [], []);
+  }
+
+  static count(text: string): number {
+    return this.encode(text).length;
+  }
+
+  /**
+   * Cut text down to at most `maxTokens` tokens
+   */
+  static truncate(text: string, maxTokens: number): string {
+    const tokens = this.encode(text);
+    if (tokens.length <= maxTokens) return text;
+    return this.getEncoder().decode(tokens.slice(0, maxTokens));
+  }
+
+  /**
+   * Split text into consecutive windows of at most `maxTokens` tokens
+   */
+  static splitIntoWindows(text: string, maxTokens: number, overlap: number = 0): string[] {
+    const tokens = this.encode(text);
+    if (tokens.length <= maxTokens) return [text];
+
+    const step = Math.max(1, maxTokens - overlap);
+    const windows: string[] = [];
+
+    for (let start = 0; start < tokens.length; start += step) {
+      windows.push(this.getEncoder().decode(tokens.slice(start, start + maxTokens)));
+      if (start + maxTokens >= tokens.length) break;
+    }
+
+    return windows;
+  }
+
+  private static getEncoder(): Tiktoken {
+    if (!this.encoder) {
+      throw new Error('Tokenizer not loaded. Call TokenCounter.ready() first.');
+    }
+    return this.encoder;
+  }
+}
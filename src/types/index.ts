@@ -4,9 +4,19 @@ export interface DataPoint {
   text: string;
   category?: string;
   embedding?: number[];
+  embeddingInfo?: EmbeddingInfo;
   metadata?: Record<string, any>;
 }
 
+// Provenance of a stored embedding
+export interface EmbeddingInfo {
+  provider: string;
+  model: string;
+  dimensions: number;
+  createdAt: string; // ISO timestamp
+  templateHash?: string; // text template the input was rendered with (TextTemplates.hash)
+}
+
 // Graph visualization types
 export interface GraphNode extends DataPoint {
   x?: number;
@@ -18,11 +28,15 @@ export interface GraphNode extends DataPoint {
   color?: string;
 }
 
+// Semantic links come from embedding similarity, authored links from the data itself (e.g. Markdown wikilinks)
+export type GraphLinkType = 'semantic' | 'authored' | 'both';
+
 export interface GraphLink {
   source: string;
   target: string;
   similarity: number;
   distance?: number;
+  type?: GraphLinkType;
 }
 
 export interface GraphData {
@@ -65,12 +79,290 @@ export interface EmbeddingJob {
   error?: string;
 }
 
+// Embedding provider types
+export interface EmbeddingProviderPricing {
+  costPer1KTokens: number;
+}
+
+export interface EmbeddingBatchResult {
+  embeddings: number[][];
+  totalTokens?: number;
+  rateLimit?: RateLimitInfo;
+}
+
+// Parsed from x-ratelimit-* / Retry-After response headers
+export interface RateLimitInfo {
+  limitRequests?: number;
+  limitTokens?: number;
+  remainingRequests?: number;
+  remainingTokens?: number;
+  resetRequestsMs?: number;
+  resetTokensMs?: number;
+  retryAfterMs?: number;
+}
+
+export interface ThroughputStats {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+  itemsPerSecond: number;
+  concurrency: number;
+  throttled: boolean; // waiting out a Retry-After
+}
+
+export interface EmbeddingProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly model: string;
+  readonly maxBatchSize: number;
+  readonly maxTokens: number; // per input text
+  readonly maxTokensPerRequest?: number; // summed over all inputs of one request
+  readonly dimensions: number;
+  readonly pricing: EmbeddingProviderPricing;
+  embedBatch(texts: string[], signal?: AbortSignal): Promise<EmbeddingBatchResult>;
+  // Whether vectors depend only on (model, dimensions, text) and may be cached
+  readonly cacheable?: boolean;
+  // Normalized URL of a remote endpoint; the same model name may differ between servers
+  readonly endpoint?: string;
+  // Optional corpus-level fitting step (e.g. IDF statistics for local embedders)
+  prepare?(texts: string[]): Promise<void>;
+}
+
+export interface EmbeddingProviderConfig {
+  apiKey?: string;
+  model?: string;
+  [option: string]: any;
+}
+
+export type EmbeddingProviderFactory = (config: EmbeddingProviderConfig) => EmbeddingProvider;
+
+// How the API key is sent to an OpenAI-compatible endpoint
+export type EndpointAuthScheme = 'bearer' | 'api-key' | 'none';
+
+// Form state for an OpenAI-compatible, Azure or self-hosted embeddings endpoint
+export interface CompatibleEndpointSettings {
+  baseUrl: string; // e.g. http://localhost:11434/v1 or https://<resource>.openai.azure.com
+  authScheme: EndpointAuthScheme;
+  model: string;
+  deployment: string; // Azure deployment name; empty for plain OpenAI-compatible servers
+  apiVersion: string; // Azure `api-version` query parameter
+  dimensions?: number; // sent as `dimensions` when set
+  extraHeaders: string; // one "Name: value" per line
+  costPer1KTokens?: number;
+}
+
+// How texts longer than the provider's per-input token limit are embedded
+export type LongTextStrategy = 'truncate' | 'mean' | 'max';
+
+// What a cached vector depends on besides its text
+export interface EmbeddingCacheScope {
+  provider: string; // provider id
+  endpoint?: string; // normalized endpoint URL of remote providers
+  model: string;
+  dimensions: number;
+}
+
+export interface EmbeddingCacheStats {
+  totalEntries: number;
+  approximateBytes: number;
+  models: {
+    model: string;
+    dimensions: number;
+    entries: number;
+    oldestEntry: number;
+    newestEntry: number;
+  }[];
+}
+
+// Persisted state of an embedding run, used to resume after a reload or crash
+export interface EmbeddingSessionCheckpoint {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  providerId: string;
+  providerConfig: EmbeddingProviderConfig; // never contains the API key, extra headers or URL credentials
+  longTextStrategy: LongTextStrategy;
+  textTemplate?: string; // embedding text template the session was started with
+  dataset: DataPoint[]; // full dataset as loaded in the app
+  targetIds?: string[]; // ids being embedded when only part of the dataset was sent
+  datasetName?: string;
+  totalItems: number;
+  completedItems: number;
+  estimatedCost: number;
+}
+
+export interface CostEstimate {
+  tokens: number;
+  cost: number;
+  costPerItem: number;
+  processingTime: number; // rough seconds
+}
+
+// Embeddings of some points of a list, concatenated so they can be transferred to or from a worker
+export interface PackedEmbeddings {
+  indices: Uint32Array; // positions in the point list of the points that have an embedding
+  vectors: Float32Array; // their embeddings, concatenated
+  offsets: Uint32Array; // vector i spans vectors[offsets[i]..offsets[i + 1]]
+  embeddingInfo: (EmbeddingInfo | undefined)[];
+}
+
+// Messages from the page to the embedding worker
+export type EmbeddingWorkerRequest =
+  | {
+      type: 'init'; // create the provider and service; sent once before anything else
+      providerId: string;
+      providerConfig: EmbeddingProviderConfig;
+      longTextStrategy: LongTextStrategy;
+      budget: BudgetSettings;
+      textTemplate?: string;
+      useCache?: boolean;
+    }
+  | { type: 'estimate'; requestId: number; textCount: number; sampleTexts?: string[] }
+  | {
+      type: 'start';
+      dataPoints: DataPoint[];
+      resume?: EmbeddingSessionCheckpoint;
+      dataset?: DataPoint[]; // without embeddings; they follow in datasetEmbeddings
+      datasetEmbeddings?: PackedEmbeddings;
+      datasetName?: string;
+    }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'cancel' };
+
+// Messages from the embedding worker to the page
+export type EmbeddingWorkerResponse =
+  | { type: 'estimate'; requestId: number; estimate?: CostEstimate; error?: string }
+  | { type: 'progress'; progress: ProcessingProgress }
+  | ({
+      type: 'result';
+      jobs: EmbeddingJob[]; // per-item outcome, without embeddings
+      spend: SessionSpend | null;
+    } & PackedEmbeddings) // the points of `dataPoints` that received an embedding
+  | { type: 'error'; message: string };
+
+// An array read from a NumPy .npy file (or one entry of an .npz archive)
+export interface NpyArray {
+  name: string;
+  dtype: string; // numpy descr, e.g. '<f4'
+  shape: number[];
+  values: Float32Array | string[]; // float dtypes as float32; string and integer dtypes as strings
+}
+
+// How rows of an imported embedding matrix are matched to data points
+export type EmbeddingMatrixJoin = 'order' | 'id';
+
+// Formats parsed by streaming in the file import worker
+export type StreamingImportFormat = 'csv' | 'jsonl';
+
+// What was wrong with an imported row or value
+export type ImportIssueKind = 'skipped_row' | 'malformed_row' | 'invalid_embedding' | 'duplicate_id' | 'dimension_mismatch';
+
+// A problem found while importing a file
+export interface ImportIssue {
+  kind: ImportIssueKind;
+  line?: number; // 1-based line in CSV and JSONL files, item number in JSON, Parquet and Arrow
+  id?: string;
+  file?: string; // set on multi-file imports
+  message: string;
+}
+
+// Issues of an import, reviewed before the data replaces the current dataset
+export interface ImportValidationReport {
+  imported: number;
+  issues: ImportIssue[];
+  counts: Record<ImportIssueKind, number>;
+  embeddingDimensions: number; // most common vector length, 0 without embeddings
+}
+
+// Messages from the page to the file import worker
+export type FileImportWorkerRequest = {
+  type: 'parse';
+  format: StreamingImportFormat;
+  file: File;
+  options: DataProcessingOptions;
+};
+
+// Messages from the file import worker to the page
+export type FileImportWorkerResponse =
+  | { type: 'progress'; progress: ProcessingProgress }
+  | { type: 'rows'; points: DataPoint[] }
+  | { type: 'done'; rows: number; issues: ImportIssue[] }
+  | { type: 'error'; message: string };
+
+// Spending caps in USD; undefined or 0 means no limit
+export interface BudgetSettings {
+  sessionLimit?: number;
+  monthlyLimit?: number;
+}
+
+// Spend of a running session, from provider-reported token usage
+export interface SessionSpend {
+  tokens: number;
+  cost: number;
+  reserved: number; // estimated cost of requests in flight
+  limit: number; // allowance for the session in USD (Infinity when uncapped)
+  capReached: boolean;
+}
+
+// One embedding run as recorded for cost reporting
+export interface CostLedgerEntry {
+  id: string; // session id
+  startedAt: number;
+  finishedAt?: number;
+  provider: string;
+  model: string;
+  dimensions: number;
+  datasetName: string;
+  items: number;
+  embedded: number;
+  tokens: number;
+  cost: number;
+  status: 'running' | 'completed' | 'cancelled' | 'budget_exceeded' | 'failed';
+}
+
 export interface SimilarityPair {
   id1: string;
   id2: string;
   similarity: number;
 }
 
+// Embedding health checks
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface EmbeddingDiagnosticIssue {
+  type: 'invalid_values' | 'zero_vector' | 'dimension_mismatch' | 'exact_duplicate' | 'near_duplicate' | 'anisotropy' | 'category_outlier' | 'unnormalized';
+  severity: DiagnosticSeverity;
+  message: string;
+  pointIds: string[]; // affected points (capped for display)
+}
+
+export interface CategoryOutlier {
+  id: string;
+  category: string;
+  similarity: number; // cosine similarity to the category centroid
+  categoryMedian: number;
+}
+
+export interface EmbeddingDiagnosticsReport {
+  status: DiagnosticSeverity | 'ok'; // worst issue severity
+  issues: EmbeddingDiagnosticIssue[];
+  totalPoints: number;
+  withEmbeddings: number;
+  dimensions: number; // most common embedding length
+  dimensionCounts: Record<number, number>;
+  invalidIds: string[]; // NaN or infinite values
+  zeroIds: string[];
+  dimensionMismatchIds: string[];
+  exactDuplicateGroups: string[][];
+  nearDuplicates: SimilarityPair[];
+  nearDuplicateThreshold: number;
+  nearDuplicatesApproximate: boolean; // found by random-projection hashing instead of all pairs
+  meanPairwiseCosine: number; // anisotropy; near 0 for well-spread vectors
+  norm: { min: number; max: number; mean: number };
+  outliers: CategoryOutlier[];
+  durationMs: number;
+}
+
 // Enhanced data processing types for large datasets
 export interface DataProcessingOptions {
   chunkSize?: number;
@@ -78,6 +370,25 @@ export interface DataProcessingOptions {
   enableStreaming?: boolean;
   maxFileSize?: number; // in MB
   supportedFormats?: string[];
+  columnMapping?: ColumnMapping; // chosen in the import wizard; field names are guessed when omitted
+}
+
+// Which source columns (CSV headers or JSON keys) become which data point fields
+export interface ColumnMapping {
+  id?: string;
+  text: string[]; // concatenated in this order
+  textSeparator: string;
+  category?: string;
+  embedding?: string;
+  metadata: string[];
+}
+
+// A source column as shown in the import wizard
+export interface DetectedColumn {
+  name: string;
+  samples: string[];
+  filledRatio: number; // share of sample rows with a value
+  kind: 'text' | 'number' | 'vector' | 'object' | 'empty';
 }
 
 export interface ProcessingProgress {
@@ -85,7 +396,9 @@ export interface ProcessingProgress {
   progress: number;
   current: number;
   total: number;
+  unit?: 'items' | 'bytes'; // what current/total count (items when omitted)
   message: string;
+  throughput?: ThroughputStats;
 }
 
 // Configuration types
@@ -114,10 +427,27 @@ export interface VisualizationConfig {
 export type ConnectionStrategy = 'top3' | 'top5' | 'top10' | 'threshold' | 'adaptive' | 'category_based';
 
 // File upload types
+export type ExportFormat = 'json' | 'csv' | 'jsonl';
+
+// A Markdown note of a vault, with its path inside the vault folder
+export interface MarkdownNote {
+  path: string;
+  content: string;
+}
+
+// One file of a multi-file or folder upload
+export interface SourceFileSummary {
+  name: string; // path inside the dropped or chosen folder
+  items: number;
+  skippedLines: number;
+  renamedIds: number; // ids prefixed because another file used them too
+  error?: string;
+}
+
 export interface FileUploadResult {
   data: DataPoint[];
   hasEmbeddings: boolean;
-  errors?: string[];
+  issues?: ImportIssue[];
   stats?: DataStats;
 }
 
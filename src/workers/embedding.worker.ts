@@ -0,0 +1,101 @@
+import { EmbeddingWorkerRequest, EmbeddingWorkerResponse } from '@/types';
+import { EmbeddingService } from '@/lib/embeddingService';
+import { EmbeddingProviderRegistry } from '@/lib/embeddingProviders';
+import { packedBuffers, packEmbeddings, unpackEmbeddings } from '@/lib/packedEmbeddings';
+
+/**
+ * Runs the embedding pipeline (batching, requests, response parsing, pooling)
+ * off the main thread. The provider is rebuilt here from its serializable
+ * config; see EmbeddingWorkerClient for the page side of the protocol.
+ */
+
+// Only the parts of DedicatedWorkerGlobalScope used here (the project compiles against the DOM lib)
+interface WorkerScope {
+  postMessage(message: EmbeddingWorkerResponse, options?: StructuredSerializeOptions): void;
+  onmessage: ((event: MessageEvent<EmbeddingWorkerRequest>) => void) | null;
+}
+
+const scope = self as unknown as WorkerScope;
+
+let service: EmbeddingService | null = null;
+let initError: string | null = null;
+
+function post(message: EmbeddingWorkerResponse, transfer: Transferable[] = []): void {
+  scope.postMessage(message, { transfer });
+}
+
+scope.onmessage = (event: MessageEvent<EmbeddingWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'init':
+      try {
+        const provider = EmbeddingProviderRegistry.create(message.providerId, message.providerConfig);
+        service = new EmbeddingService(provider, {
+          useCache: message.useCache,
+          longTextStrategy: message.longTextStrategy,
+          providerConfig: message.providerConfig,
+          budget: message.budget,
+          textTemplate: message.textTemplate
+        });
+      } catch (error: any) {
+        initError = error.message;
+      }
+      break;
+
+    case 'estimate':
+      if (!service) {
+        post({ type: 'estimate', requestId: message.requestId, error: initError || 'Embedding worker is not initialized' });
+        break;
+      }
+      service.estimateCost(message.textCount, message.sampleTexts)
+        .then(estimate => post({ type: 'estimate', requestId: message.requestId, estimate }))
+        .catch((error: any) => post({ type: 'estimate', requestId: message.requestId, error: error.message }));
+      break;
+
+    case 'start':
+      if (!service) {
+        post({ type: 'error', message: initError || 'Embedding worker is not initialized' });
+        break;
+      }
+      run(service, message).catch((error: any) => post({ type: 'error', message: error.message }));
+      break;
+
+    case 'pause':
+      service?.pauseSession();
+      break;
+
+    case 'resume':
+      service?.resumeSession();
+      break;
+
+    case 'cancel':
+      service?.cancelSession();
+      break;
+  }
+};
+
+async function run(
+  service: EmbeddingService,
+  message: Extract<EmbeddingWorkerRequest, { type: 'start' }>
+): Promise<void> {
+  // The dataset is only kept for the checkpoint, which needs the vectors of rows outside the run
+  const dataset = message.dataset && message.datasetEmbeddings
+    ? unpackEmbeddings(message.dataset, message.datasetEmbeddings)
+    : message.dataset;
+
+  const result = await service.processDataPointsWithEmbeddings(
+    message.dataPoints,
+    progress => post({ type: 'progress', progress }),
+    { resume: message.resume, dataset, datasetName: message.datasetName }
+  );
+
+  const packed = packEmbeddings(result);
+
+  post({
+    type: 'result',
+    ...packed,
+    jobs: service.getLastJobs().map(({ embedding, ...job }) => job),
+    spend: service.getSessionSpend()
+  }, packedBuffers(packed));
+}
@@ -0,0 +1,38 @@
+import {
+  DataPoint,
+  FileImportWorkerRequest,
+  FileImportWorkerResponse,
+  ImportIssue,
+  ProcessingProgress
+} from '@/types';
+import { DataProcessor } from '@/lib/dataProcessor';
+
+/**
+ * Streams and parses CSV and JSONL files off the main thread. Parsed rows are
+ * posted back batch by batch so the page never holds the file as one string;
+ * see FileImportClient for the page side.
+ */
+
+// Only the parts of DedicatedWorkerGlobalScope used here (the project compiles against the DOM lib)
+interface WorkerScope {
+  postMessage(message: FileImportWorkerResponse): void;
+  onmessage: ((event: MessageEvent<FileImportWorkerRequest>) => void) | null;
+}
+
+const scope = self as unknown as WorkerScope;
+
+scope.onmessage = (event: MessageEvent<FileImportWorkerRequest>) => {
+  parse(event.data)
+    .then(({ rows, issues }) => scope.postMessage({ type: 'done', rows, issues }))
+    .catch((error: any) => scope.postMessage({ type: 'error', message: error.message }));
+};
+
+async function parse({ format, file, options }: FileImportWorkerRequest): Promise<{ rows: number; issues: ImportIssue[] }> {
+  const onRows = (points: DataPoint[]) => scope.postMessage({ type: 'rows', points });
+  const onProgress = (progress: ProcessingProgress) => scope.postMessage({ type: 'progress', progress });
+
+  if (format === 'jsonl') {
+    return DataProcessor.streamJSONLFile(file, onRows, options, onProgress);
+  }
+  return DataProcessor.streamCSVFile(file, onRows, options, onProgress);
+}